@@ -3,7 +3,10 @@ import { Router, Request, Response } from 'express';
 import { calendarService } from './calendar.routes';
 import { walletService } from './wallet.routes';
 import { dataStreamsService } from './streams.routes';
+import { executionLedger } from './transaction.routes';
+import { dataStreamsService as enhancedDataStreamsService } from './data-streams.routes';
 import CalendarAgent from '../services/monitoring/CalendarAgent';
+import { ApprovalError } from '../services/monitoring/ApprovalGate';
 
 // Load environment variables
 dotenv.config();
@@ -14,7 +17,8 @@ const router = Router();
 const calendarAgent = new CalendarAgent(
   calendarService,
   walletService,
-  dataStreamsService
+  dataStreamsService,
+  { ledger: executionLedger, enhancedDataStreamsService: enhancedDataStreamsService }
 );
 
 /**
@@ -41,9 +45,9 @@ router.get('/status', (_req: Request, res: Response) => {
  * POST /api/agent/start
  * Start the calendar monitoring agent
  */
-router.post('/start', (_req: Request, res: Response) => {
+router.post('/start', async (_req: Request, res: Response) => {
   try {
-    calendarAgent.start();
+    await calendarAgent.start();
 
     return res.json({
       success: true,
@@ -61,9 +65,9 @@ router.post('/start', (_req: Request, res: Response) => {
  * POST /api/agent/stop
  * Stop the calendar monitoring agent
  */
-router.post('/stop', (_req: Request, res: Response) => {
+router.post('/stop', async (_req: Request, res: Response) => {
   try {
-    calendarAgent.stop();
+    await calendarAgent.stop();
 
     return res.json({
       success: true,
@@ -97,6 +101,12 @@ router.get('/queue', (_req: Request, res: Response) => {
           (item.parsed.executionTime.getTime() - Date.now()) / 1000
         ),
         attempts: item.attempts,
+        approval: item.approval ? {
+          status: item.approval.status,
+          valueUsd: item.approval.valueUsd,
+          approvedVia: item.approval.approvedVia ?? null,
+          approvedAt: item.approval.approvedAt?.toISOString() ?? null
+        } : null,
         addedAt: item.addedAt.toISOString()
       }))
     });
@@ -108,13 +118,105 @@ router.get('/queue', (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/agent/queue/:eventId/attempts
+ * Get execution attempt history for an event
+ */
+router.get('/queue/:eventId/attempts', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const attempts = await calendarAgent.getAttempts(eventId);
+
+    return res.json({
+      success: true,
+      eventId,
+      count: attempts.length,
+      attempts: attempts.map(attempt => ({
+        ...attempt,
+        startedAt: attempt.startedAt.toISOString(),
+        finishedAt: attempt.finishedAt?.toISOString() ?? null
+      }))
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get attempt history'
+    });
+  }
+});
+
+/**
+ * POST /api/agent/queue/:eventId/approve
+ * Approve a queued transaction above the approval threshold
+ * Body: { token } (or ?token=), the single-use token from the event's approval block
+ */
+router.post('/queue/:eventId/approve', async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const token = req.body?.token ?? req.query.token;
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({
+        success: false,
+        error: 'Approval token is required'
+      });
+    }
+
+    const queued = await calendarAgent.approve(eventId, token);
+
+    return res.json({
+      success: true,
+      eventId,
+      message: 'Transaction approved',
+      executionTime: queued.parsed.executionTime.toISOString(),
+      approvedAt: queued.approval?.approvedAt?.toISOString() ?? null
+    });
+  } catch (error: any) {
+    if (error instanceof ApprovalError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to approve transaction'
+    });
+  }
+});
+
+/**
+ * GET /api/agent/series/:seriesId/occurrences
+ * List tracked occurrences of a recurring event with outcome counts
+ */
+router.get('/series/:seriesId/occurrences', async (req: Request, res: Response) => {
+  try {
+    const { seriesId } = req.params;
+    const { occurrences, ...summary } = await calendarAgent.getSeries(seriesId);
+
+    return res.json({
+      success: true,
+      ...summary,
+      count: occurrences.length,
+      occurrences: occurrences.map(occurrence => ({
+        ...occurrence,
+        updatedAt: occurrence.updatedAt.toISOString()
+      }))
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get series occurrences'
+    });
+  }
+});
+
 /**
  * POST /api/agent/clear-cache
  * Clear processed events cache
  */
-router.post('/clear-cache', (_req: Request, res: Response) => {
+router.post('/clear-cache', async (_req: Request, res: Response) => {
   try {
-    calendarAgent.clearProcessedCache();
+    await calendarAgent.clearProcessedCache();
 
     return res.json({
       success: true,
@@ -2,6 +2,8 @@ import dotenv from 'dotenv';
 import { Router, Request, Response } from 'express';
 import CalendarService from '../services/calendar/CalendarService';
 import { calendar_v3 } from 'googleapis';
+import { timeZoneResolver } from '../services/calendar/TimeZoneResolver';
+import { requireAdmin } from '../utils/adminAuth';
 
 // Load environment variables before instantiating CalendarService
 dotenv.config();
@@ -248,6 +250,35 @@ router.post('/events/:id/append', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Google Calendar push notifications (events.watch)
+ * Notifications carry no body; the channel headers identify the calendar to re-sync.
+ */
+router.post('/webhook', (req: Request, res: Response) => {
+  const result = calendarService.handleNotification({
+    channelId: req.get('x-goog-channel-id'),
+    channelToken: req.get('x-goog-channel-token'),
+    resourceId: req.get('x-goog-resource-id'),
+    resourceState: req.get('x-goog-resource-state')
+  });
+
+  if (result === 'unknown-channel') {
+    return res.status(404).json({
+      success: false,
+      error: 'Unknown notification channel'
+    });
+  }
+
+  if (result === 'invalid-token') {
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid channel token'
+    });
+  }
+
+  return res.json({ success: true, state: result });
+});
+
 router.get('/status', (_req: Request, res: Response) => {
   return res.json({
     success: true,
@@ -258,6 +289,61 @@ router.get('/status', (_req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/calendar/:calendarId/timezone
+ * Zone used for the calendar's all-day and floating-time events, and where it came from
+ */
+router.get('/:calendarId/timezone', (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+    const resolved = timeZoneResolver.forCalendar(calendarId);
+
+    return res.json({
+      success: true,
+      ...resolved,
+      override: timeZoneResolver.getOverride(calendarId),
+      calendarTimeZone: timeZoneResolver.getCalendarZone(calendarId)
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to resolve time zone'
+    });
+  }
+});
+
+/**
+ * PUT /api/calendar/:calendarId/timezone
+ * Override the calendar's zone (admin only); events that set their own zone keep it
+ * Body: { timeZone: "Europe/Berlin" } or { timeZone: null } to clear
+ */
+router.put('/:calendarId/timezone', requireAdmin, (req: Request, res: Response) => {
+  const { timeZone } = req.body ?? {};
+
+  if (timeZone !== null && typeof timeZone !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'timeZone must be an IANA zone name or null'
+    });
+  }
+
+  try {
+    const { calendarId } = req.params;
+    timeZoneResolver.setOverride(calendarId, timeZone);
+
+    return res.json({
+      success: true,
+      message: timeZone ? 'Time zone override saved' : 'Time zone override cleared',
+      ...timeZoneResolver.forCalendar(calendarId)
+    });
+  } catch (error: any) {
+    return res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to save time zone'
+    });
+  }
+});
+
 function formatEventSummary(event: calendar_v3.Schema$Event) {
   return {
     id: event.id,
@@ -0,0 +1,155 @@
+import dotenv from 'dotenv';
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { addressBook } from '../services/blockchain/AddressBook';
+import { requireAdmin } from '../utils/adminAuth';
+
+// Load environment variables
+dotenv.config();
+
+const router = Router();
+
+/**
+ * GET /api/contacts/:calendarId
+ * List a calendar's address book
+ */
+router.get('/:calendarId', (req: Request, res: Response) => {
+  try {
+    const contacts = addressBook.list(req.params.calendarId);
+
+    return res.json({
+      success: true,
+      count: contacts.length,
+      contacts
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list contacts'
+    });
+  }
+});
+
+/**
+ * GET /api/contacts/:calendarId/:name
+ * Look up a single contact
+ */
+router.get('/:calendarId/:name', (req: Request, res: Response) => {
+  try {
+    const contact = addressBook.get(req.params.calendarId, req.params.name);
+
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        error: `Contact not found: @${req.params.name}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      contact
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get contact'
+    });
+  }
+});
+
+/**
+ * POST /api/contacts/:calendarId
+ * Add or replace a contact (admin only)
+ * Body: { name: "alice", address: "0x...", label?: "Alice (rent)" }
+ */
+router.post('/:calendarId', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const contact = addressBook.upsert(req.params.calendarId, req.body);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Contact saved successfully',
+      contact
+    });
+  } catch (error: any) {
+    return sendContactError(res, error, 'Failed to save contact');
+  }
+});
+
+/**
+ * PUT /api/contacts/:calendarId/:name
+ * Update a contact's address or label (admin only)
+ */
+router.put('/:calendarId/:name', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const { calendarId, name } = req.params;
+    const existing = addressBook.get(calendarId, name);
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: `Contact not found: @${name}`
+      });
+    }
+
+    const contact = addressBook.upsert(calendarId, {
+      address: existing.address,
+      label: existing.label,
+      ...req.body,
+      name: existing.name
+    });
+
+    return res.json({
+      success: true,
+      message: 'Contact updated successfully',
+      contact
+    });
+  } catch (error: any) {
+    return sendContactError(res, error, 'Failed to update contact');
+  }
+});
+
+/**
+ * DELETE /api/contacts/:calendarId/:name
+ * Remove a contact (admin only)
+ * Events that still reference it fail to parse with "Unknown contact"
+ */
+router.delete('/:calendarId/:name', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const removed = addressBook.remove(req.params.calendarId, req.params.name);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: `Contact not found: @${req.params.name}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Contact removed successfully'
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove contact'
+    });
+  }
+});
+
+function sendContactError(res: Response, error: any, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid contact',
+      details: error.errors
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    error: error.message || fallback
+  });
+}
+
+export { router as contactRouter };
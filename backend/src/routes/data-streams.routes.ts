@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import EnhancedDataStreamsService from '../services/blockchain/EnhancedDataStreamsService';
 import { IntentStatus, createIntentId } from '../schemas/scheduled-intent.schema';
 import { parseEther } from 'viem';
+import { formatLocalTime, isValidTimeZone } from '../services/calendar/TimeZoneResolver';
 
 const router = Router();
 
@@ -80,6 +81,7 @@ router.post('/intent', async (req: Request, res: Response) => {
       toToken,
       amount,
       description,
+      timeZone = 'UTC',
     } = req.body;
 
     if (!userWallet || !scheduledTime || !transactionType || !amount) {
@@ -89,6 +91,13 @@ router.post('/intent', async (req: Request, res: Response) => {
       });
     }
 
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown time zone: ${timeZone}`,
+      });
+    }
+
     const now = Math.floor(Date.now() / 1000);
     const intentId = createIntentId(userWallet, scheduledTime, now);
 
@@ -103,6 +112,8 @@ router.post('/intent', async (req: Request, res: Response) => {
       description: description || `${transactionType} ${amount} ${fromToken || 'STT'}`,
       createdAt: BigInt(now),
       status: IntentStatus.SCHEDULED,
+      timeZone,
+      scheduledLocalTime: formatLocalTime(new Date(scheduledTime * 1000), timeZone),
     });
 
     res.json({
@@ -111,6 +122,8 @@ router.post('/intent', async (req: Request, res: Response) => {
       txHash,
       message: 'Intent announced on Data Streams',
       scheduledFor: new Date(scheduledTime * 1000).toISOString(),
+      scheduledForLocal: formatLocalTime(new Date(scheduledTime * 1000), timeZone),
+      timeZone,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -268,6 +281,8 @@ router.post('/demo', async (req: Request, res: Response) => {
       description: 'Demo: Transfer 1.0 STT',
       createdAt: BigInt(now),
       status: IntentStatus.SCHEDULED,
+      timeZone: 'UTC',
+      scheduledLocalTime: formatLocalTime(new Date(scheduledTime * 1000), 'UTC'),
     });
 
     results.demo.intent = {
@@ -0,0 +1,96 @@
+import dotenv from 'dotenv';
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { policyEngine } from '../services/blockchain/PolicyEngine';
+import { requireAdmin } from '../utils/adminAuth';
+
+// Load environment variables
+dotenv.config();
+
+const router = Router();
+
+/**
+ * GET /api/policies/:calendarId
+ * Get a calendar's spending policy and its spending over the rolling windows
+ */
+router.get('/:calendarId', (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+
+    return res.json({
+      success: true,
+      calendarId,
+      policy: policyEngine.getPolicy(calendarId),
+      usage: policyEngine.getUsage(calendarId)
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get policy'
+    });
+  }
+});
+
+/**
+ * PUT /api/policies/:calendarId
+ * Replace a calendar's spending policy (admin only)
+ * Body: {
+ *   maxPerTransaction?: { "USDC": "500" }, dailyLimit?: {...}, weeklyLimit?: {...},
+ *   allowlist?: ["0x...", "@alice"], denylist?: [...],
+ *   quietHours?: { start: "22:00", end: "07:00", timeZone?: "Europe/Berlin" },
+ *   maxExecutionsPerDay?: 10
+ * }
+ */
+router.put('/:calendarId', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const policy = policyEngine.setPolicy(req.params.calendarId, req.body);
+
+    return res.json({
+      success: true,
+      message: 'Policy saved successfully',
+      policy
+    });
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid policy',
+        details: error.errors
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save policy'
+    });
+  }
+});
+
+/**
+ * DELETE /api/policies/:calendarId
+ * Remove a calendar's spending policy (admin only); its wallet is unrestricted afterwards
+ */
+router.delete('/:calendarId', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const removed = policyEngine.removePolicy(req.params.calendarId);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: `No policy for calendar ${req.params.calendarId}`
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Policy removed successfully'
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to remove policy'
+    });
+  }
+});
+
+export { router as policyRouter };
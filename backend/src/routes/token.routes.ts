@@ -0,0 +1,86 @@
+import dotenv from 'dotenv';
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { zeroAddress, isAddress, type Address } from 'viem';
+import { walletService } from './wallet.routes';
+import { tokenRegistry } from '../services/blockchain/TokenRegistry';
+import { requireAdmin } from '../utils/adminAuth';
+
+// Load environment variables
+dotenv.config();
+
+const router = Router();
+
+/**
+ * GET /api/tokens
+ * List registered tokens (optionally ?chainId=50312)
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const chainId = req.query.chainId ? Number(req.query.chainId) : undefined;
+
+    if (chainId !== undefined && isNaN(chainId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'chainId must be a number'
+      });
+    }
+
+    const tokens = tokenRegistry.list(chainId);
+
+    return res.json({
+      success: true,
+      count: tokens.length,
+      defaultChainId: tokenRegistry.defaultChainId,
+      tokens
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list tokens'
+    });
+  }
+});
+
+/**
+ * POST /api/tokens
+ * Add or update a token (admin only)
+ * If decimals are omitted they are read from the ERC-20 contract
+ */
+router.post('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const body = {
+      chainId: tokenRegistry.defaultChainId,
+      ...req.body
+    };
+
+    if (body.decimals === undefined && typeof body.address === 'string' && isAddress(body.address)) {
+      body.decimals = body.address.toLowerCase() === zeroAddress
+        ? 18
+        : await walletService.getTokenDecimals(body.address as Address);
+    }
+
+    const token = await tokenRegistry.upsert(body);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Token registered successfully',
+      token
+    });
+  } catch (error: any) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid token definition',
+        details: error.errors
+      });
+    }
+
+    return res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to register token'
+    });
+  }
+});
+
+export { router as tokenRouter };
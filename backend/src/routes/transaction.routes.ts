@@ -4,7 +4,20 @@ import { calendarService } from './calendar.routes';
 import { walletService } from './wallet.routes';
 import { dataStreamsService } from './streams.routes';
 import EventParser from '../services/calendar/EventParser';
-import TransactionExecutor from '../services/blockchain/TransactionExecutor';
+import TransactionExecutor, {
+  ExecutionResult,
+  formatBatchLegs,
+  formatGuardFailure,
+  formatPreview,
+  hasSentFunds,
+  PREVIEW_HEADER
+} from '../services/blockchain/TransactionExecutor';
+import { formatPolicyViolation } from '../services/blockchain/PolicyEngine';
+import ApprovalGate, { approvalSignal } from '../services/monitoring/ApprovalGate';
+import { formatConditionCheck } from '../services/monitoring/ConditionEvaluator';
+import { ledgerKeyParts } from '../services/storage/ExecutionLedger';
+import { createExecutionLedger } from '../services/storage/StoreFactory';
+import { requireAdmin } from '../utils/adminAuth';
 
 // Load environment variables
 dotenv.config();
@@ -17,13 +30,21 @@ const transactionExecutor = new TransactionExecutor(
   dataStreamsService
 );
 
+// Shared with the Calendar Agent so both paths execute an intent at most once
+const executionLedger = createExecutionLedger();
+
+// Same threshold as the Calendar Agent: manual runs of large intents need the owner's approval too
+const approvalGate = new ApprovalGate(transactionExecutor.getPriceService());
+
 /**
  * POST /api/transactions/parse
  * Parse a calendar event for transaction intent
+ * An optional eventDescription may carry an ```epochi block (takes precedence over the title)
+ * An optional calendarId selects the address book used for @contact recipients
  */
 router.post('/parse', async (req: Request, res: Response) => {
   try {
-    const { eventTitle, startTime, eventId } = req.body;
+    const { eventTitle, eventDescription, startTime, eventId, calendarId } = req.body;
 
     if (!eventTitle || !startTime) {
       return res.status(400).json({
@@ -36,11 +57,12 @@ router.post('/parse', async (req: Request, res: Response) => {
     const event = {
       id: eventId || 'test-event',
       summary: eventTitle,
+      description: eventDescription,
       start: { dateTime: startTime }
     };
 
     // Parse the event
-    const parsed = EventParser.parseEvent(event);
+    const parsed = EventParser.parseEvent(event, calendarId);
     const isValid = EventParser.validateTransaction(parsed);
 
     return res.json({
@@ -60,12 +82,20 @@ router.post('/parse', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/transactions/execute
+ * POST /api/transactions/execute (admin)
  * Execute a transaction from a calendar event
+ * Intents above APPROVAL_THRESHOLD_USD run only once the owner approved them on the event
+ * (accepted it, or tagged its title)
+ * Pass "override": true to deliberately re-execute an intent the ledger has already run
+ * Pass "dryRun": true to simulate it instead: nothing is broadcast or written on-chain, the
+ * would-be result is returned and written to the event as a preview
  */
-router.post('/execute', async (req: Request, res: Response) => {
+router.post('/execute', requireAdmin, async (req: Request, res: Response) => {
+  let ledgerKey: string | null = null;
+  let executed = false;
+
   try {
-    const { eventId, calendarId } = req.body;
+    const { eventId, calendarId, override, dryRun } = req.body;
 
     if (!eventId || !calendarId) {
       return res.status(400).json({
@@ -94,7 +124,7 @@ router.post('/execute', async (req: Request, res: Response) => {
     }
 
     // Parse the event
-    const parsed = EventParser.parseEvent(event);
+    const parsed = EventParser.parseEvent(event, calendarId);
     
     if (!EventParser.validateTransaction(parsed)) {
       return res.status(400).json({
@@ -103,8 +133,78 @@ router.post('/execute', async (req: Request, res: Response) => {
       });
     }
 
+    if (dryRun === true) {
+      const preview = await transactionExecutor.executeTransaction(parsed, calendarId, { dryRun: true });
+
+      await calendarService.upsertDescriptionBlock(eventId, PREVIEW_HEADER, formatPreview(parsed, preview))
+        .catch((err) => {
+          console.error('Failed to update calendar event:', err);
+        });
+
+      return res.json({
+        success: true,
+        message: preview.success ? 'Dry run: transaction would succeed' : 'Dry run: transaction would fail',
+        result: toJsonResult(preview)
+      });
+    }
+
+    const approval = await approvalGate.assess(parsed);
+    if (approval.required && !approvalSignal(event, parsed)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Intent requires the owner\'s approval: accept the event or tag its title',
+        approval
+      });
+    }
+
+    // At most once per intent unless explicitly overridden
+    const claim = await executionLedger.claim(
+      ledgerKeyParts(parsed, calendarId),
+      { override: override === true }
+    );
+    if (!claim.claimed) {
+      return res.status(409).json({
+        success: false,
+        error: `Intent already ${claim.entry.status}; pass "override": true to execute again`,
+        ledger: claim.entry
+      });
+    }
+    ledgerKey = claim.entry.key;
+
     // Execute the transaction
     const result = await transactionExecutor.executeTransaction(parsed, calendarId);
+    executed = true;
+
+    await executionLedger.complete(ledgerKey, {
+      success: hasSentFunds(result),
+      unconfirmed: result.unconfirmed,
+      txHash: result.txHash,
+      txNonce: result.txNonce,
+      error: result.error
+    });
+
+    if (result.unconfirmed) {
+      // Sent, but no receipt yet: the ledger keeps it from being sent again until it is settled
+      await calendarService.appendToDescription(
+        eventId,
+        `
+⏳ Transaction Sent, Not Confirmed
+━━━━━━━━━━━━━━━━━━━━
+🔗 Transaction: ${result.explorerUrl}
+It will not be sent again; the agent records the outcome once it is mined.${result.legs ? `\n👥 Batch: ${result.batchId}\n${formatBatchLegs(result.legs, parsed.fromToken)}` : ''}
+⏰ Sent: ${new Date().toISOString()}
+        `.trim()
+      ).catch((err) => {
+        console.error('Failed to update calendar event:', err);
+      });
+
+      return res.status(202).json({
+        success: false,
+        unconfirmed: true,
+        error: result.error,
+        result: toJsonResult(result)
+      });
+    }
 
     if (result.success) {
       // Update calendar event with result
@@ -114,7 +214,8 @@ router.post('/execute', async (req: Request, res: Response) => {
 ✅ Transaction Executed!
 ━━━━━━━━━━━━━━━━━━━━
 🔗 Transaction: ${result.explorerUrl}
-💰 Received: ${result.amountReceived} ${parsed.toToken}
+${result.legs ? `👥 Batch: ${result.batchId}
+${formatBatchLegs(result.legs, parsed.fromToken)}` : `💰 Received: ${result.amountReceived} ${parsed.toToken}`}
 📊 Data Stream: ${result.streamTxHash}
 ⏰ Executed: ${new Date().toISOString()}
         `.trim()
@@ -125,7 +226,7 @@ router.post('/execute', async (req: Request, res: Response) => {
       return res.json({
         success: true,
         message: 'Transaction executed successfully',
-        result
+        result: toJsonResult(result)
       });
     } else {
       // Update calendar event with error
@@ -134,7 +235,7 @@ router.post('/execute', async (req: Request, res: Response) => {
         `
 ❌ Transaction Failed
 ━━━━━━━━━━━━━━━━━━━━
-Error: ${result.error}
+Error: ${result.error}${result.guardFailure ? `\n${formatGuardFailure(result.guardFailure)}` : ''}${result.policyViolation ? `\n${formatPolicyViolation(result.policyViolation)}` : ''}${result.conditionCheck ? `\n${formatConditionCheck(result.conditionCheck)}` : ''}${result.legs ? `\n👥 Batch: ${result.batchId}\n${formatBatchLegs(result.legs, parsed.fromToken)}` : ''}
 ⏰ Attempted: ${new Date().toISOString()}
         `.trim()
       ).catch((err) => {
@@ -143,10 +244,20 @@ Error: ${result.error}
 
       return res.status(400).json({
         success: false,
-        error: result.error
+        error: result.error,
+        guardFailure: result.guardFailure,
+        policyViolation: result.policyViolation,
+        conditionCheck: result.conditionCheck,
+        legs: toJsonResult(result).legs
       });
     }
   } catch (error: any) {
+    if (ledgerKey && !executed) {
+      await executionLedger.release(ledgerKey).catch(() => {
+        // Claim stays in-progress; an override can still re-run it
+      });
+    }
+
     return res.status(500).json({
       success: false,
       error: error.message || 'Failed to execute transaction'
@@ -175,7 +286,7 @@ router.get('/pending/:calendarId', async (req: Request, res: Response) => {
 
     // Parse and filter for valid transactions
     const pending = events
-      .map(event => EventParser.parseEvent(event))
+      .map(event => EventParser.parseEvent(event, calendarId))
       .filter(parsed => EventParser.validateTransaction(parsed))
       .filter(parsed => parsed.executionTime > new Date())
       .map(parsed => ({
@@ -199,5 +310,28 @@ router.get('/pending/:calendarId', async (req: Request, res: Response) => {
   }
 });
 
-export { router as transactionRouter };
+/**
+ * Execution result without bigint fields (JSON.stringify can't encode them)
+ */
+function toJsonResult(result: ExecutionResult) {
+  const { rawAmountIn, rawAmountReceived, legs, preview, ...rest } = result;
+  return {
+    ...rest,
+    rawAmountIn: rawAmountIn?.toString(),
+    rawAmountReceived: rawAmountReceived?.toString(),
+    legs: legs?.map((leg) => ({ ...leg, rawAmount: leg.rawAmount.toString() })),
+    preview: preview && {
+      ...preview,
+      gasPrice: preview.gasPrice.toString(),
+      estimatedFee: preview.estimatedFee.toString(),
+      calls: preview.calls.map((call) => ({
+        ...call,
+        value: call.value.toString(),
+        gasEstimate: call.gasEstimate?.toString()
+      }))
+    }
+  };
+}
+
+export { router as transactionRouter, executionLedger };
 
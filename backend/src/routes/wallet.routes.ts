@@ -1,6 +1,15 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import { Router, Request, Response } from 'express';
+import { isAddress, parseEther } from 'viem';
 import SomniaWalletService from '../services/blockchain/SomniaWalletService';
+import { KeystoreError, legacyAddressOf } from '../services/blockchain/Keystore';
+import { SignerError } from '../services/blockchain/Signer';
+import { policyEngine } from '../services/blockchain/PolicyEngine';
+import { tokenRegistry } from '../services/blockchain/TokenRegistry';
+import { requireAdmin } from '../utils/adminAuth';
+import { dataStreamsService } from './data-streams.routes';
+import { SweepStatus, createRotationId } from '../schemas/wallet-rotation.schema';
 
 // Load environment variables before instantiating service
 dotenv.config();
@@ -31,7 +40,7 @@ router.get('/network/status', async (req: Request, res: Response) => {
 
 /**
  * GET /api/wallet/:calendarId
- * Get wallet information for a calendar ID
+ * Get wallet information for a calendar ID (404 until the calendar's wallet exists)
  */
 router.get('/:calendarId', async (req: Request, res: Response) => {
   try {
@@ -51,7 +60,7 @@ router.get('/:calendarId', async (req: Request, res: Response) => {
       wallet: walletInfo,
     });
   } catch (error: any) {
-    return res.status(500).json({
+    return res.status(error instanceof SignerError ? error.statusCode : 500).json({
       success: false,
       error: error.message || 'Failed to get wallet information',
     });
@@ -60,7 +69,7 @@ router.get('/:calendarId', async (req: Request, res: Response) => {
 
 /**
  * GET /api/wallet/:calendarId/address
- * Get just the wallet address
+ * Get just the wallet address (404 until the calendar's wallet exists)
  */
 router.get('/:calendarId/address', (req: Request, res: Response) => {
   try {
@@ -80,7 +89,7 @@ router.get('/:calendarId/address', (req: Request, res: Response) => {
       address,
     });
   } catch (error: any) {
-    return res.status(500).json({
+    return res.status(error instanceof SignerError ? error.statusCode : 500).json({
       success: false,
       error: error.message || 'Failed to get wallet address',
     });
@@ -88,12 +97,16 @@ router.get('/:calendarId/address', (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/wallet/:calendarId/send
- * Send tokens from calendar wallet
+ * POST /api/wallet/:calendarId/send (admin)
+ * Send STT from calendar wallet
+ * Checked against the calendar's spending policy like scheduled transactions, and counted
+ * against its limits once sent
  */
-router.post('/:calendarId/send', async (req: Request, res: Response) => {
+router.post('/:calendarId/send', requireAdmin, async (req: Request, res: Response) => {
+  const { calendarId } = req.params;
+  const spendId = `manual-${crypto.randomUUID()}`;
+
   try {
-    const { calendarId } = req.params;
     const { to, amount } = req.body;
 
     if (!calendarId || !to || !amount) {
@@ -103,7 +116,39 @@ router.post('/:calendarId/send', async (req: Request, res: Response) => {
       });
     }
 
-    const result = await walletService.sendTransaction(calendarId, to, amount);
+    if (!isAddress(to) || !/^\d+(\.\d{1,18})?$/.test(String(amount))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Recipient must be an address and amount an STT amount like 0.5',
+      });
+    }
+    const value = parseEther(String(amount));
+
+    const token = tokenRegistry.resolve('STT')!;
+    const violation = policyEngine.evaluate({ calendarId, token, amount: value, recipients: [to], eventId: spendId });
+    if (violation) {
+      return res.status(403).json({
+        success: false,
+        error: `Blocked by spending policy: ${violation.message}`,
+        policyViolation: violation,
+      });
+    }
+    policyEngine.hold(calendarId, spendId, token, value);
+
+    const result = await walletService.sendTransaction(calendarId, to, String(amount));
+    if (result.success || result.unconfirmed) {
+      policyEngine.recordSpend(calendarId, spendId, token, value);
+    }
+
+    if (result.unconfirmed) {
+      return res.status(202).json({
+        success: false,
+        unconfirmed: true,
+        error: result.error,
+        hash: result.hash,
+        explorerUrl: result.explorerUrl,
+      });
+    }
 
     if (result.success) {
       return res.json({
@@ -123,6 +168,8 @@ router.post('/:calendarId/send', async (req: Request, res: Response) => {
       success: false,
       error: error.message || 'Failed to send transaction',
     });
+  } finally {
+    policyEngine.releaseHold(calendarId, spendId);
   }
 });
 
@@ -141,7 +188,7 @@ router.post('/:calendarId/faucet', async (req: Request, res: Response) => {
       });
     }
 
-    const address = walletService.getWalletAddress(calendarId);
+    const address = await walletService.ensureWallet(calendarId);
     await walletService.requestFaucetFunds(calendarId);
 
     return res.json({
@@ -159,5 +206,192 @@ router.post('/:calendarId/faucet', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/wallet/:calendarId/keystore
+ * Signer in use, keystore entry of a calendar wallet, and its legacy derived address
+ */
+router.get('/:calendarId/keystore', (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+
+    return res.json({
+      success: true,
+      signer: walletService.getSignerKind(),
+      key: walletService.getKeyInfo(calendarId),
+      legacyAddress: legacyAddressOf(calendarId),
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get keystore entry',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:calendarId/keystore/import
+ * Set a calendar's key from { privateKey } or { keystore, password } (admin)
+ * An existing key is only replaced with "replace": true (it is retired, see sweep-retired)
+ */
+router.post('/:calendarId/keystore/import', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+    const { privateKey, keystore, password, replace } = req.body;
+
+    if (!privateKey && !(keystore && typeof password === 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Either privateKey, or keystore and password, are required',
+      });
+    }
+
+    const address = await walletService.importWallet(
+      calendarId,
+      privateKey ? { privateKey: String(privateKey) } : { keystore, password },
+      replace === true
+    );
+
+    return res.json({
+      success: true,
+      message: 'Wallet key imported',
+      address,
+    });
+  } catch (error: any) {
+    return res.status(error instanceof KeystoreError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message || 'Failed to import wallet key',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:calendarId/keystore/export
+ * A calendar's key as a v3 keystore encrypted with { password } (admin)
+ */
+router.post('/:calendarId/keystore/export', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+    const { password } = req.body;
+
+    if (typeof password !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Password is required',
+      });
+    }
+
+    return res.json({
+      success: true,
+      keystore: await walletService.exportWallet(calendarId, password),
+    });
+  } catch (error: any) {
+    return res.status(error instanceof KeystoreError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message || 'Failed to export wallet key',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:calendarId/migrate
+ * Sweep tokens and STT from the calendar's legacy derived wallet into its keystore wallet (admin)
+ */
+router.post('/:calendarId/migrate', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+
+    const sweep = await walletService.migrateLegacyWallet(calendarId);
+
+    return res.json({
+      success: sweep.transfers.every((transfer) => transfer.success),
+      message: sweep.transfers.length > 0
+        ? `Swept ${sweep.transfers.length} balance(s) from the legacy wallet`
+        : 'Nothing to sweep from the legacy wallet',
+      sweep,
+    });
+  } catch (error: any) {
+    return res.status(error instanceof KeystoreError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message || 'Failed to migrate legacy wallet',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:calendarId/rotate
+ * Replace the calendar's key with a new one, sweep the old address into it and record the
+ * retired address on Data Streams (admin)
+ */
+router.post('/:calendarId/rotate', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'manual rotation';
+
+    const { retiredAddress, address, sweep } = await walletService.rotateWallet(calendarId);
+    const transfers = sweep.transfers;
+    const sweepStatus = transfers.length === 0
+      ? SweepStatus.EMPTY
+      : transfers.every((transfer) => transfer.success) ? SweepStatus.COMPLETE : SweepStatus.PARTIAL;
+
+    // The key has already changed; a failed audit record is reported, not fatal
+    let recordTxHash: string | undefined;
+    let recordError: string | undefined;
+    try {
+      recordTxHash = await dataStreamsService.recordWalletRotation({
+        rotationId: createRotationId(retiredAddress),
+        retiredAddress,
+        replacementAddress: address,
+        calendarId,
+        retiredAt: BigInt(Math.floor(Date.now() / 1000)),
+        sweepStatus,
+        sweepTxHashes: transfers.filter((transfer) => transfer.hash).map((transfer) => transfer.hash).join(','),
+        reason,
+      });
+    } catch (error: any) {
+      console.error('⚠️ Failed to record wallet rotation:', error);
+      recordError = error.message || 'Failed to record wallet rotation';
+    }
+
+    return res.json({
+      success: sweepStatus !== SweepStatus.PARTIAL,
+      message: sweepStatus === SweepStatus.PARTIAL
+        ? 'Wallet rotated; some balances are still on the retired address (retry with POST /api/wallet/:calendarId/sweep-retired)'
+        : 'Wallet rotated',
+      retiredAddress,
+      address,
+      sweepStatus,
+      sweep,
+      dataStreams: recordTxHash ? { txHash: recordTxHash } : { error: recordError },
+    });
+  } catch (error: any) {
+    return res.status(error instanceof KeystoreError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message || 'Failed to rotate wallet',
+    });
+  }
+});
+
+/**
+ * POST /api/wallet/:calendarId/sweep-retired
+ * Sweep balances left on the calendar's retired addresses into its current wallet (admin)
+ */
+router.post('/:calendarId/sweep-retired', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { calendarId } = req.params;
+
+    const sweeps = await walletService.sweepRetiredWallets(calendarId);
+
+    return res.json({
+      success: sweeps.every((sweep) => sweep.transfers.every((transfer) => transfer.success)),
+      sweeps,
+    });
+  } catch (error: any) {
+    return res.status(error instanceof KeystoreError ? error.statusCode : 500).json({
+      success: false,
+      error: error.message || 'Failed to sweep retired wallets',
+    });
+  }
+});
+
 export { router as walletRouter, walletService };
 
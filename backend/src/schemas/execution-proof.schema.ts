@@ -15,7 +15,19 @@
  * - SLA Tracking: Measure execution timing accuracy
  */
 
-export const EXECUTION_PROOF_SCHEMA = `bytes32 proofId, bytes32 intentId, bytes32 txHash, uint64 scheduledTime, uint64 actualExecutionTime, int64 timeDelta, string executionStatus, uint256 expectedAmount, uint256 actualAmount, string verificationHash` as const;
+/**
+ * Schema versions; the schema string is the schema ID, so a changed field list is a new schema
+ * and proofs recorded under an older version are only readable with it.
+ * v1: original fields
+ * v2: adds the time zone of the schedule and both times as local time
+ */
+export const EXECUTION_PROOF_SCHEMA_V1 = `bytes32 proofId, bytes32 intentId, bytes32 txHash, uint64 scheduledTime, uint64 actualExecutionTime, int64 timeDelta, string executionStatus, uint256 expectedAmount, uint256 actualAmount, string verificationHash` as const;
+export const EXECUTION_PROOF_SCHEMA_V2 = `bytes32 proofId, bytes32 intentId, bytes32 txHash, uint64 scheduledTime, uint64 actualExecutionTime, int64 timeDelta, string executionStatus, uint256 expectedAmount, uint256 actualAmount, string verificationHash, string timeZone, string scheduledLocalTime, string actualLocalTime` as const;
+
+/**
+ * Version new proofs are recorded with
+ */
+export const EXECUTION_PROOF_SCHEMA = EXECUTION_PROOF_SCHEMA_V2;
 
 /**
  * Execution proof data interface
@@ -31,6 +43,9 @@ export interface ExecutionProofData {
   expectedAmount: bigint;       // Amount specified in intent
   actualAmount: bigint;         // Amount actually transacted
   verificationHash: string;     // Hash of intent + result for verification
+  timeZone: string;             // IANA zone of the schedule (UTC for v1 proofs)
+  scheduledLocalTime: string;   // scheduledTime as local time with offset
+  actualLocalTime: string;      // actualExecutionTime as local time with offset
 }
 
 /**
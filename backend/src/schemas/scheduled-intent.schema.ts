@@ -13,7 +13,19 @@
  * - MEV Protection: Scheduled timing is publicly committed (no front-running claims)
  */
 
-export const SCHEDULED_INTENT_SCHEMA = `uint64 scheduledTime, bytes32 intentId, address userWallet, string transactionType, string fromToken, string toToken, uint256 amount, string description, uint64 createdAt, string status` as const;
+/**
+ * Schema versions; the schema string is the schema ID, so a changed field list is a new schema
+ * and intents announced under an older version are only readable with it.
+ * v1: original fields
+ * v2: adds the time zone of the schedule and the scheduled time as local time
+ */
+export const SCHEDULED_INTENT_SCHEMA_V1 = `uint64 scheduledTime, bytes32 intentId, address userWallet, string transactionType, string fromToken, string toToken, uint256 amount, string description, uint64 createdAt, string status` as const;
+export const SCHEDULED_INTENT_SCHEMA_V2 = `uint64 scheduledTime, bytes32 intentId, address userWallet, string transactionType, string fromToken, string toToken, uint256 amount, string description, uint64 createdAt, string status, string timeZone, string scheduledLocalTime` as const;
+
+/**
+ * Version new intents are announced with
+ */
+export const SCHEDULED_INTENT_SCHEMA = SCHEDULED_INTENT_SCHEMA_V2;
 
 /**
  * Intent status enum
@@ -41,6 +53,8 @@ export interface ScheduledIntentData {
   description: string;        // Human-readable description
   createdAt: bigint;          // When the intent was created
   status: IntentStatus;       // Current status
+  timeZone: string;           // IANA zone the schedule was set in (UTC for v1 intents)
+  scheduledLocalTime: string; // scheduledTime as local time with offset, e.g. 2026-03-29T09:00:00+02:00
 }
 
 /**
@@ -54,3 +68,16 @@ export function createIntentId(
   return `intent-${userWallet.slice(0, 10)}-${scheduledTime}-${nonce}`;
 }
 
+/**
+ * Deterministic intent ID for a calendar event (recurring instances keep their original start).
+ * The intent hash makes an edited event a new intent, so the old one can be cancelled.
+ */
+export function createEventIntentId(
+  calendarId: string,
+  eventId: string,
+  originalStartTime: string | undefined,
+  intentHash: string
+): string {
+  return `intent-${calendarId}-${eventId}-${originalStartTime ?? ''}-${intentHash}`;
+}
+
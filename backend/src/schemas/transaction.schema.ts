@@ -26,7 +26,8 @@ export enum TransactionStatus {
   PENDING = 'pending',
   EXECUTED = 'executed',
   FAILED = 'failed',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired'
 }
 
 /**
@@ -0,0 +1,45 @@
+/**
+ * Wallet Rotation Schema for Somnia Data Streams
+ *
+ * USE CASE: Audit Trail of Retired Calendar Wallets
+ *
+ * Written when a calendar's key is rotated. Keyed by the retired address, so anyone
+ * holding an old address can look up that it was retired, when, and where its funds went.
+ *
+ * Benefits:
+ * - Security: A key that leaked after rotation no longer controls the calendar's funds
+ * - Transparency: Counterparties can tell a retired address from the live one
+ * - Compliance: Immutable record of every key change and its sweep transactions
+ */
+
+export const WALLET_ROTATION_SCHEMA = `bytes32 rotationId, address retiredAddress, address replacementAddress, string calendarId, uint64 retiredAt, string sweepStatus, string sweepTxHashes, string reason` as const;
+
+/**
+ * Wallet rotation data interface
+ */
+export interface WalletRotationData {
+  rotationId: string;           // rotation-<retired address>
+  retiredAddress: string;       // Address of the old key
+  replacementAddress: string;   // Address the funds were swept to
+  calendarId: string;
+  retiredAt: bigint;            // Unix seconds
+  sweepStatus: SweepStatus;
+  sweepTxHashes: string;        // Comma-separated hashes of the sweep transactions
+  reason: string;
+}
+
+/**
+ * How much of the old wallet made it across
+ */
+export enum SweepStatus {
+  COMPLETE = 'complete',        // Every balance was moved
+  PARTIAL = 'partial',          // Some transfers failed; funds remain on the retired address
+  EMPTY = 'empty'               // Nothing to move
+}
+
+/**
+ * Create rotation ID from the retired address
+ */
+export function createRotationId(retiredAddress: string): string {
+  return `rotation-${retiredAddress.toLowerCase()}`;
+}
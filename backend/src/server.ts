@@ -8,8 +8,11 @@ import { calendarRouter, calendarService } from './routes/calendar.routes';
 import { walletRouter } from './routes/wallet.routes';
 import { streamsRouter } from './routes/streams.routes';
 import { transactionRouter } from './routes/transaction.routes';
-import { agentRouter } from './routes/agent.routes';
+import { agentRouter, calendarAgent } from './routes/agent.routes';
 import { dataStreamsRouter } from './routes/data-streams.routes';
+import { tokenRouter } from './routes/token.routes';
+import { contactRouter } from './routes/contact.routes';
+import { policyRouter } from './routes/policy.routes';
 import { validateEnvironment } from './utils/validateEnv';
 
 // Load environment variables
@@ -116,6 +119,15 @@ app.use('/api/agent', agentRouter);
 // Enhanced Data Streams routes
 app.use('/api/data-streams', dataStreamsRouter);
 
+// Token registry routes
+app.use('/api/tokens', tokenRouter);
+
+// Address book routes
+app.use('/api/contacts', contactRouter);
+
+// Spending policy routes
+app.use('/api/policies', policyRouter);
+
 // Convenience redirect for auth
 app.get('/auth', (req: Request, res: Response) => {
   res.redirect('/api/calendar/auth');
@@ -157,10 +169,18 @@ app.get('/api/status', (req: Request, res: Response) => {
       calendarCallback: '/api/calendar/callback',
       calendarEvents: '/api/calendar/events',
       calendarStatus: '/api/calendar/status',
+      calendarWebhook: '/api/calendar/webhook',
+      calendarTimezone: '/api/calendar/:calendarId/timezone',
       walletInfo: '/api/wallet/:calendarId',
       walletAddress: '/api/wallet/:calendarId/address',
       walletSend: '/api/wallet/:calendarId/send',
       walletFaucet: '/api/wallet/:calendarId/faucet',
+      walletKeystore: '/api/wallet/:calendarId/keystore',
+      walletKeystoreImport: '/api/wallet/:calendarId/keystore/import',
+      walletKeystoreExport: '/api/wallet/:calendarId/keystore/export',
+      walletMigrate: '/api/wallet/:calendarId/migrate',
+      walletRotate: '/api/wallet/:calendarId/rotate',
+      walletSweepRetired: '/api/wallet/:calendarId/sweep-retired',
       networkStatus: '/api/wallet/network/status',
       streamsWrite: '/api/streams/transaction',
       streamsRead: '/api/streams/transaction/:transactionId',
@@ -174,13 +194,19 @@ app.get('/api/status', (req: Request, res: Response) => {
       agentStart: '/api/agent/start',
       agentStop: '/api/agent/stop',
       agentQueue: '/api/agent/queue',
+      agentAttempts: '/api/agent/queue/:eventId/attempts',
+      agentApprove: '/api/agent/queue/:eventId/approve',
+      agentSeriesOccurrences: '/api/agent/series/:seriesId/occurrences',
       agentClearCache: '/api/agent/clear-cache',
       // Enhanced Data Streams (Hackathon Use Cases)
       dataStreamsInfo: '/api/data-streams/info',
       dataStreamsIntent: '/api/data-streams/intent',
       dataStreamsStats: '/api/data-streams/stats/:userWallet',
       dataStreamsProof: '/api/data-streams/proof/:proofId',
-      dataStreamsDemo: '/api/data-streams/demo'
+      dataStreamsDemo: '/api/data-streams/demo',
+      tokens: '/api/tokens',
+      contacts: '/api/contacts/:calendarId',
+      policies: '/api/policies/:calendarId'
     }
   });
 });
@@ -212,15 +238,24 @@ app.listen(PORT, () => {
   logger.info(`📅 Calendar auth: http://localhost:${PORT}/api/calendar/auth`);
 });
 
-// Graceful shutdown
+// Graceful shutdown (stopping the agent tears down calendar push channels)
+async function shutdown(): Promise<void> {
+  if (calendarAgent.getStatus().isRunning) {
+    await calendarAgent.stop().catch((error) => {
+      logger.error('Error stopping calendar agent', { error });
+    });
+  }
+  process.exit(0);
+}
+
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
-  process.exit(0);
+  void shutdown();
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
-  process.exit(0);
+  void shutdown();
 });
 
 export default app;
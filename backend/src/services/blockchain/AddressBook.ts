@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { getAddress, isAddress } from 'viem';
+import type { Contact, ContactStore } from '../storage/ContactStore';
+import { createContactStore } from '../storage/StoreFactory';
+
+/**
+ * "@alice" in an event title or epochi block
+ */
+export const CONTACT_REFERENCE_PATTERN = String.raw`@([a-zA-Z0-9_-]+(?:\.[a-zA-Z0-9_-]+)*)`;
+
+/**
+ * Schema for POST /api/contacts/:calendarId
+ */
+export const contactInputSchema = z.object({
+  name: z
+    .string()
+    .transform((value) => value.trim().replace(/^@/, '').toLowerCase())
+    .refine(
+      (value) => new RegExp(`^${CONTACT_REFERENCE_PATTERN.slice(1)}$`).test(value) && value.length <= 32,
+      'name must be 1-32 letters, digits, "_", "-" or "."'
+    ),
+  address: z.string().refine((value) => isAddress(value), 'address must be a valid EVM address'),
+  label: z.string().max(100).optional(),
+}).strict();
+
+export type ContactInput = z.input<typeof contactInputSchema>;
+
+/**
+ * AddressBook maps @names to recipient addresses, one book per calendar.
+ * Names are matched case-insensitively; lookups are synchronous so EventParser can use them.
+ */
+export class AddressBook {
+  private store: ContactStore | null;
+
+  constructor(store?: ContactStore) {
+    this.store = store ?? null;
+  }
+
+  list(calendarId: string): Contact[] {
+    return this.getStore().list(calendarId);
+  }
+
+  get(calendarId: string, name: string): Contact | null {
+    return this.getStore().get(calendarId, normalizeName(name));
+  }
+
+  /**
+   * Resolve "@alice" or "alice" to a checksummed address
+   */
+  resolve(calendarId: string, name: string): string | null {
+    return this.get(calendarId, name)?.address ?? null;
+  }
+
+  /**
+   * Add or replace a contact
+   */
+  upsert(calendarId: string, input: ContactInput): Contact {
+    const parsed = contactInputSchema.parse(input);
+    const existing = this.getStore().get(calendarId, parsed.name);
+    const now = new Date();
+
+    const contact: Contact = {
+      calendarId,
+      name: parsed.name,
+      address: getAddress(parsed.address),
+      label: parsed.label,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.getStore().upsert(contact);
+
+    return contact;
+  }
+
+  remove(calendarId: string, name: string): boolean {
+    return this.getStore().remove(calendarId, normalizeName(name));
+  }
+
+  /**
+   * The store (and its database) is opened on first use
+   */
+  private getStore(): ContactStore {
+    if (!this.store) {
+      this.store = createContactStore();
+    }
+    return this.store;
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Shared address book used by the parser and routes
+ */
+export const addressBook = new AddressBook();
+
+export default AddressBook;
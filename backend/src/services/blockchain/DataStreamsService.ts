@@ -103,22 +103,7 @@ export class DataStreamsService {
         await this.initialize();
       }
 
-      // Encode the data
-      const encodedData = this.schemaEncoder.encodeData([
-        { name: 'timestamp', value: data.timestamp.toString(), type: 'uint64' },
-        { name: 'transactionId', value: this.stringToBytes32(data.transactionId), type: 'bytes32' },
-        { name: 'userWallet', value: data.userWallet, type: 'address' },
-        { name: 'calendarId', value: data.calendarId, type: 'string' },
-        { name: 'eventId', value: data.eventId, type: 'string' },
-        { name: 'transactionType', value: data.transactionType, type: 'string' },
-        { name: 'fromToken', value: data.fromToken, type: 'string' },
-        { name: 'toToken', value: data.toToken, type: 'string' },
-        { name: 'amount', value: data.amount.toString(), type: 'uint256' },
-        { name: 'amountReceived', value: data.amountReceived.toString(), type: 'uint256' },
-        { name: 'txHash', value: this.stringToBytes32(data.txHash), type: 'bytes32' },
-        { name: 'status', value: data.status, type: 'string' },
-        { name: 'notes', value: data.notes, type: 'string' },
-      ]);
+      const encodedData = this.encodeTransaction(data);
 
       console.log(`📝 Writing transaction to Data Streams: ${data.transactionId}`);
 
@@ -139,6 +124,27 @@ export class DataStreamsService {
     }
   }
 
+  /**
+   * Encode a transaction record for the schema without writing it (dry runs)
+   */
+  encodeTransaction(data: TransactionData): `0x${string}` {
+    return this.schemaEncoder.encodeData([
+      { name: 'timestamp', value: data.timestamp.toString(), type: 'uint64' },
+      { name: 'transactionId', value: this.stringToBytes32(data.transactionId), type: 'bytes32' },
+      { name: 'userWallet', value: data.userWallet, type: 'address' },
+      { name: 'calendarId', value: data.calendarId, type: 'string' },
+      { name: 'eventId', value: data.eventId, type: 'string' },
+      { name: 'transactionType', value: data.transactionType, type: 'string' },
+      { name: 'fromToken', value: data.fromToken, type: 'string' },
+      { name: 'toToken', value: data.toToken, type: 'string' },
+      { name: 'amount', value: data.amount.toString(), type: 'uint256' },
+      { name: 'amountReceived', value: data.amountReceived.toString(), type: 'uint256' },
+      { name: 'txHash', value: this.stringToBytes32(data.txHash), type: 'bytes32' },
+      { name: 'status', value: data.status, type: 'string' },
+      { name: 'notes', value: data.notes, type: 'string' },
+    ]);
+  }
+
   /**
    * Read transaction record from Data Streams
    */
@@ -263,6 +269,7 @@ export class DataStreamsService {
 
   /**
    * Create a transaction record helper
+   * transactionId defaults to calendarId-eventId-timestamp
    */
   createTransactionRecord(
     calendarId: string,
@@ -274,10 +281,12 @@ export class DataStreamsService {
     amountReceived: bigint = BigInt(0),
     txHash: string = '',
     status: TransactionStatus = TransactionStatus.PENDING,
-    notes: string = ''
+    notes: string = '',
+    transactionType: TransactionType = TransactionType.SWAP,
+    transactionId?: string
   ): TransactionData {
     const timestamp = BigInt(Math.floor(Date.now() / 1000));
-    const transactionId = createTransactionId(calendarId, eventId, Number(timestamp));
+    transactionId = transactionId ?? createTransactionId(calendarId, eventId, Number(timestamp));
 
     return {
       timestamp,
@@ -285,7 +294,7 @@ export class DataStreamsService {
       userWallet,
       calendarId,
       eventId,
-      transactionType: TransactionType.SWAP,
+      transactionType,
       fromToken,
       toToken,
       amount,
@@ -0,0 +1,298 @@
+import {
+  encodeFunctionData,
+  parseAbi,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient
+} from 'viem';
+
+/**
+ * Quote returned by a DEX router for an exact-input swap
+ */
+export interface SwapQuote {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  path: Address[];
+}
+
+/**
+ * Parameters needed to build swap calldata
+ */
+export interface SwapParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOutMin: bigint;
+  recipient: Address;
+  deadline: bigint;
+}
+
+/**
+ * Ready-to-send swap call
+ */
+export interface SwapCall {
+  to: Address;
+  data: Hex;
+  value: bigint;
+}
+
+/**
+ * DexRouter is the extension point for swap venues.
+ * Native tokens are represented by the zero address; routers wrap/unwrap internally.
+ */
+export interface DexRouter {
+  readonly name: string;
+  readonly routerAddress: Address;
+
+  /**
+   * Quote an exact-input swap
+   */
+  quote(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<SwapQuote>;
+
+  /**
+   * Build calldata for an exact-input swap
+   */
+  buildSwap(params: SwapParams): Promise<SwapCall>;
+
+  /**
+   * Address of the wrapped native token used by this router
+   */
+  getWrappedNative(): Promise<Address>;
+}
+
+const UNISWAP_V2_ROUTER_ABI = parseAbi([
+  'function WETH() view returns (address)',
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+]);
+
+const UNISWAP_V3_ROUTER_ABI = parseAbi([
+  'function WETH9() view returns (address)',
+  'struct ExactInputSingleParams { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }',
+  'function exactInputSingle(ExactInputSingleParams params) payable returns (uint256 amountOut)',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+  'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)',
+]);
+
+const UNISWAP_V3_QUOTER_ABI = parseAbi([
+  'struct QuoteExactInputSingleParams { address tokenIn; address tokenOut; uint256 amountIn; uint24 fee; uint160 sqrtPriceLimitX96; }',
+  'function quoteExactInputSingle(QuoteExactInputSingleParams params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+]);
+
+/**
+ * SwapRouter02 sentinel: "send output to the router itself" (used before unwrapping)
+ */
+const V3_ADDRESS_THIS: Address = '0x0000000000000000000000000000000000000002';
+
+const isNative = (token: Address): boolean => token.toLowerCase() === zeroAddress;
+
+/**
+ * Uniswap V2-style router (UniswapV2Router02 ABI)
+ */
+export class UniswapV2Router implements DexRouter {
+  readonly name = 'uniswap-v2';
+  private wrappedNative: Address | null = null;
+
+  constructor(
+    private publicClient: PublicClient,
+    readonly routerAddress: Address
+  ) {}
+
+  async getWrappedNative(): Promise<Address> {
+    if (!this.wrappedNative) {
+      this.wrappedNative = await this.publicClient.readContract({
+        address: this.routerAddress,
+        abi: UNISWAP_V2_ROUTER_ABI,
+        functionName: 'WETH',
+      });
+    }
+    return this.wrappedNative;
+  }
+
+  async quote(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<SwapQuote> {
+    const path = await this.buildPath(tokenIn, tokenOut);
+    const amounts = await this.publicClient.readContract({
+      address: this.routerAddress,
+      abi: UNISWAP_V2_ROUTER_ABI,
+      functionName: 'getAmountsOut',
+      args: [amountIn, path],
+    });
+
+    return {
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut: amounts[amounts.length - 1],
+      path,
+    };
+  }
+
+  async buildSwap(params: SwapParams): Promise<SwapCall> {
+    const path = await this.buildPath(params.tokenIn, params.tokenOut);
+
+    if (isNative(params.tokenIn)) {
+      return {
+        to: this.routerAddress,
+        value: params.amountIn,
+        data: encodeFunctionData({
+          abi: UNISWAP_V2_ROUTER_ABI,
+          functionName: 'swapExactETHForTokens',
+          args: [params.amountOutMin, path, params.recipient, params.deadline],
+        }),
+      };
+    }
+
+    const functionName = isNative(params.tokenOut)
+      ? 'swapExactTokensForETH'
+      : 'swapExactTokensForTokens';
+
+    return {
+      to: this.routerAddress,
+      value: BigInt(0),
+      data: encodeFunctionData({
+        abi: UNISWAP_V2_ROUTER_ABI,
+        functionName,
+        args: [params.amountIn, params.amountOutMin, path, params.recipient, params.deadline],
+      }),
+    };
+  }
+
+  private async buildPath(tokenIn: Address, tokenOut: Address): Promise<Address[]> {
+    const wrapped = await this.getWrappedNative();
+    return [
+      isNative(tokenIn) ? wrapped : tokenIn,
+      isNative(tokenOut) ? wrapped : tokenOut,
+    ];
+  }
+}
+
+/**
+ * Uniswap V3-style router (SwapRouter02 + QuoterV2 ABIs), single pool per swap
+ */
+export class UniswapV3Router implements DexRouter {
+  readonly name = 'uniswap-v3';
+  private wrappedNative: Address | null = null;
+
+  constructor(
+    private publicClient: PublicClient,
+    readonly routerAddress: Address,
+    private quoterAddress: Address,
+    private fee: number = 3000
+  ) {}
+
+  async getWrappedNative(): Promise<Address> {
+    if (!this.wrappedNative) {
+      this.wrappedNative = await this.publicClient.readContract({
+        address: this.routerAddress,
+        abi: UNISWAP_V3_ROUTER_ABI,
+        functionName: 'WETH9',
+      });
+    }
+    return this.wrappedNative;
+  }
+
+  async quote(tokenIn: Address, tokenOut: Address, amountIn: bigint): Promise<SwapQuote> {
+    const wrapped = await this.getWrappedNative();
+    const poolIn = isNative(tokenIn) ? wrapped : tokenIn;
+    const poolOut = isNative(tokenOut) ? wrapped : tokenOut;
+
+    // QuoterV2 is not a view function - it has to be simulated
+    const { result } = await this.publicClient.simulateContract({
+      address: this.quoterAddress,
+      abi: UNISWAP_V3_QUOTER_ABI,
+      functionName: 'quoteExactInputSingle',
+      args: [{
+        tokenIn: poolIn,
+        tokenOut: poolOut,
+        amountIn,
+        fee: this.fee,
+        sqrtPriceLimitX96: BigInt(0),
+      }],
+    });
+
+    return {
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut: result[0],
+      path: [poolIn, poolOut],
+    };
+  }
+
+  async buildSwap(params: SwapParams): Promise<SwapCall> {
+    const wrapped = await this.getWrappedNative();
+    const unwrapOutput = isNative(params.tokenOut);
+
+    const swapData = encodeFunctionData({
+      abi: UNISWAP_V3_ROUTER_ABI,
+      functionName: 'exactInputSingle',
+      args: [{
+        tokenIn: isNative(params.tokenIn) ? wrapped : params.tokenIn,
+        tokenOut: unwrapOutput ? wrapped : params.tokenOut,
+        fee: this.fee,
+        recipient: unwrapOutput ? V3_ADDRESS_THIS : params.recipient,
+        amountIn: params.amountIn,
+        amountOutMinimum: params.amountOutMin,
+        sqrtPriceLimitX96: BigInt(0),
+      }],
+    });
+
+    const calls: Hex[] = [swapData];
+    if (unwrapOutput) {
+      calls.push(encodeFunctionData({
+        abi: UNISWAP_V3_ROUTER_ABI,
+        functionName: 'unwrapWETH9',
+        args: [params.amountOutMin, params.recipient],
+      }));
+    }
+
+    return {
+      to: this.routerAddress,
+      value: isNative(params.tokenIn) ? params.amountIn : BigInt(0),
+      data: encodeFunctionData({
+        abi: UNISWAP_V3_ROUTER_ABI,
+        functionName: 'multicall',
+        args: [params.deadline, calls],
+      }),
+    };
+  }
+}
+
+/**
+ * Create the configured DEX router from environment variables
+ *
+ * DEX_ROUTER_TYPE     uniswap-v2 (default) | uniswap-v3
+ * DEX_ROUTER_ADDRESS  router contract address
+ * DEX_QUOTER_ADDRESS  QuoterV2 address (v3 only)
+ * DEX_V3_FEE          pool fee tier in hundredths of a bip (v3 only, default 3000)
+ */
+export function createDexRouter(publicClient: PublicClient): DexRouter | null {
+  const routerAddress = process.env.DEX_ROUTER_ADDRESS as Address | undefined;
+  if (!routerAddress) {
+    return null;
+  }
+
+  const type = process.env.DEX_ROUTER_TYPE || 'uniswap-v2';
+
+  if (type === 'uniswap-v3') {
+    const quoterAddress = process.env.DEX_QUOTER_ADDRESS as Address | undefined;
+    if (!quoterAddress) {
+      throw new Error('DEX_QUOTER_ADDRESS is required for uniswap-v3 routers');
+    }
+    const fee = parseInt(process.env.DEX_V3_FEE || '3000', 10);
+    return new UniswapV3Router(publicClient, routerAddress, quoterAddress, fee);
+  }
+
+  if (type === 'uniswap-v2') {
+    return new UniswapV2Router(publicClient, routerAddress);
+  }
+
+  throw new Error(`Unsupported DEX_ROUTER_TYPE: ${type}`);
+}
+
+export default createDexRouter;
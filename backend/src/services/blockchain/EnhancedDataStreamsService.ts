@@ -1,5 +1,5 @@
 import { SDK, SchemaEncoder } from '@somnia-chain/streams';
-import { createPublicClient, createWalletClient, http } from 'viem';
+import { createPublicClient, createWalletClient, http, type Hex } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { defineChain } from 'viem';
 import crypto from 'crypto';
@@ -14,6 +14,7 @@ import {
 
 import {
   SCHEDULED_INTENT_SCHEMA,
+  SCHEDULED_INTENT_SCHEMA_V1,
   ScheduledIntentData,
   IntentStatus,
   createIntentId,
@@ -28,12 +29,20 @@ import {
 
 import {
   EXECUTION_PROOF_SCHEMA,
+  EXECUTION_PROOF_SCHEMA_V1,
   ExecutionProofData,
   createVerificationHash,
   formatTimeDelta,
   wasOnTime,
 } from '../../schemas/execution-proof.schema';
 
+import {
+  WALLET_ROTATION_SCHEMA,
+  WalletRotationData,
+} from '../../schemas/wallet-rotation.schema';
+
+import { formatLocalTime } from '../calendar/TimeZoneResolver';
+
 /**
  * Somnia Testnet chain configuration
  */
@@ -59,15 +68,40 @@ const somniaTestnet = defineChain({
   testnet: true,
 });
 
+/**
+ * Fields of one Data Streams record, decoded by the SDK
+ */
+type DecodedRecord = ReturnType<SchemaEncoder['decodeData']>;
+
+/**
+ * Values of a decoded record by field name (uints decode as bigint, strings and bytes32 as strings)
+ */
+function recordFields(items: DecodedRecord): { string(name: string): string; bigint(name: string): bigint } {
+  const values = new Map(items.map((item) => [item.name, item.value.value]));
+  return {
+    string: (name) => {
+      const value = values.get(name);
+      return typeof value === 'string' ? value : String(value ?? '');
+    },
+    bigint: (name) => {
+      const value = values.get(name);
+      return typeof value === 'bigint' || typeof value === 'number' || typeof value === 'string'
+        ? BigInt(value)
+        : BigInt(0);
+    },
+  };
+}
+
 /**
  * EnhancedDataStreamsService - Full Data Streams Integration
  * 
- * Showcases 4 key use cases for Somnia Data Streams:
+ * Showcases 5 key use cases for Somnia Data Streams:
  * 
  * 1. TRANSACTION AUDIT TRAIL - Immutable record of all executed transactions
  * 2. SCHEDULED INTENT REGISTRY - Pre-announce transactions before execution
  * 3. USER REPUTATION SYSTEM - On-chain activity metrics and trust scores
  * 4. EXECUTION PROOFS - Cryptographic verification of scheduled execution
+ * 5. WALLET ROTATIONS - Public record of retired calendar wallet addresses
  */
 export class EnhancedDataStreamsService {
   private sdk: any;
@@ -78,13 +112,19 @@ export class EnhancedDataStreamsService {
   private intentEncoder: SchemaEncoder;
   private statsEncoder: SchemaEncoder;
   private proofEncoder: SchemaEncoder;
+  private rotationEncoder: SchemaEncoder;
+  private intentV1Encoder: SchemaEncoder;
+  private proofV1Encoder: SchemaEncoder;
 
-  // Schema IDs (computed on initialization)
+  // Schema IDs (computed on initialization); v1 IDs are only read, for records written before v2
   private schemaIds = {
     transaction: '',
     intent: '',
+    intentV1: '',
     stats: '',
     proof: '',
+    proofV1: '',
+    rotation: '',
   };
 
   constructor(privateKey: string) {
@@ -115,6 +155,9 @@ export class EnhancedDataStreamsService {
     this.intentEncoder = new SchemaEncoder(SCHEDULED_INTENT_SCHEMA);
     this.statsEncoder = new SchemaEncoder(USER_STATS_SCHEMA);
     this.proofEncoder = new SchemaEncoder(EXECUTION_PROOF_SCHEMA);
+    this.rotationEncoder = new SchemaEncoder(WALLET_ROTATION_SCHEMA);
+    this.intentV1Encoder = new SchemaEncoder(SCHEDULED_INTENT_SCHEMA_V1);
+    this.proofV1Encoder = new SchemaEncoder(EXECUTION_PROOF_SCHEMA_V1);
 
     console.log('✅ Enhanced Data Streams Service initialized');
     console.log(`📍 Publisher address: ${this.publisherAddress}`);
@@ -129,14 +172,18 @@ export class EnhancedDataStreamsService {
 
       this.schemaIds.transaction = await this.sdk.streams.computeSchemaId(TRANSACTION_SCHEMA);
       this.schemaIds.intent = await this.sdk.streams.computeSchemaId(SCHEDULED_INTENT_SCHEMA);
+      this.schemaIds.intentV1 = await this.sdk.streams.computeSchemaId(SCHEDULED_INTENT_SCHEMA_V1);
       this.schemaIds.stats = await this.sdk.streams.computeSchemaId(USER_STATS_SCHEMA);
       this.schemaIds.proof = await this.sdk.streams.computeSchemaId(EXECUTION_PROOF_SCHEMA);
+      this.schemaIds.proofV1 = await this.sdk.streams.computeSchemaId(EXECUTION_PROOF_SCHEMA_V1);
+      this.schemaIds.rotation = await this.sdk.streams.computeSchemaId(WALLET_ROTATION_SCHEMA);
 
       console.log('📊 Schema IDs:');
       console.log(`   Transaction: ${this.schemaIds.transaction}`);
-      console.log(`   Intent: ${this.schemaIds.intent}`);
+      console.log(`   Intent: ${this.schemaIds.intent} (v1: ${this.schemaIds.intentV1})`);
       console.log(`   Stats: ${this.schemaIds.stats}`);
-      console.log(`   Proof: ${this.schemaIds.proof}`);
+      console.log(`   Proof: ${this.schemaIds.proof} (v1: ${this.schemaIds.proofV1})`);
+      console.log(`   Rotation: ${this.schemaIds.rotation}`);
     } catch (error) {
       console.error('❌ Error computing schema IDs:', error);
       throw error;
@@ -205,10 +252,12 @@ export class EnhancedDataStreamsService {
       { name: 'description', value: data.description, type: 'string' },
       { name: 'createdAt', value: data.createdAt.toString(), type: 'uint64' },
       { name: 'status', value: data.status, type: 'string' },
+      { name: 'timeZone', value: data.timeZone, type: 'string' },
+      { name: 'scheduledLocalTime', value: data.scheduledLocalTime, type: 'string' },
     ]);
 
     console.log(`📢 [INTENT] Announcing scheduled intent: ${data.intentId}`);
-    console.log(`   ⏰ Scheduled for: ${new Date(Number(data.scheduledTime) * 1000).toISOString()}`);
+    console.log(`   ⏰ Scheduled for: ${new Date(Number(data.scheduledTime) * 1000).toISOString()} (${data.scheduledLocalTime} ${data.timeZone})`);
 
     const txHash = await this.sdk.streams.set([
       {
@@ -244,26 +293,29 @@ export class EnhancedDataStreamsService {
     if (!this.schemaIds.intent) await this.initialize();
 
     try {
-      const data = await this.sdk.streams.getByKey(
-        this.schemaIds.intent,
-        this.publisherAddress,
-        this.stringToBytes32(intentId)
-      );
-
-      if (!data) return null;
-
-      const decoded = this.intentEncoder.decode(data);
+      const items = await this.readRecord(intentId, [
+        { schemaId: this.schemaIds.intent, encoder: this.intentEncoder },
+        { schemaId: this.schemaIds.intentV1, encoder: this.intentV1Encoder },
+      ]);
+      if (!items) return null;
+
+      const fields = recordFields(items);
+      const scheduledTime = fields.bigint('scheduledTime');
+      const timeZone = fields.string('timeZone') || 'UTC';
       return {
-        scheduledTime: BigInt(decoded[0]),
-        intentId: decoded[1],
-        userWallet: decoded[2],
-        transactionType: decoded[3],
-        fromToken: decoded[4],
-        toToken: decoded[5],
-        amount: BigInt(decoded[6]),
-        description: decoded[7],
-        createdAt: BigInt(decoded[8]),
-        status: decoded[9] as IntentStatus,
+        scheduledTime,
+        intentId: fields.string('intentId'),
+        userWallet: fields.string('userWallet'),
+        transactionType: fields.string('transactionType'),
+        fromToken: fields.string('fromToken'),
+        toToken: fields.string('toToken'),
+        amount: fields.bigint('amount'),
+        description: fields.string('description'),
+        createdAt: fields.bigint('createdAt'),
+        status: fields.string('status') as IntentStatus,
+        timeZone,
+        scheduledLocalTime: fields.string('scheduledLocalTime')
+          || formatLocalTime(new Date(Number(scheduledTime) * 1000), timeZone),
       };
     } catch (error) {
       console.error('Error reading intent:', error);
@@ -386,11 +438,12 @@ export class EnhancedDataStreamsService {
     scheduledTime: bigint,
     expectedAmount: bigint,
     actualAmount: bigint,
-    success: boolean
+    success: boolean,
+    actualExecutionTime: bigint = BigInt(Math.floor(Date.now() / 1000)),
+    timeZone: string = 'UTC'
   ): Promise<string> {
     if (!this.schemaIds.proof) await this.initialize();
 
-    const actualExecutionTime = BigInt(Math.floor(Date.now() / 1000));
     const timeDelta = actualExecutionTime - scheduledTime;
     const proofId = `proof-${intentId}-${actualExecutionTime}`;
     const verificationHash = createVerificationHash(intentId, txHash, actualAmount);
@@ -406,6 +459,9 @@ export class EnhancedDataStreamsService {
       expectedAmount,
       actualAmount,
       verificationHash,
+      timeZone,
+      scheduledLocalTime: formatLocalTime(new Date(Number(scheduledTime) * 1000), timeZone),
+      actualLocalTime: formatLocalTime(new Date(Number(actualExecutionTime) * 1000), timeZone),
     };
 
     const encodedData = this.proofEncoder.encodeData([
@@ -419,6 +475,9 @@ export class EnhancedDataStreamsService {
       { name: 'expectedAmount', value: proofData.expectedAmount.toString(), type: 'uint256' },
       { name: 'actualAmount', value: proofData.actualAmount.toString(), type: 'uint256' },
       { name: 'verificationHash', value: proofData.verificationHash, type: 'string' },
+      { name: 'timeZone', value: proofData.timeZone, type: 'string' },
+      { name: 'scheduledLocalTime', value: proofData.scheduledLocalTime, type: 'string' },
+      { name: 'actualLocalTime', value: proofData.actualLocalTime, type: 'string' },
     ]);
 
     console.log(`🔐 [PROOF] Creating execution proof: ${proofId}`);
@@ -449,28 +508,35 @@ export class EnhancedDataStreamsService {
     if (!this.schemaIds.proof) await this.initialize();
 
     try {
-      const data = await this.sdk.streams.getByKey(
-        this.schemaIds.proof,
-        this.publisherAddress,
-        this.stringToBytes32(proofId)
-      );
+      const items = await this.readRecord(proofId, [
+        { schemaId: this.schemaIds.proof, encoder: this.proofEncoder },
+        { schemaId: this.schemaIds.proofV1, encoder: this.proofV1Encoder },
+      ]);
 
-      if (!data) {
+      if (!items) {
         return { valid: false, onTime: false, timeDelta: 'N/A' };
       }
 
-      const decoded = this.proofEncoder.decode(data);
+      const fields = recordFields(items);
+      const scheduledTime = fields.bigint('scheduledTime');
+      const actualExecutionTime = fields.bigint('actualExecutionTime');
+      const timeZone = fields.string('timeZone') || 'UTC';
       const proof: ExecutionProofData = {
-        proofId: decoded[0],
-        intentId: decoded[1],
-        txHash: decoded[2],
-        scheduledTime: BigInt(decoded[3]),
-        actualExecutionTime: BigInt(decoded[4]),
-        timeDelta: BigInt(decoded[5]),
-        executionStatus: decoded[6],
-        expectedAmount: BigInt(decoded[7]),
-        actualAmount: BigInt(decoded[8]),
-        verificationHash: decoded[9],
+        proofId: fields.string('proofId'),
+        intentId: fields.string('intentId'),
+        txHash: fields.string('txHash'),
+        scheduledTime,
+        actualExecutionTime,
+        timeDelta: fields.bigint('timeDelta'),
+        executionStatus: fields.string('executionStatus'),
+        expectedAmount: fields.bigint('expectedAmount'),
+        actualAmount: fields.bigint('actualAmount'),
+        verificationHash: fields.string('verificationHash'),
+        timeZone,
+        scheduledLocalTime: fields.string('scheduledLocalTime')
+          || formatLocalTime(new Date(Number(scheduledTime) * 1000), timeZone),
+        actualLocalTime: fields.string('actualLocalTime')
+          || formatLocalTime(new Date(Number(actualExecutionTime) * 1000), timeZone),
       };
 
       // Verify the hash
@@ -493,10 +559,67 @@ export class EnhancedDataStreamsService {
     }
   }
 
+  // ========================================
+  // USE CASE 5: WALLET ROTATIONS
+  // ========================================
+
+  /**
+   * Record that a calendar wallet address was retired, keyed by that address
+   */
+  async recordWalletRotation(data: WalletRotationData): Promise<string> {
+    if (!this.schemaIds.rotation) await this.initialize();
+
+    const encodedData = this.rotationEncoder.encodeData([
+      { name: 'rotationId', value: this.stringToBytes32(data.rotationId), type: 'bytes32' },
+      { name: 'retiredAddress', value: data.retiredAddress, type: 'address' },
+      { name: 'replacementAddress', value: data.replacementAddress, type: 'address' },
+      { name: 'calendarId', value: data.calendarId, type: 'string' },
+      { name: 'retiredAt', value: data.retiredAt.toString(), type: 'uint64' },
+      { name: 'sweepStatus', value: data.sweepStatus, type: 'string' },
+      { name: 'sweepTxHashes', value: data.sweepTxHashes, type: 'string' },
+      { name: 'reason', value: data.reason, type: 'string' },
+    ]);
+
+    console.log(`🔄 [ROTATION] Recording retired wallet: ${data.retiredAddress}`);
+
+    const txHash = await this.sdk.streams.set([
+      {
+        id: this.stringToBytes32(data.rotationId),
+        schemaId: this.schemaIds.rotation,
+        data: encodedData,
+      },
+    ]);
+
+    console.log(`✅ [ROTATION] Wallet rotation recorded: ${txHash}`);
+    return txHash;
+  }
+
   // ========================================
   // HELPER METHODS
   // ========================================
 
+  /**
+   * Record stored under a key, from the first schema version that has one (newest first)
+   * The SDK returns raw hex or already-decoded items depending on the schema.
+   */
+  private async readRecord(
+    key: string,
+    versions: { schemaId: string; encoder: SchemaEncoder }[]
+  ): Promise<DecodedRecord | null> {
+    for (const { schemaId, encoder } of versions) {
+      const records: (Hex | DecodedRecord)[] | null = await this.sdk.streams.getByKey(
+        schemaId,
+        this.publisherAddress,
+        this.stringToBytes32(key)
+      );
+      if (!records || records.length === 0) continue;
+
+      const record = records[0];
+      return typeof record === 'string' ? encoder.decodeData(record) : record;
+    }
+    return null;
+  }
+
   private stringToBytes32(input: string): `0x${string}` {
     if (!input) {
       return `0x${'0'.repeat(64)}`;
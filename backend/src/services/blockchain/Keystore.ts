@@ -0,0 +1,352 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { getAddress, isHex, keccak256, type Address, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import type { RetiredWalletKey, WalletKeyRecord, WalletKeyStore } from '../storage/WalletKeyStore';
+import { createWalletKeyStore } from '../storage/StoreFactory';
+
+/**
+ * Web3 Secret Storage v3 keystore (the JSON format geth, MetaMask and ethers read)
+ *
+ * Exports use the standard aes-128-ctr cipher. Keys stored at rest use aes-256-gcm with the
+ * GCM tag in cipherparams.tag; the MAC is computed the same way for both.
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;            // Lowercase hex without 0x
+  crypto: {
+    cipher: 'aes-128-ctr' | 'aes-256-gcm';
+    ciphertext: string;
+    cipherparams: { iv: string; tag?: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+interface ScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+interface Pbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: 'hmac-sha256';
+  salt: string;
+}
+
+/**
+ * Refused keystore operation; statusCode is the HTTP status the route answers with
+ */
+export class KeystoreError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'KeystoreError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * scrypt cost (N) for newly encrypted keys; 2^17 takes ~0.5s and 128 MB per decryption
+ */
+const SCRYPT_N = parseInt(process.env.KEYSTORE_SCRYPT_N || '131072', 10);
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+/**
+ * Encrypt a private key as a v3 keystore
+ */
+export async function encryptKeystore(
+  privateKey: Hex,
+  password: string,
+  cipher: KeystoreV3['crypto']['cipher'] = 'aes-128-ctr'
+): Promise<KeystoreV3> {
+  const salt = crypto.randomBytes(32);
+  const kdfparams: ScryptParams = { dklen: 32, n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') };
+  const derivedKey = await deriveKey(password, 'scrypt', kdfparams);
+  const plaintext = Buffer.from(privateKey.slice(2), 'hex');
+
+  let ciphertext: Buffer;
+  const cipherparams: KeystoreV3['crypto']['cipherparams'] = { iv: '' };
+  if (cipher === 'aes-256-gcm') {
+    const iv = crypto.randomBytes(12);
+    const gcm = crypto.createCipheriv('aes-256-gcm', derivedKey, iv);
+    ciphertext = Buffer.concat([gcm.update(plaintext), gcm.final()]);
+    cipherparams.iv = iv.toString('hex');
+    cipherparams.tag = gcm.getAuthTag().toString('hex');
+  } else {
+    const iv = crypto.randomBytes(16);
+    const ctr = crypto.createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+    ciphertext = Buffer.concat([ctr.update(plaintext), ctr.final()]);
+    cipherparams.iv = iv.toString('hex');
+  }
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher,
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams,
+      kdf: 'scrypt',
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+/**
+ * Decrypt a v3 keystore (scrypt or pbkdf2, aes-128-ctr or aes-256-gcm)
+ */
+export async function decryptKeystore(keystore: KeystoreV3 | string, password: string): Promise<Hex> {
+  let parsed: KeystoreV3;
+  try {
+    parsed = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+  } catch {
+    throw new KeystoreError('Keystore is not valid JSON', 400);
+  }
+
+  const params = parsed?.crypto;
+  if (parsed?.version !== 3 || !params?.ciphertext || !params.cipherparams?.iv) {
+    throw new KeystoreError('Not a version 3 keystore', 400);
+  }
+  if (params.kdf !== 'scrypt' && params.kdf !== 'pbkdf2') {
+    throw new KeystoreError(`Unsupported keystore kdf: ${params.kdf}`, 400);
+  }
+  if (params.cipher !== 'aes-128-ctr' && params.cipher !== 'aes-256-gcm') {
+    throw new KeystoreError(`Unsupported keystore cipher: ${params.cipher}`, 400);
+  }
+
+  const derivedKey = await deriveKey(password, params.kdf, params.kdfparams);
+  const ciphertext = Buffer.from(params.ciphertext, 'hex');
+  const mac = Buffer.from(computeMac(derivedKey, ciphertext), 'hex');
+  const expectedMac = Buffer.from(params.mac ?? '', 'hex');
+  if (mac.length !== expectedMac.length || !crypto.timingSafeEqual(mac, expectedMac)) {
+    throw new KeystoreError('Wrong password or corrupt keystore', 400);
+  }
+
+  let plaintext: Buffer;
+  try {
+    const iv = Buffer.from(params.cipherparams.iv, 'hex');
+    if (params.cipher === 'aes-256-gcm') {
+      const gcm = crypto.createDecipheriv('aes-256-gcm', derivedKey, iv);
+      gcm.setAuthTag(Buffer.from(params.cipherparams.tag ?? '', 'hex'));
+      plaintext = Buffer.concat([gcm.update(ciphertext), gcm.final()]);
+    } else {
+      const ctr = crypto.createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+      plaintext = Buffer.concat([ctr.update(ciphertext), ctr.final()]);
+    }
+  } catch {
+    throw new KeystoreError('Wrong password or corrupt keystore', 400);
+  }
+
+  const privateKey = `0x${plaintext.toString('hex')}` as Hex;
+  const address = privateKeyToAccount(privateKey).address;
+  if (parsed.address && parsed.address.toLowerCase().replace(/^0x/, '') !== address.slice(2).toLowerCase()) {
+    throw new KeystoreError('Keystore address does not match its key', 400);
+  }
+  return privateKey;
+}
+
+/**
+ * Key the wallet service derived for a calendar before keys were stored
+ * (HMAC-SHA256 of the calendar ID; recomputable by anyone who knows ENCRYPTION_KEY or its public default).
+ * Only used to sweep funds out of those wallets.
+ */
+export function deriveLegacyPrivateKey(calendarId: string): Hex {
+  const secret = process.env.ENCRYPTION_KEY || 'epochi-secret-key-change-in-production';
+  return `0x${crypto.createHmac('sha256', secret).update(calendarId).digest('hex')}`;
+}
+
+/**
+ * Address of a calendar's legacy derived wallet
+ */
+export function legacyAddressOf(calendarId: string): Address {
+  return privateKeyToAccount(deriveLegacyPrivateKey(calendarId)).address;
+}
+
+/**
+ * Runs on the libuv thread pool, so unlocking a key doesn't block the event loop
+ */
+async function deriveKey(password: string, kdf: 'scrypt' | 'pbkdf2', params: ScryptParams | Pbkdf2Params): Promise<Buffer> {
+  const salt = Buffer.from(params.salt, 'hex');
+
+  if (kdf === 'pbkdf2') {
+    const { c, dklen, prf } = params as Pbkdf2Params;
+    if (prf !== 'hmac-sha256') {
+      throw new KeystoreError(`Unsupported keystore prf: ${prf}`, 400);
+    }
+    return await pbkdf2(password, salt, c, dklen, 'sha256');
+  }
+
+  const { n, r, p, dklen } = params as ScryptParams;
+  return await scrypt(password, salt, dklen, { N: n, r, p, maxmem: 256 * n * r });
+}
+
+/**
+ * keccak256(derivedKey[16..32] ++ ciphertext), as the v3 format specifies
+ */
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+/**
+ * Keystore keeps one random private key per calendar, encrypted at rest with KEYSTORE_PASSWORD.
+ * Keys are created on a calendar's first transaction and can be imported or exported as v3 keystores.
+ */
+export class Keystore {
+  private store: WalletKeyStore | null;
+
+  constructor(store?: WalletKeyStore) {
+    this.store = store ?? null;
+  }
+
+  /**
+   * Stored key of a calendar (still encrypted), null if it has none
+   */
+  getRecord(calendarId: string): WalletKeyRecord | null {
+    return this.getStore().get(calendarId);
+  }
+
+  /**
+   * Decrypted key of a calendar wallet; a random one is generated and stored if it has none
+   */
+  async getOrCreatePrivateKey(calendarId: string): Promise<{ privateKey: Hex; created: boolean }> {
+    const record = this.getRecord(calendarId);
+    if (record) {
+      return { privateKey: await decryptKeystore(record.keystore, this.password()), created: false };
+    }
+
+    const privateKey = generatePrivateKey();
+    await this.save(calendarId, privateKey, 'generated');
+    return { privateKey, created: true };
+  }
+
+  /**
+   * Store a raw private key for a calendar
+   * An existing key is only replaced with replace=true; it is retired, not deleted, so the funds
+   * on its address can still be swept.
+   */
+  async importPrivateKey(calendarId: string, privateKey: string, replace = false): Promise<WalletKeyRecord> {
+    const normalized = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+    if (!isHex(normalized) || normalized.length !== 66) {
+      throw new KeystoreError('privateKey must be 32 bytes of hex', 400);
+    }
+    if (this.getRecord(calendarId) && !replace) {
+      throw new KeystoreError(`Calendar ${calendarId} already has a wallet key; pass "replace": true to overwrite it`, 409);
+    }
+
+    const record = await this.encrypt(calendarId, normalized as Hex, 'imported');
+    this.getStore().replace(record);
+    return record;
+  }
+
+  /**
+   * Replace a calendar's key with a new random one, retiring the old key in the same write
+   * Returns the old key so the caller can sweep its address.
+   */
+  async rotate(calendarId: string): Promise<{ record: WalletKeyRecord; retired: RetiredWalletKey; retiredPrivateKey: Hex }> {
+    const current = this.getRecord(calendarId);
+    if (!current) {
+      throw new KeystoreError(`Calendar ${calendarId} has no wallet key`, 404);
+    }
+    const retiredPrivateKey = await decryptKeystore(current.keystore, this.password());
+
+    const record = await this.encrypt(calendarId, generatePrivateKey(), 'rotated');
+    const retired = this.getStore().replace(record)!;
+    return { record, retired, retiredPrivateKey };
+  }
+
+  /**
+   * Decrypted keys this calendar used before, oldest first
+   */
+  async getRetiredKeys(calendarId: string): Promise<{ address: string; privateKey: Hex; retiredAt: Date }[]> {
+    const keys: { address: string; privateKey: Hex; retiredAt: Date }[] = [];
+    for (const key of this.getStore().getRetired(calendarId)) {
+      keys.push({
+        address: key.address,
+        privateKey: await decryptKeystore(key.keystore, this.password()),
+        retiredAt: key.retiredAt,
+      });
+    }
+    return keys;
+  }
+
+  /**
+   * Store the key of a v3 keystore (e.g. exported from another wallet) for a calendar
+   */
+  async importKeystore(
+    calendarId: string,
+    keystore: KeystoreV3 | string,
+    password: string,
+    replace = false
+  ): Promise<WalletKeyRecord> {
+    return await this.importPrivateKey(calendarId, await decryptKeystore(keystore, password), replace);
+  }
+
+  /**
+   * A calendar's key as a standard v3 keystore encrypted with the given password
+   */
+  async exportKeystore(calendarId: string, password: string): Promise<KeystoreV3> {
+    const record = this.getRecord(calendarId);
+    if (!record) {
+      throw new KeystoreError(`Calendar ${calendarId} has no wallet key`, 404);
+    }
+    if (password.length < 8) {
+      throw new KeystoreError('Export password must be at least 8 characters', 400);
+    }
+    return await encryptKeystore(await decryptKeystore(record.keystore, this.password()), password);
+  }
+
+  private async save(calendarId: string, privateKey: Hex, source: WalletKeyRecord['source']): Promise<WalletKeyRecord> {
+    const record = await this.encrypt(calendarId, privateKey, source);
+    this.getStore().save(record);
+    return record;
+  }
+
+  private async encrypt(calendarId: string, privateKey: Hex, source: WalletKeyRecord['source']): Promise<WalletKeyRecord> {
+    return {
+      calendarId,
+      address: getAddress(privateKeyToAccount(privateKey).address),
+      keystore: JSON.stringify(await encryptKeystore(privateKey, this.password(), 'aes-256-gcm')),
+      source,
+      createdAt: new Date(),
+    };
+  }
+
+  private password(): string {
+    const password = process.env.KEYSTORE_PASSWORD;
+    if (!password) {
+      throw new KeystoreError('KEYSTORE_PASSWORD must be set to store wallet keys', 500);
+    }
+    return password;
+  }
+
+  /**
+   * The store (and its database) is opened on first use
+   */
+  private getStore(): WalletKeyStore {
+    if (!this.store) {
+      this.store = createWalletKeyStore();
+    }
+    return this.store;
+  }
+}
+
+export default Keystore;
@@ -0,0 +1,116 @@
+import type { Address, Hash, PublicClient } from 'viem';
+
+/**
+ * Nonces one address has handed out that the chain may not count yet
+ */
+interface AddressNonces {
+  next: number | null;                // Next fresh nonce; null until (re)synced
+  reserved: Set<number>;              // Handed out, not broadcast yet
+  broadcast: Map<number, Hash>;       // Sent, waiting to be mined
+  lock: Promise<unknown>;             // Serializes reservations
+}
+
+/**
+ * NonceManager hands out nonces per address so several transactions can be signed and sent at
+ * once without colliding. Each reservation is checked against the node's pending count:
+ * - the chain ahead of us (another sender used the key) moves the local counter forward
+ * - a nonce below the counter that is neither reserved nor in flight (released after a failed
+ *   send, or dropped from the mempool) is a gap, and is handed out first so later transactions
+ *   are not stuck behind it
+ */
+export class NonceManager {
+  private publicClient: PublicClient;
+  private addresses: Map<string, AddressNonces> = new Map();
+
+  constructor(publicClient: PublicClient) {
+    this.publicClient = publicClient;
+  }
+
+  /**
+   * Reserve the nonce for the next transaction from an address
+   * Must be followed by markBroadcast (sent) or release (not sent).
+   */
+  async reserve(address: Address): Promise<number> {
+    const state = this.getState(address);
+
+    const reservation = state.lock.then(async () => {
+      const chainNext = await this.publicClient.getTransactionCount({ address, blockTag: 'pending' });
+
+      // Mined (or replaced) below the chain's count: nothing left to track
+      for (const nonce of state.broadcast.keys()) {
+        if (nonce < chainNext) state.broadcast.delete(nonce);
+      }
+
+      const tracked = [...state.reserved, ...state.broadcast.keys()];
+      const floor = Math.max(chainNext, tracked.length > 0 ? Math.max(...tracked) + 1 : 0);
+      if (state.next === null || state.next < floor) {
+        if (state.next !== null && chainNext > state.next) {
+          console.log(`🔁 Nonce of ${address} moved outside this process (${state.next} → ${chainNext}), resynced`);
+        }
+        state.next = floor;
+      }
+
+      for (let nonce = chainNext; nonce < state.next; nonce++) {
+        if (!state.reserved.has(nonce) && !state.broadcast.has(nonce)) {
+          console.log(`🕳️ Nonce gap at ${nonce} for ${address}, filling it`);
+          state.reserved.add(nonce);
+          return nonce;
+        }
+      }
+
+      const nonce = state.next++;
+      state.reserved.add(nonce);
+      return nonce;
+    });
+
+    state.lock = reservation.catch(() => undefined);
+    return await reservation;
+  }
+
+  /**
+   * A reserved nonce was sent
+   */
+  markBroadcast(address: Address, nonce: number, hash: Hash): void {
+    const state = this.getState(address);
+    state.reserved.delete(nonce);
+    state.broadcast.set(nonce, hash);
+  }
+
+  /**
+   * A reserved nonce was not sent (signing or broadcast failed); it will be reused
+   */
+  release(address: Address, nonce: number): void {
+    const state = this.getState(address);
+    state.reserved.delete(nonce);
+    if (state.next !== null && nonce === state.next - 1) {
+      state.next--;
+    }
+  }
+
+  /**
+   * A sent transaction was mined, or dropped from the mempool (its nonce becomes a gap)
+   */
+  settle(address: Address, nonce: number): void {
+    this.getState(address).broadcast.delete(nonce);
+  }
+
+  /**
+   * Forget the local counter; the next reservation starts again from the node's pending count
+   * (nonces still reserved or in flight are kept, so they are not handed out twice)
+   */
+  resync(address: Address): void {
+    this.getState(address).next = null;
+  }
+
+  private getState(address: Address): AddressNonces {
+    const key = address.toLowerCase();
+    let state = this.addresses.get(key);
+    if (!state) {
+      state = { next: null, reserved: new Set(), broadcast: new Map(), lock: Promise.resolve() };
+      this.addresses.set(key, state);
+    }
+    return state;
+  }
+}
+
+export default NonceManager;
@@ -0,0 +1,308 @@
+import { z } from 'zod';
+import { formatUnits, isAddress, parseUnits } from 'viem';
+import type { PolicyStore, SpendingPolicy, SpendRecord } from '../storage/PolicyStore';
+import { createPolicyStore } from '../storage/StoreFactory';
+import { addressBook, CONTACT_REFERENCE_PATTERN } from './AddressBook';
+import { tokenRegistry, type TokenInfo } from './TokenRegistry';
+import { formatLocalTime, isValidTimeZone, timeZoneResolver } from '../calendar/TimeZoneResolver';
+
+/**
+ * Rule a transaction was refused under (recorded in the Data Streams notes)
+ */
+export type PolicyRule =
+  | 'quiet-hours'
+  | 'denylist'
+  | 'allowlist'
+  | 'max-executions-per-day'
+  | 'max-per-transaction'
+  | 'daily-limit'
+  | 'weekly-limit';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+/**
+ * A transaction about to be sent
+ */
+export interface PolicyCheck {
+  calendarId: string;
+  token: TokenInfo;
+  amount: bigint;             // Smallest units
+  recipients: string[];       // Addresses funds go to (none for swaps into the wallet itself)
+  eventId?: string;           // Its own hold is not counted against it
+  at?: Date;
+}
+
+/**
+ * Amounts spent per token over the rolling windows, in token units
+ */
+export interface PolicyUsage {
+  executionsLastDay: number;
+  lastDay: Record<string, string>;
+  lastWeek: Record<string, string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const tokenAmountsSchema = z
+  .record(z.string(), z.string().regex(/^\d+(\.\d+)?$/, 'amounts must be decimal numbers in token units'))
+  .refine(
+    (amounts) => Object.keys(amounts).every((symbol) => tokenRegistry.resolve(symbol)),
+    'limits must be keyed by token symbols from the token registry'
+  )
+  .transform((amounts) =>
+    Object.fromEntries(
+      Object.entries(amounts).map(([symbol, amount]) => [tokenRegistry.resolve(symbol)!.symbol.toUpperCase(), amount])
+    )
+  );
+
+const recipientSchema = z
+  .string()
+  .refine(
+    (value) => isAddress(value) || new RegExp(`^${CONTACT_REFERENCE_PATTERN}$`).test(value),
+    'recipients must be EVM addresses or @contacts'
+  );
+
+/**
+ * Schema for PUT /api/policies/:calendarId
+ */
+export const policyInputSchema = z.object({
+  maxPerTransaction: tokenAmountsSchema.optional(),
+  dailyLimit: tokenAmountsSchema.optional(),
+  weeklyLimit: tokenAmountsSchema.optional(),
+  allowlist: z.array(recipientSchema).optional(),
+  denylist: z.array(recipientSchema).optional(),
+  quietHours: z.object({
+    start: z.string().regex(TIME_OF_DAY, 'start must be HH:MM'),
+    end: z.string().regex(TIME_OF_DAY, 'end must be HH:MM'),
+    timeZone: z.string().refine(isValidTimeZone, 'timeZone must be an IANA zone').optional(),
+  }).strict().optional(),
+  maxExecutionsPerDay: z.number().int().positive().optional(),
+}).strict();
+
+export type PolicyInput = z.input<typeof policyInputSchema>;
+
+/**
+ * PolicyEngine checks each transaction against its calendar's spending policy before anything is
+ * broadcast, and keeps the spend history that rolling limits are measured against.
+ * Calendars without a policy are unrestricted.
+ */
+export class PolicyEngine {
+  private store: PolicyStore | null;
+  private holds: Map<string, SpendRecord> = new Map();   // calendarId:eventId → amount being sent
+
+  constructor(store?: PolicyStore) {
+    this.store = store ?? null;
+  }
+
+  getPolicy(calendarId: string): SpendingPolicy | null {
+    return this.getStore().getPolicy(calendarId);
+  }
+
+  /**
+   * Replace a calendar's policy
+   */
+  setPolicy(calendarId: string, input: PolicyInput): SpendingPolicy {
+    const policy: SpendingPolicy = {
+      ...policyInputSchema.parse(input),
+      calendarId,
+      updatedAt: new Date(),
+    };
+    this.getStore().savePolicy(policy);
+    return policy;
+  }
+
+  removePolicy(calendarId: string): boolean {
+    return this.getStore().removePolicy(calendarId);
+  }
+
+  /**
+   * First rule the transaction breaks, or null if the policy allows it
+   */
+  evaluate(check: PolicyCheck): PolicyViolation | null {
+    const policy = this.getPolicy(check.calendarId);
+    if (!policy) return null;
+
+    const at = check.at ?? new Date();
+    const symbol = check.token.symbol.toUpperCase();
+    const format = (amount: bigint) => `${formatUnits(amount, check.token.decimals)} ${check.token.symbol}`;
+
+    if (policy.quietHours) {
+      const { start, end } = policy.quietHours;
+      const timeZone = policy.quietHours.timeZone ?? timeZoneResolver.forCalendar(check.calendarId).timeZone;
+      const now = formatLocalTime(at, timeZone).slice(11, 16);
+      const quiet = start <= end ? now >= start && now < end : now >= start || now < end;
+      if (quiet) {
+        return { rule: 'quiet-hours', message: `Quiet hours ${start}-${end} (${timeZone}), now ${now}` };
+      }
+    }
+
+    const recipients = check.recipients.map((recipient) => recipient.toLowerCase());
+    if (policy.denylist) {
+      const denied = this.resolveList(check.calendarId, policy.denylist);
+      const blocked = recipients.find((recipient) => denied.has(recipient));
+      if (blocked) {
+        return { rule: 'denylist', message: `Recipient ${blocked} is on the denylist` };
+      }
+    }
+    if (policy.allowlist) {
+      const allowed = this.resolveList(check.calendarId, policy.allowlist);
+      const unknown = recipients.find((recipient) => !allowed.has(recipient));
+      if (unknown) {
+        return { rule: 'allowlist', message: `Recipient ${unknown} is not on the allowlist` };
+      }
+    }
+
+    const lastWeek = [
+      ...this.getStore().getSpends(check.calendarId, new Date(at.getTime() - 7 * DAY_MS)),
+      ...this.getHolds(check.calendarId).filter((hold) => hold.eventId !== check.eventId),
+    ];
+    const lastDay = lastWeek.filter((spend) => spend.executedAt.getTime() >= at.getTime() - DAY_MS);
+
+    if (policy.maxExecutionsPerDay !== undefined) {
+      const executions = new Set(lastDay.map((spend) => spend.eventId)).size;
+      if (executions >= policy.maxExecutionsPerDay) {
+        return {
+          rule: 'max-executions-per-day',
+          message: `${executions} executions in the last 24h (max ${policy.maxExecutionsPerDay})`,
+        };
+      }
+    }
+
+    const cap = policy.maxPerTransaction?.[symbol];
+    if (cap !== undefined && check.amount > parseUnits(cap, check.token.decimals)) {
+      return {
+        rule: 'max-per-transaction',
+        message: `${format(check.amount)} exceeds the per-transaction cap of ${cap} ${check.token.symbol}`,
+      };
+    }
+
+    const limits: [PolicyRule, string | undefined, SpendRecord[], string][] = [
+      ['daily-limit', policy.dailyLimit?.[symbol], lastDay, '24h'],
+      ['weekly-limit', policy.weeklyLimit?.[symbol], lastWeek, '7 days'],
+    ];
+    for (const [rule, limit, spends, window] of limits) {
+      if (limit === undefined) continue;
+      const spent = sumSpent(spends, symbol);
+      if (spent + check.amount > parseUnits(limit, check.token.decimals)) {
+        return {
+          rule,
+          message: `${format(check.amount)} on top of ${format(spent)} spent in the last ${window} exceeds the limit of ${limit} ${check.token.symbol}`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Count funds that left the wallet against the rolling limits
+   */
+  recordSpend(calendarId: string, eventId: string, token: TokenInfo, rawAmount: bigint): void {
+    this.getStore().recordSpend({
+      calendarId,
+      eventId,
+      token: token.symbol,
+      rawAmount,
+      executedAt: new Date(),
+    });
+  }
+
+  /**
+   * Count a transaction that passed the policy and is being sent as spent until it finishes,
+   * so transactions running at the same time can't exceed the limits together
+   */
+  hold(calendarId: string, eventId: string, token: TokenInfo, rawAmount: bigint): void {
+    this.holds.set(`${calendarId}:${eventId}`, {
+      calendarId,
+      eventId,
+      token: token.symbol,
+      rawAmount,
+      executedAt: new Date(),
+    });
+  }
+
+  /**
+   * Drop a hold once the transaction's spend is recorded (or nothing was sent)
+   */
+  releaseHold(calendarId: string, eventId: string): void {
+    this.holds.delete(`${calendarId}:${eventId}`);
+  }
+
+  /**
+   * Spending over the rolling windows, per token
+   */
+  getUsage(calendarId: string): PolicyUsage {
+    const now = Date.now();
+    const lastWeek = this.getStore().getSpends(calendarId, new Date(now - 7 * DAY_MS));
+    const lastDay = lastWeek.filter((spend) => spend.executedAt.getTime() >= now - DAY_MS);
+
+    return {
+      executionsLastDay: new Set(lastDay.map((spend) => spend.eventId)).size,
+      lastDay: totalsBySymbol(lastDay),
+      lastWeek: totalsBySymbol(lastWeek),
+    };
+  }
+
+  /**
+   * Lowercase addresses of a recipient list; @contacts are looked up in the calendar's address book
+   */
+  private resolveList(calendarId: string, entries: string[]): Set<string> {
+    const addresses = entries
+      .map((entry) => (entry.startsWith('@') ? addressBook.resolve(calendarId, entry) : entry))
+      .filter((address): address is string => !!address)
+      .map((address) => address.toLowerCase());
+    return new Set(addresses);
+  }
+
+  private getHolds(calendarId: string): SpendRecord[] {
+    return Array.from(this.holds.values()).filter((hold) => hold.calendarId === calendarId);
+  }
+
+  /**
+   * The store (and its database) is opened on first use
+   */
+  private getStore(): PolicyStore {
+    if (!this.store) {
+      this.store = createPolicyStore();
+    }
+    return this.store;
+  }
+}
+
+function sumSpent(spends: SpendRecord[], symbol: string): bigint {
+  return spends
+    .filter((spend) => spend.token.toUpperCase() === symbol)
+    .reduce((sum, spend) => sum + spend.rawAmount, BigInt(0));
+}
+
+function totalsBySymbol(spends: SpendRecord[]): Record<string, string> {
+  const symbols = new Set(spends.map((spend) => spend.token.toUpperCase()));
+  return Object.fromEntries(
+    Array.from(symbols).map((symbol) => [
+      symbol,
+      formatUnits(sumSpent(spends, symbol), tokenRegistry.resolve(symbol)?.decimals ?? 18),
+    ])
+  );
+}
+
+/**
+ * Calendar description lines describing a policy violation
+ */
+export function formatPolicyViolation(violation: PolicyViolation): string {
+  return [
+    `🛡️ Rule: ${violation.rule}`,
+    `📏 ${violation.message}`,
+  ].join('\n');
+}
+
+/**
+ * Shared policy engine used by the executor and routes
+ */
+export const policyEngine = new PolicyEngine();
+
+export default PolicyEngine;
@@ -0,0 +1,82 @@
+import { formatUnits, parseUnits } from 'viem';
+import type { DexRouter } from './DexRouter';
+import { tokenRegistry, type TokenInfo } from './TokenRegistry';
+
+/**
+ * Quotes older than this are refreshed
+ */
+const PRICE_CACHE_MS = 30 * 1000;
+
+/**
+ * PriceService returns USD prices for registry tokens.
+ *
+ * TOKEN_PRICES_USD    static overrides, e.g. "STT=0.42,USDC=1"
+ * PRICE_QUOTE_TOKEN   USD stablecoin quoted through the DEX router (default USDC)
+ */
+export class PriceService {
+  private dexRouter: DexRouter | null;
+  private overrides: Map<string, number>;
+  private quoteSymbol: string;
+  private cache: Map<string, { price: number; fetchedAt: number }> = new Map();
+
+  constructor(dexRouter: DexRouter | null) {
+    this.dexRouter = dexRouter;
+    this.overrides = parseOverrides(process.env.TOKEN_PRICES_USD || '');
+    this.quoteSymbol = (process.env.PRICE_QUOTE_TOKEN || 'USDC').toUpperCase();
+  }
+
+  /**
+   * USD price of one whole token
+   */
+  async getUsdPrice(token: TokenInfo): Promise<number> {
+    const override = this.overrides.get(token.symbol);
+    if (override !== undefined) {
+      return override;
+    }
+
+    const quoteToken = tokenRegistry.resolve(this.quoteSymbol, token.chainId);
+    if (!quoteToken) {
+      throw new Error(`No USD price for ${token.symbol}: set TOKEN_PRICES_USD or register ${this.quoteSymbol}`);
+    }
+    if (quoteToken.symbol === token.symbol) {
+      return 1;
+    }
+    if (!this.dexRouter) {
+      throw new Error(`No USD price for ${token.symbol}: set TOKEN_PRICES_USD or DEX_ROUTER_ADDRESS`);
+    }
+
+    const cached = this.cache.get(token.symbol);
+    if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_MS) {
+      return cached.price;
+    }
+
+    const quote = await this.dexRouter.quote(
+      token.address,
+      quoteToken.address,
+      parseUnits('1', token.decimals)
+    );
+    const price = parseFloat(formatUnits(quote.amountOut, quoteToken.decimals));
+    if (!(price > 0)) {
+      throw new Error(`DEX returned no price for ${token.symbol}`);
+    }
+
+    this.cache.set(token.symbol, { price, fetchedAt: Date.now() });
+    return price;
+  }
+}
+
+/**
+ * Parse "STT=0.42,USDC=1"
+ */
+function parseOverrides(value: string): Map<string, number> {
+  const overrides = new Map<string, number>();
+  for (const entry of value.split(',')) {
+    const [symbol, price] = entry.split('=').map((part) => part.trim());
+    if (symbol && price && !isNaN(parseFloat(price))) {
+      overrides.set(symbol.toUpperCase(), parseFloat(price));
+    }
+  }
+  return overrides;
+}
+
+export default PriceService;
@@ -0,0 +1,86 @@
+import type { Address, Hash, PublicClient, TransactionReceipt } from 'viem';
+import type NonceManager from './NonceManager';
+
+/**
+ * A sent transaction someone is waiting on
+ */
+interface TrackedTransaction {
+  hash: Hash;
+  from: Address;
+  nonce: number;
+  sentAt: number;
+  resolve: (receipt: TransactionReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * ReceiptTracker waits for receipts of every sent transaction with a single background poll,
+ * so sending never blocks on an earlier transaction being mined. Mined and dropped transactions
+ * are settled in the nonce manager.
+ */
+export class ReceiptTracker {
+  private publicClient: PublicClient;
+  private nonceManager: NonceManager;
+  private tracked: Map<Hash, TrackedTransaction> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  private readonly POLL_INTERVAL_MS = parseInt(process.env.RECEIPT_POLL_INTERVAL_MS || '1000', 10);
+  private readonly TIMEOUT_MS = parseInt(process.env.RECEIPT_TIMEOUT_SECONDS || '180', 10) * 1000;
+
+  constructor(publicClient: PublicClient, nonceManager: NonceManager) {
+    this.publicClient = publicClient;
+    this.nonceManager = nonceManager;
+  }
+
+  /**
+   * Receipt of a sent transaction
+   * Rejects if it leaves the mempool unmined, or is still unmined after RECEIPT_TIMEOUT_SECONDS
+   * (it stays tracked as in flight in the nonce manager then, since it may still be mined).
+   */
+  waitForReceipt(hash: Hash, from: Address, nonce: number): Promise<TransactionReceipt> {
+    return new Promise((resolve, reject) => {
+      this.tracked.set(hash, { hash, from, nonce, sentAt: Date.now(), resolve, reject });
+      this.schedulePoll();
+    });
+  }
+
+  private schedulePoll(): void {
+    if (this.timer || this.tracked.size === 0) return;
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((error) => console.error('❌ Receipt polling error:', error))
+        .finally(() => {
+          this.timer = null;
+          this.schedulePoll();
+        });
+    }, this.POLL_INTERVAL_MS);
+  }
+
+  private async poll(): Promise<void> {
+    await Promise.all(Array.from(this.tracked.values()).map((tx) => this.check(tx)));
+  }
+
+  private async check(tx: TrackedTransaction): Promise<void> {
+    const receipt = await this.publicClient.getTransactionReceipt({ hash: tx.hash }).catch(() => null);
+    if (receipt) {
+      this.tracked.delete(tx.hash);
+      this.nonceManager.settle(tx.from, tx.nonce);
+      tx.resolve(receipt);
+      return;
+    }
+
+    if (Date.now() - tx.sentAt < this.TIMEOUT_MS) return;
+
+    this.tracked.delete(tx.hash);
+    const pending = await this.publicClient.getTransaction({ hash: tx.hash }).catch(() => null);
+    if (!pending) {
+      // Its nonce is free again: the next reservation fills the gap
+      this.nonceManager.settle(tx.from, tx.nonce);
+      tx.reject(new Error(`Transaction ${tx.hash} was dropped from the mempool`));
+      return;
+    }
+    tx.reject(new Error(`Transaction ${tx.hash} not mined after ${this.TIMEOUT_MS / 1000}s`));
+  }
+}
+
+export default ReceiptTracker;
@@ -0,0 +1,301 @@
+import {
+  createClient,
+  getAddress,
+  http,
+  isAddress,
+  numberToHex,
+  parseTransaction,
+  recoverTransactionAddress,
+  type Address,
+  type Hex,
+  type TransactionSerializable,
+  type TransactionSerializableLegacy,
+  type TransactionSerialized
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import type Keystore from './Keystore';
+
+/**
+ * A fully populated transaction ready to be signed (gas, price and nonce already set)
+ */
+export type UnsignedTransaction = TransactionSerializableLegacy & {
+  chainId: number;
+  nonce: number;
+  gas: bigint;
+  gasPrice: bigint;
+};
+
+/**
+ * Signs transactions for calendar wallets. Signers never broadcast:
+ * SomniaWalletService sends the signed bytes with eth_sendRawTransaction.
+ */
+export interface Signer {
+  readonly kind: 'local' | 'keystore' | 'remote';
+
+  /**
+   * Address that signs for a calendar
+   */
+  getAddress(calendarId: string): Address;
+
+  /**
+   * Serialized signed transaction
+   */
+  signTransaction(calendarId: string, transaction: UnsignedTransaction): Promise<Hex>;
+}
+
+/**
+ * Refused or failed signing; statusCode is the HTTP status a route answers with
+ */
+export class SignerError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'SignerError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * One in-process private key signing for every calendar (single-wallet setups, sweeps, tests)
+ */
+export class LocalSigner implements Signer {
+  readonly kind = 'local' as const;
+  private account: PrivateKeyAccount;
+
+  constructor(privateKey: Hex) {
+    this.account = privateKeyToAccount(privateKey);
+  }
+
+  getAddress(): Address {
+    return this.account.address;
+  }
+
+  async signTransaction(_calendarId: string, transaction: UnsignedTransaction): Promise<Hex> {
+    return await this.account.signTransaction(transaction);
+  }
+}
+
+/**
+ * Per-calendar keys from the encrypted keystore, decrypted once and kept for the process lifetime
+ * Looking up an address never creates or decrypts a key; createAccount makes a calendar's first one.
+ */
+export class KeystoreSigner implements Signer {
+  readonly kind = 'keystore' as const;
+  private keystore: Keystore;
+  private accounts: Map<string, Promise<PrivateKeyAccount>> = new Map();
+
+  constructor(keystore: Keystore) {
+    this.keystore = keystore;
+  }
+
+  getAddress(calendarId: string): Address {
+    const record = this.keystore.getRecord(calendarId);
+    if (!record) {
+      throw new SignerError(`Calendar ${calendarId} has no wallet yet`, 404);
+    }
+    return record.address as Address;
+  }
+
+  async signTransaction(calendarId: string, transaction: UnsignedTransaction): Promise<Hex> {
+    if (!this.keystore.getRecord(calendarId)) {
+      throw new SignerError(`Calendar ${calendarId} has no wallet yet`, 404);
+    }
+    return await (await this.getAccount(calendarId)).signTransaction(transaction);
+  }
+
+  /**
+   * Address of a calendar's wallet, generating its key if it has none
+   */
+  async createAccount(calendarId: string): Promise<Address> {
+    return (await this.getAccount(calendarId)).address;
+  }
+
+  /**
+   * Drop a decrypted key so the next use reloads it (after an import)
+   */
+  forget(calendarId: string): void {
+    this.accounts.delete(calendarId);
+  }
+
+  /**
+   * Concurrent first uses share one load, so a new calendar never gets two keys
+   */
+  private getAccount(calendarId: string): Promise<PrivateKeyAccount> {
+    let account = this.accounts.get(calendarId);
+    if (!account) {
+      account = this.loadAccount(calendarId);
+      this.accounts.set(calendarId, account);
+      const loading = account;
+      loading.catch(() => {
+        if (this.accounts.get(calendarId) === loading) this.accounts.delete(calendarId);
+      });
+    }
+    return account;
+  }
+
+  private async loadAccount(calendarId: string): Promise<PrivateKeyAccount> {
+    const { privateKey, created } = await this.keystore.getOrCreatePrivateKey(calendarId);
+    const account = privateKeyToAccount(privateKey);
+
+    console.log(`🔑 ${created ? 'Generated' : 'Loaded'} wallet for calendar: ${calendarId.substring(0, 20)}...`);
+    console.log(`📍 Address: ${account.address}`);
+    if (created) {
+      console.log(`ℹ️  Funds on the legacy derived wallet can be moved with POST /api/wallet/:calendarId/migrate`);
+    }
+
+    return account;
+  }
+}
+
+/**
+ * Keys held outside the process by a signing service that speaks eth_signTransaction
+ * (Web3Signer, Clef, geth's external signer...). Which account signs for which calendar is
+ * configured here, since the service only knows addresses.
+ */
+export class RemoteSigner implements Signer {
+  readonly kind = 'remote' as const;
+  private url: string;
+  private client: ReturnType<typeof createClient>;
+  private accounts: Record<string, Address>;
+  private defaultAccount: Address | null;
+
+  constructor(url: string, accounts: Record<string, string>, defaultAccount?: string, authToken?: string) {
+    for (const address of [...Object.values(accounts), ...(defaultAccount ? [defaultAccount] : [])]) {
+      if (!isAddress(address)) {
+        throw new SignerError(`Invalid remote signer account: ${address}`, 500);
+      }
+    }
+
+    this.url = url;
+    this.accounts = Object.fromEntries(
+      Object.entries(accounts).map(([calendarId, address]) => [calendarId, getAddress(address)])
+    );
+    this.defaultAccount = defaultAccount ? getAddress(defaultAccount) : null;
+    this.client = createClient({
+      transport: http(url, {
+        fetchOptions: authToken ? { headers: { Authorization: `Bearer ${authToken}` } } : undefined,
+        retryCount: 0,
+      }),
+    });
+  }
+
+  getAddress(calendarId: string): Address {
+    const address = this.accounts[calendarId] ?? this.defaultAccount;
+    if (!address) {
+      throw new SignerError(`No remote signer account configured for calendar ${calendarId}`, 404);
+    }
+    return address;
+  }
+
+  async signTransaction(calendarId: string, transaction: UnsignedTransaction): Promise<Hex> {
+    const from = this.getAddress(calendarId);
+
+    let result: Hex | { raw: Hex };
+    try {
+      result = await this.client.request<{
+        Method: 'eth_signTransaction';
+        Parameters: [Record<string, string>];
+        ReturnType: Hex | { raw: Hex };
+      }>({
+        method: 'eth_signTransaction',
+        params: [{
+          from,
+          ...(transaction.to ? { to: transaction.to } : {}),
+          gas: numberToHex(transaction.gas),
+          gasPrice: numberToHex(transaction.gasPrice),
+          value: numberToHex(transaction.value ?? BigInt(0)),
+          data: transaction.data ?? '0x',
+          nonce: numberToHex(transaction.nonce),
+          chainId: numberToHex(transaction.chainId),
+        }],
+      });
+    } catch (error: any) {
+      throw new SignerError(`Remote signer at ${this.url} refused: ${error.shortMessage || error.message}`, 502);
+    }
+
+    // geth-style signers answer { raw, tx }, Web3Signer the raw bytes
+    const signed = typeof result === 'string' ? result : result?.raw;
+    if (typeof signed !== 'string' || !signed.startsWith('0x')) {
+      throw new SignerError('Remote signer returned no signed transaction', 502);
+    }
+
+    const serializedTransaction = signed as TransactionSerialized;
+
+    let changed: string[];
+    try {
+      changed = changedFields(transaction, parseTransaction(serializedTransaction));
+    } catch {
+      throw new SignerError('Remote signer returned a transaction that does not parse', 502);
+    }
+    if (changed.length > 0) {
+      throw new SignerError(`Remote signer changed the transaction (${changed.join(', ')})`, 502);
+    }
+
+    const signer = await recoverTransactionAddress({ serializedTransaction });
+    if (signer !== from) {
+      throw new SignerError(`Remote signer signed with ${signer} instead of ${from}`, 502);
+    }
+    return serializedTransaction;
+  }
+}
+
+/**
+ * Fields of a signed transaction that differ from what was asked to be signed
+ * (a signer may fill in defaults, but must not send something else)
+ */
+function changedFields(requested: UnsignedTransaction, signed: TransactionSerializable): string[] {
+  const gasPrice = 'gasPrice' in signed ? signed.gasPrice : undefined;
+  const expected: [string, unknown, unknown][] = [
+    ['to', requested.to?.toLowerCase(), signed.to?.toLowerCase()],
+    ['value', requested.value ?? BigInt(0), signed.value ?? BigInt(0)],
+    ['data', (requested.data ?? '0x').toLowerCase(), (signed.data ?? '0x').toLowerCase()],
+    ['nonce', requested.nonce, signed.nonce ?? 0],
+    ['gas', requested.gas, signed.gas],
+    ['gasPrice', requested.gasPrice, gasPrice],
+    ['chainId', requested.chainId, signed.chainId],
+  ];
+  return expected.filter(([, want, got]) => want !== got).map(([field]) => field);
+}
+
+/**
+ * Signer selected by SIGNER=keystore (default) | local | remote
+ */
+export function createSigner(keystore: Keystore): Signer {
+  const type = process.env.SIGNER || 'keystore';
+
+  switch (type) {
+    case 'keystore':
+      return new KeystoreSigner(keystore);
+
+    case 'local': {
+      const privateKey = process.env.SIGNER_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('SIGNER=local requires SIGNER_PRIVATE_KEY');
+      }
+      return new LocalSigner((privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`) as Hex);
+    }
+
+    case 'remote': {
+      const url = process.env.REMOTE_SIGNER_URL;
+      if (!url) {
+        throw new Error('SIGNER=remote requires REMOTE_SIGNER_URL');
+      }
+      let accounts: Record<string, string> = {};
+      try {
+        accounts = JSON.parse(process.env.REMOTE_SIGNER_ACCOUNTS || '{}');
+      } catch {
+        throw new Error('REMOTE_SIGNER_ACCOUNTS must be a JSON object of calendar ID → address');
+      }
+      return new RemoteSigner(
+        url,
+        accounts,
+        process.env.REMOTE_SIGNER_ACCOUNT || undefined,
+        process.env.REMOTE_SIGNER_AUTH_TOKEN || undefined
+      );
+    }
+
+    default:
+      throw new Error(`Unsupported SIGNER: ${type}`);
+  }
+}
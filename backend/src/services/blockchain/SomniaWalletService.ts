@@ -1,17 +1,31 @@
 import { 
   createPublicClient, 
-  createWalletClient, 
   http, 
   formatEther, 
+  formatUnits,
   parseEther,
+  encodeFunctionData,
+  decodeErrorResult,
+  erc20Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  RawContractError,
+  RpcRequestError,
+  isHex,
+  zeroAddress,
   type Address,
   type Hash,
-  type WalletClient,
+  type Hex,
+  type TransactionReceipt,
   type PublicClient
 } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
 import { defineChain } from 'viem';
-import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import Keystore, { deriveLegacyPrivateKey, legacyAddressOf, KeystoreError, type KeystoreV3 } from './Keystore';
+import { createSigner, KeystoreSigner, LocalSigner, type Signer } from './Signer';
+import NonceManager from './NonceManager';
+import ReceiptTracker from './ReceiptTracker';
+import { tokenRegistry } from './TokenRegistry';
 
 /**
  * Somnia Testnet chain configuration
@@ -42,6 +56,11 @@ const somniaTestnet = defineChain({
   testnet: true,
 });
 
+/**
+ * Node errors meaning a transaction's nonce was already taken
+ */
+const NONCE_CONFLICT = /nonce too low|nonce has already been used|replacement transaction underpriced/i;
+
 /**
  * Wallet information interface
  */
@@ -56,28 +75,79 @@ export interface WalletInfo {
 
 /**
  * Transaction result interface
+ * Once a transaction is broadcast its hash is always set; unconfirmed means no receipt was seen
+ * (timed out, or it left the mempool), so it may still be mined and must not be sent again.
  */
 export interface TransactionResult {
+  success: boolean;
+  hash?: Hash;
+  nonce?: number;
+  unconfirmed?: boolean;
+  explorerUrl?: string;
+  error?: string;
+  receipt?: TransactionReceipt;
+}
+
+/**
+ * What became of a sent (or about to be sent) transaction
+ * not-sent: it can never be mined (its nonce is unused, or the chain used it for another transaction)
+ * unknown: its nonce was used, but without a hash it can't be told whether by this transaction
+ */
+export type BroadcastStatus = 'confirmed' | 'reverted' | 'pending' | 'not-sent' | 'unknown';
+
+/**
+ * Told about every transaction sent inside recordBroadcasts: its nonce before signing, its hash once broadcast
+ */
+export interface BroadcastRecorder {
+  reserved(nonce: number): Promise<void>;
+  broadcast(nonce: number, hash: Hash): Promise<void>;
+}
+
+/**
+ * One balance moved by a sweep
+ */
+export interface SweepTransfer {
+  token: string;              // Symbol, "STT" for the native balance
+  amount: string;             // Token units
   success: boolean;
   hash?: Hash;
   explorerUrl?: string;
   error?: string;
 }
 
+/**
+ * Outcome of sweeping a wallet into another
+ */
+export interface SweepResult {
+  from: Address;
+  to: Address;
+  transfers: SweepTransfer[];
+}
+
 /**
  * SomniaWalletService manages blockchain wallets for Epochi
- * Uses deterministic wallet generation - no user wallet needed
+ * Transactions are signed by the configured Signer (by default each calendar's random key from the
+ * encrypted keystore - no user wallet needed) and broadcast here as raw transactions.
  */
 export class SomniaWalletService {
   private publicClient: PublicClient;
-  private walletCache: Map<string, WalletClient> = new Map();
+  private keystore: Keystore;
+  private signer: Signer;
+  private nonceManager: NonceManager;
+  private receiptTracker: ReceiptTracker;
+  private recorders: AsyncLocalStorage<BroadcastRecorder> = new AsyncLocalStorage();
+
+  constructor(keystore?: Keystore, signer?: Signer) {
+    this.keystore = keystore ?? new Keystore();
+    this.signer = signer ?? createSigner(this.keystore);
 
-  constructor() {
     // Initialize public client for reading blockchain data
     this.publicClient = createPublicClient({
       chain: somniaTestnet,
       transport: http(process.env.SOMNIA_RPC_URL),
     });
+    this.nonceManager = new NonceManager(this.publicClient);
+    this.receiptTracker = new ReceiptTracker(this.publicClient, this.nonceManager);
 
     console.log('✅ Somnia Wallet Service initialized');
     console.log(`🔗 Connected to: ${somniaTestnet.name}`);
@@ -85,59 +155,234 @@ export class SomniaWalletService {
   }
 
   /**
-   * Generate deterministic private key from calendar ID
-   * Uses HMAC-SHA256 for secure, reproducible key generation
+   * Sign a transaction from a calendar wallet and broadcast it
+   * Nonces come from the nonce manager, so concurrent sends from one wallet don't collide;
+   * the receipt is tracked in the background and resolves once the transaction is mined.
+   */
+  private async submit(
+    calendarId: string,
+    transaction: { to: Address; value: bigint; data?: Hex; gas: bigint; gasPrice: bigint },
+    signer: Signer = this.signer
+  ): Promise<{ hash: Hash; nonce: number; receipt: Promise<TransactionReceipt> }> {
+    const from = signer.getAddress(calendarId);
+    const recorder = this.recorders.getStore();
+
+    for (let attempt = 1; ; attempt++) {
+      const nonce = await this.nonceManager.reserve(from);
+
+      try {
+        await recorder?.reserved(nonce);
+        const serializedTransaction = await signer.signTransaction(calendarId, {
+          type: 'legacy',
+          chainId: somniaTestnet.id,
+          nonce,
+          ...transaction,
+        });
+        const hash = await this.publicClient.sendRawTransaction({ serializedTransaction });
+
+        this.nonceManager.markBroadcast(from, nonce, hash);
+        await recorder?.broadcast(nonce, hash).catch((error) => {
+          console.error(`⚠️ Failed to record broadcast of ${hash}:`, error);
+        });
+        return { hash, nonce, receipt: this.receiptTracker.waitForReceipt(hash, from, nonce) };
+      } catch (error: any) {
+        this.nonceManager.release(from, nonce);
+
+        // The nonce was used outside this process: resync and try once more
+        if (attempt === 1 && NONCE_CONFLICT.test(`${error.details ?? ''} ${error.message ?? ''}`)) {
+          console.log(`🔁 Nonce ${nonce} of ${from} already used, resyncing`);
+          this.nonceManager.resync(from);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Run fn, reporting every transaction it sends to recorder (concurrent runs each see only their own)
+   */
+  async recordBroadcasts<T>(recorder: BroadcastRecorder, fn: () => Promise<T>): Promise<T> {
+    return await this.recorders.run(recorder, fn);
+  }
+
+  /**
+   * Which kind of signer holds the wallet keys
+   */
+  getSignerKind(): Signer['kind'] {
+    return this.signer.kind;
+  }
+
+  /**
+   * Keystore entry of a calendar wallet (null until its first transaction)
    */
-  private generatePrivateKey(calendarId: string): `0x${string}` {
-    // Use HMAC with a secret for added security
-    const secret = process.env.ENCRYPTION_KEY || 'epochi-secret-key-change-in-production';
-    const hmac = crypto.createHmac('sha256', secret);
-    hmac.update(calendarId);
-    const hash = hmac.digest('hex');
-    
-    // Ensure valid private key format (0x + 64 hex chars)
-    return `0x${hash}` as `0x${string}`;
+  getKeyInfo(calendarId: string): { address: string; source: string; createdAt: Date } | null {
+    const record = this.keystore.getRecord(calendarId);
+    return record && { address: record.address, source: record.source, createdAt: record.createdAt };
   }
 
   /**
-   * Get wallet client for a calendar ID
-   * Creates wallet on first use, then caches it
+   * Replace or set a calendar's key from a raw private key or a v3 keystore
    */
-  private getWalletClient(calendarId: string): WalletClient {
-    // Check cache first
-    if (this.walletCache.has(calendarId)) {
-      return this.walletCache.get(calendarId)!;
+  async importWallet(
+    calendarId: string,
+    input: { privateKey: string } | { keystore: KeystoreV3 | string; password: string },
+    replace = false
+  ): Promise<Address> {
+    if (!(this.signer instanceof KeystoreSigner)) {
+      throw new KeystoreError(`Wallet keys are held by the ${this.signer.kind} signer, not the keystore`, 409);
     }
 
-    // Generate deterministic private key
-    const privateKey = this.generatePrivateKey(calendarId);
-    
-    // Create account from private key
-    const account = privateKeyToAccount(privateKey);
+    const record = 'privateKey' in input
+      ? await this.keystore.importPrivateKey(calendarId, input.privateKey, replace)
+      : await this.keystore.importKeystore(calendarId, input.keystore, input.password, replace);
+    this.signer.forget(calendarId);
 
-    // Create wallet client
-    const walletClient = createWalletClient({
-      account,
-      chain: somniaTestnet,
-      transport: http(process.env.SOMNIA_RPC_URL),
-    });
+    console.log(`🔑 Imported wallet for calendar: ${calendarId.substring(0, 20)}... (${record.address})`);
+    return record.address as Address;
+  }
+
+  /**
+   * A calendar's key as a v3 keystore encrypted with the given password
+   */
+  async exportWallet(calendarId: string, password: string): Promise<KeystoreV3> {
+    return await this.keystore.exportKeystore(calendarId, password);
+  }
+
+  /**
+   * Move everything from the calendar's legacy HMAC-derived wallet into its keystore wallet
+   * Token balances go first, paid for from the legacy wallet's STT, which is swept last.
+   */
+  async migrateLegacyWallet(calendarId: string): Promise<SweepResult> {
+    const target = await this.ensureWallet(calendarId);
+    if (legacyAddressOf(calendarId) === target) {
+      throw new KeystoreError('The keystore holds the legacy key itself; import a new key first', 409);
+    }
+
+    console.log(`🧹 Sweeping legacy wallet ${legacyAddressOf(calendarId)} → ${target}`);
+    return await this.sweep(calendarId, new LocalSigner(deriveLegacyPrivateKey(calendarId)), target);
+  }
+
+  /**
+   * Replace a calendar's key with a new random one and sweep the old address into it
+   * The keystore switches keys before the sweep, so a failed transfer leaves funds on a retired
+   * address that sweepRetiredWallets can empty later, never on a key the service has lost.
+   */
+  async rotateWallet(calendarId: string): Promise<{ retiredAddress: Address; address: Address; sweep: SweepResult }> {
+    if (!(this.signer instanceof KeystoreSigner)) {
+      throw new KeystoreError(`Wallet keys are held by the ${this.signer.kind} signer, not the keystore`, 409);
+    }
+
+    const { record, retired, retiredPrivateKey } = await this.keystore.rotate(calendarId);
+    this.signer.forget(calendarId);
+
+    console.log(`🔄 Rotated wallet for calendar: ${calendarId.substring(0, 20)}... (${retired.address} → ${record.address})`);
+    const sweep = await this.sweep(calendarId, new LocalSigner(retiredPrivateKey), record.address as Address);
+
+    return { retiredAddress: retired.address as Address, address: record.address as Address, sweep };
+  }
+
+  /**
+   * Sweep whatever is left on a calendar's retired addresses into its current wallet
+   */
+  async sweepRetiredWallets(calendarId: string): Promise<SweepResult[]> {
+    const target = this.getWalletAddress(calendarId);
+    const sweeps: SweepResult[] = [];
+
+    for (const key of await this.keystore.getRetiredKeys(calendarId)) {
+      if (key.address === target) continue;
+      console.log(`🧹 Sweeping retired wallet ${key.address} → ${target}`);
+      sweeps.push(await this.sweep(calendarId, new LocalSigner(key.privateKey), target));
+    }
+    return sweeps;
+  }
+
+  /**
+   * Send every registered token balance and then all STT (less the fee of that last transfer)
+   */
+  private async sweep(calendarId: string, signer: Signer, to: Address): Promise<SweepResult> {
+    const from = signer.getAddress(calendarId);
+    const transfers: SweepTransfer[] = [];
+
+    const tokens = tokenRegistry.list(somniaTestnet.id).filter((token) => token.address !== zeroAddress);
+    for (const token of tokens) {
+      const balance = await this.publicClient.readContract({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [from],
+      }).catch(() => BigInt(0));
+      if (balance === BigInt(0)) continue;
+
+      transfers.push(await this.sendSweep(calendarId, signer, {
+        token: token.symbol,
+        amount: formatUnits(balance, token.decimals),
+        to: token.address,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, balance] }),
+      }));
+    }
 
-    // Cache for future use
-    this.walletCache.set(calendarId, walletClient);
+    const [balance, gasPrice] = await Promise.all([
+      this.publicClient.getBalance({ address: from }),
+      this.publicClient.getGasPrice(),
+    ]);
+    // A plain transfer; estimating it can fail on an empty balance
+    const gas = await this.publicClient
+      .estimateGas({ account: from, to, value: BigInt(1) })
+      .catch(() => BigInt(21000));
+    const fee = gas * gasPrice;
+    if (balance > fee) {
+      transfers.push(await this.sendSweep(calendarId, signer, {
+        token: somniaTestnet.nativeCurrency.symbol,
+        amount: formatEther(balance - fee),
+        to,
+        value: balance - fee,
+        gas,
+        gasPrice,
+      }));
+    }
+
+    return { from, to, transfers };
+  }
 
-    console.log(`🔑 Generated wallet for calendar: ${calendarId.substring(0, 20)}...`);
-    console.log(`📍 Address: ${account.address}`);
+  private async sendSweep(
+    calendarId: string,
+    signer: Signer,
+    transfer: { token: string; amount: string; to: Address; data?: Hex; value?: bigint; gas?: bigint; gasPrice?: bigint }
+  ): Promise<SweepTransfer> {
+    const { token, amount, to, data, value = BigInt(0) } = transfer;
+
+    try {
+      const [gas, gasPrice] = await Promise.all([
+        transfer.gas ?? this.publicClient.estimateGas({ account: signer.getAddress(calendarId), to, value, data }),
+        transfer.gasPrice ?? this.publicClient.getGasPrice(),
+      ]);
+      const { hash, receipt: mined } = await this.submit(calendarId, { to, value, data, gas, gasPrice }, signer);
+      const explorerUrl = `${somniaTestnet.blockExplorers.default.url}/tx/${hash}`;
+      const receipt = await mined.catch((error: Error) => error);
+      if (receipt instanceof Error) {
+        console.error(`⚠️ Sweep of ${amount} ${token} sent but not confirmed: ${hash}`);
+        return { token, amount, success: false, hash, explorerUrl, error: receipt.message };
+      }
 
-    return walletClient;
+      console.log(`${receipt.status === 'success' ? '✅' : '❌'} Swept ${amount} ${token}: ${hash}`);
+      return receipt.status === 'success'
+        ? { token, amount, success: true, hash, explorerUrl }
+        : { token, amount, success: false, hash, explorerUrl, error: `Reverted in block ${receipt.blockNumber}` };
+    } catch (error: any) {
+      console.error(`❌ Failed to sweep ${amount} ${token}:`, error);
+      return { token, amount, success: false, error: error.shortMessage || error.message || 'Sweep failed' };
+    }
   }
 
   /**
    * Get wallet information for a calendar ID
    */
   async getWalletInfo(calendarId: string): Promise<WalletInfo> {
+    // A calendar without a wallet is the caller's 404, not a failed lookup
+    const address = this.getWalletAddress(calendarId);
+
     try {
-      const walletClient = this.getWalletClient(calendarId);
-      const address = walletClient.account.address;
 
       // Get balance
       const balance = await this.publicClient.getBalance({
@@ -160,10 +405,20 @@ export class SomniaWalletService {
 
   /**
    * Get wallet address for a calendar ID
+   * Throws a 404 SignerError for a calendar that has no wallet yet (see ensureWallet)
    */
   getWalletAddress(calendarId: string): Address {
-    const walletClient = this.getWalletClient(calendarId);
-    return walletClient.account.address;
+    return this.signer.getAddress(calendarId);
+  }
+
+  /**
+   * Wallet address for a calendar ID, generating the calendar's key first if it has none
+   * Only for paths that are about to use the wallet; lookups use getWalletAddress.
+   */
+  async ensureWallet(calendarId: string): Promise<Address> {
+    return this.signer instanceof KeystoreSigner
+      ? await this.signer.createAccount(calendarId)
+      : this.signer.getAddress(calendarId);
   }
 
   /**
@@ -192,10 +447,8 @@ export class SomniaWalletService {
     data?: `0x${string}`
   ): Promise<bigint> {
     try {
-      const walletClient = this.getWalletClient(calendarId);
-      
       const gasEstimate = await this.publicClient.estimateGas({
-        account: walletClient.account,
+        account: this.getWalletAddress(calendarId),
         to,
         value,
         data,
@@ -209,6 +462,30 @@ export class SomniaWalletService {
     }
   }
 
+  /**
+   * Simulate a transaction from the calendar wallet with eth_call, then estimate its gas
+   * Nothing is signed or broadcast; reverts come back decoded in `error`
+   */
+  async simulateTransaction(
+    calendarId: string,
+    to: Address,
+    value: bigint,
+    data?: Hex
+  ): Promise<{ success: boolean; gasEstimate?: bigint; error?: string }> {
+    try {
+      await this.publicClient.call({
+        account: this.getWalletAddress(calendarId),
+        to,
+        value,
+        data,
+      });
+    } catch (error) {
+      return { success: false, error: decodeRevertReason(error) };
+    }
+
+    return { success: true, gasEstimate: await this.estimateGas(calendarId, to, value, data) };
+  }
+
   /**
    * Send native token (STT) to an address
    */
@@ -218,7 +495,6 @@ export class SomniaWalletService {
     amount: string
   ): Promise<TransactionResult> {
     try {
-      const walletClient = this.getWalletClient(calendarId);
       const value = parseEther(amount);
 
       // Check balance
@@ -239,26 +515,28 @@ export class SomniaWalletService {
       const gasEstimate = await this.estimateGas(calendarId, to, value);
 
       // Send transaction with gas parameters
-      const hash = await walletClient.sendTransaction({
+      const sent = await this.submit(calendarId, {
         to,
         value,
         gas: gasEstimate,
         gasPrice: gasPrice,
       });
 
-      console.log(`✅ Transaction sent: ${hash}`);
+      console.log(`✅ Transaction sent: ${sent.hash}`);
 
       // Wait for confirmation
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-      });
+      const receipt = await sent.receipt.catch((error: Error) => error);
+      if (receipt instanceof Error) {
+        return this.unconfirmedResult(sent, receipt);
+      }
 
       console.log(`✅ Transaction confirmed in block ${receipt.blockNumber}`);
 
       return {
         success: true,
-        hash,
-        explorerUrl: `${somniaTestnet.blockExplorers.default.url}/tx/${hash}`,
+        hash: sent.hash,
+        nonce: sent.nonce,
+        explorerUrl: `${somniaTestnet.blockExplorers.default.url}/tx/${sent.hash}`,
       };
     } catch (error: any) {
       console.error('❌ Transaction failed:', error);
@@ -269,6 +547,171 @@ export class SomniaWalletService {
     }
   }
 
+  /**
+   * Send a contract call from the calendar wallet and wait for the receipt
+   * Unlike sendTransaction, gas estimation errors are surfaced (they usually mean a revert)
+   */
+  async sendContractTransaction(
+    calendarId: string,
+    to: Address,
+    data: Hex,
+    value: bigint = BigInt(0)
+  ): Promise<TransactionResult> {
+    try {
+      const [gasPrice, gasEstimate] = await Promise.all([
+        this.publicClient.getGasPrice(),
+        this.publicClient.estimateGas({ account: this.getWalletAddress(calendarId), to, value, data }),
+      ]);
+
+      const sent = await this.submit(calendarId, {
+        to,
+        value,
+        data,
+        gas: gasEstimate,
+        gasPrice,
+      });
+      const { hash, nonce } = sent;
+
+      console.log(`✅ Contract transaction sent: ${hash}`);
+
+      const receipt = await sent.receipt.catch((error: Error) => error);
+      if (receipt instanceof Error) {
+        return this.unconfirmedResult(sent, receipt);
+      }
+      const explorerUrl = `${somniaTestnet.blockExplorers.default.url}/tx/${hash}`;
+
+      if (receipt.status !== 'success') {
+        return {
+          success: false,
+          hash,
+          nonce,
+          explorerUrl,
+          receipt,
+          error: `Transaction reverted in block ${receipt.blockNumber}`,
+        };
+      }
+
+      console.log(`✅ Contract transaction confirmed in block ${receipt.blockNumber}`);
+
+      return {
+        success: true,
+        hash,
+        nonce,
+        explorerUrl,
+        receipt,
+      };
+    } catch (error: any) {
+      console.error('❌ Contract transaction failed:', error);
+      return {
+        success: false,
+        error: error.shortMessage || error.message || 'Contract transaction failed',
+      };
+    }
+  }
+
+  /**
+   * Send an ERC-20 token to an address
+   * Amount is in the token's base units (already scaled by its decimals)
+   */
+  async sendToken(
+    calendarId: string,
+    token: Address,
+    to: Address,
+    amount: bigint
+  ): Promise<TransactionResult> {
+    try {
+      const balance = await this.getTokenBalance(calendarId, token);
+      if (balance < amount) {
+        return {
+          success: false,
+          error: 'Insufficient token balance for transaction',
+        };
+      }
+
+      console.log(`💸 Sending ${amount} of token ${token} to ${to}`);
+
+      return await this.sendContractTransaction(
+        calendarId,
+        token,
+        encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [to, amount],
+        })
+      );
+    } catch (error: any) {
+      console.error('❌ Token transfer failed:', error);
+      return {
+        success: false,
+        error: error.message || 'Token transfer failed',
+      };
+    }
+  }
+
+  /**
+   * Get ERC-20 token balance of a calendar wallet
+   */
+  async getTokenBalance(calendarId: string, token: Address): Promise<bigint> {
+    return await this.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [this.getWalletAddress(calendarId)],
+    });
+  }
+
+  /**
+   * Get ERC-20 decimals
+   */
+  async getTokenDecimals(token: Address): Promise<number> {
+    return await this.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'decimals',
+    });
+  }
+
+  /**
+   * Make sure `spender` may pull at least `amount` of `token` from the calendar wallet
+   * Sends an approve transaction only when the current allowance is too low
+   */
+  async ensureAllowance(
+    calendarId: string,
+    token: Address,
+    spender: Address,
+    amount: bigint
+  ): Promise<TransactionResult> {
+    const allowance = await this.publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [this.getWalletAddress(calendarId), spender],
+    });
+
+    if (allowance >= amount) {
+      return { success: true };
+    }
+
+    console.log(`🔓 Approving ${spender} to spend ${amount} of ${token}`);
+
+    return await this.sendContractTransaction(
+      calendarId,
+      token,
+      encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [spender, amount],
+      })
+    );
+  }
+
+  /**
+   * Public client for contract reads (quotes, allowances, logs)
+   */
+  getPublicClient(): PublicClient {
+    return this.publicClient;
+  }
+
   /**
    * Get transaction details
    */
@@ -325,15 +768,74 @@ export class SomniaWalletService {
 
   /**
    * Get current gas price
+   * Throws when the node can't be reached, since a price of 0 would pass every gas check.
    */
   async getGasPrice(): Promise<bigint> {
-    try {
-      const gasPrice = await this.publicClient.getGasPrice();
-      return gasPrice;
-    } catch (error) {
-      console.error('❌ Error getting gas price:', error);
-      return BigInt(0);
+    return await this.publicClient.getGasPrice();
+  }
+
+  /**
+   * Get the wallet's nonce, counting transactions still in the mempool
+   */
+  async getNonce(calendarId: string): Promise<number> {
+    return await this.publicClient.getTransactionCount({
+      address: this.getWalletAddress(calendarId),
+      blockTag: 'pending',
+    });
+  }
+
+  /**
+   * What became of a transaction sent from a calendar wallet
+   * A transaction without a receipt stays pending until the wallet's mined nonce moves past it;
+   * only then is it certain it will never be mined. Without a hash (the process stopped before the
+   * node answered) only an unused nonce is conclusive.
+   */
+  async getBroadcastStatus(calendarId: string, sent: { hash?: Hash; nonce: number }): Promise<BroadcastStatus> {
+    if (!sent.hash) {
+      return (await this.getNonce(calendarId)) > sent.nonce ? 'unknown' : 'not-sent';
+    }
+
+    const minedNonce = await this.publicClient.getTransactionCount({
+      address: this.getWalletAddress(calendarId),
+      blockTag: 'latest',
+    });
+
+    // Read after the count, so a transaction mined in between is not taken for a replaced one
+    const receipt = await this.publicClient.getTransactionReceipt({ hash: sent.hash }).catch(() => null);
+    if (receipt) {
+      return receipt.status === 'success' ? 'confirmed' : 'reverted';
     }
+    return minedNonce > sent.nonce ? 'not-sent' : 'pending';
+  }
+
+  /**
+   * Result of a broadcast transaction whose receipt never came; it keeps its hash and nonce
+   * so the outcome can be settled later
+   */
+  private unconfirmedResult(sent: { hash: Hash; nonce: number }, error: Error): TransactionResult {
+    console.error(`⚠️ Transaction ${sent.hash} was sent but not confirmed: ${error.message}`);
+    return {
+      success: false,
+      unconfirmed: true,
+      hash: sent.hash,
+      nonce: sent.nonce,
+      explorerUrl: `${somniaTestnet.blockExplorers.default.url}/tx/${sent.hash}`,
+      error: `Sent but not confirmed: ${error.message}`,
+    };
+  }
+
+  /**
+   * Explorer URL of a transaction
+   */
+  getTransactionUrl(hash: string): string {
+    return `${somniaTestnet.blockExplorers.default.url}/tx/${hash}`;
+  }
+
+  /**
+   * Explorer URL for a calendar wallet's address page
+   */
+  getWalletExplorerUrl(calendarId: string): string {
+    return `${somniaTestnet.blockExplorers.default.url}/address/${this.getWalletAddress(calendarId)}`;
   }
 
   /**
@@ -375,5 +877,45 @@ export class SomniaWalletService {
   }
 }
 
+/**
+ * Human-readable revert reason of a failed eth_call or gas estimate
+ * Decodes Error(string) and Panic(uint256) return data; otherwise uses the node's message
+ */
+export function decodeRevertReason(error: unknown): string {
+  if (error instanceof BaseError) {
+    // Already decoded against a contract ABI (readContract, simulateContract)
+    const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+    const reason = reverted instanceof ContractFunctionRevertedError
+      ? reverted.reason ?? reverted.data?.errorName
+      : undefined;
+    if (reason) return reason;
+
+    const data = revertDataOf(error.walk((cause) => cause instanceof RawContractError || cause instanceof RpcRequestError));
+    if (data && data.length >= 10) {
+      try {
+        const decoded = decodeErrorResult({ abi: [], data });
+        return decoded.errorName === 'Panic'
+          ? `Panic(0x${(decoded.args![0] as bigint).toString(16)})`
+          : String(decoded.args?.[0] ?? decoded.errorName);
+      } catch {
+        return `custom error ${data.slice(0, 10)}`;
+      }
+    }
+
+    return error.details || error.shortMessage;
+  }
+
+  return error instanceof Error ? error.message : 'Simulation failed';
+}
+
+/**
+ * Revert data the node attached to an error: a hex string, or { data } on some nodes
+ */
+function revertDataOf(error: unknown): Hex | undefined {
+  const data = error instanceof RawContractError || error instanceof RpcRequestError ? error.data : undefined;
+  const raw = typeof data === 'object' && data !== null && 'data' in data ? data.data : data;
+  return typeof raw === 'string' && isHex(raw) ? raw : undefined;
+}
+
 export default SomniaWalletService;
 
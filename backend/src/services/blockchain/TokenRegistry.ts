@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { getAddress, isAddress, zeroAddress, type Address } from 'viem';
+
+/**
+ * Token metadata for a single chain
+ */
+export interface TokenInfo {
+  chainId: number;
+  symbol: string;
+  name?: string;
+  address: Address;
+  decimals: number;
+  aliases: string[];
+  verified: boolean;
+}
+
+export interface TokenRegistryOptions {
+  filePath?: string;
+  defaultChainId?: number;
+}
+
+/**
+ * Schema for a registry entry (file contents and POST /api/tokens body)
+ */
+export const tokenInputSchema = z.object({
+  chainId: z.number().int().positive(),
+  symbol: z.string().regex(/^[A-Za-z0-9]{1,16}$/, 'symbol must be 1-16 alphanumeric characters'),
+  name: z.string().optional(),
+  address: z.string().refine((value) => isAddress(value), 'address must be a valid EVM address'),
+  decimals: z.number().int().min(0).max(36),
+  aliases: z.array(z.string().regex(/^[A-Za-z0-9]{1,16}$/)).default([]),
+  verified: z.boolean().default(false),
+});
+
+export type TokenInput = z.input<typeof tokenInputSchema>;
+
+const registryFileSchema = z.object({
+  tokens: z.array(tokenInputSchema),
+});
+
+/**
+ * Used when no registry file exists: native STT only
+ */
+const FALLBACK_TOKENS: TokenInput[] = [
+  {
+    chainId: 50312,
+    symbol: 'STT',
+    name: 'Somnia Test Token',
+    address: zeroAddress,
+    decimals: 18,
+    aliases: ['ETH', 'NATIVE'],
+    verified: true,
+  },
+];
+
+/**
+ * TokenRegistry keeps per-chain token metadata loaded from a JSON or YAML file.
+ * Symbols and aliases are matched case-insensitively; the native token uses the zero address.
+ */
+export class TokenRegistry {
+  private tokens: TokenInfo[] = [];
+  private loaded = false;
+  private filePath: string;
+  readonly defaultChainId: number;
+
+  constructor(options: TokenRegistryOptions = {}) {
+    this.filePath =
+      options.filePath ??
+      process.env.TOKEN_REGISTRY_PATH ??
+      path.join(process.cwd(), 'config', 'token-registry.json');
+
+    this.defaultChainId =
+      options.defaultChainId ?? parseInt(process.env.SOMNIA_CHAIN_ID || '50312', 10);
+  }
+
+  /**
+   * Load (or reload) the registry file synchronously
+   * EventParser is synchronous, so the registry must be usable without awaiting
+   */
+  load(): void {
+    let entries: TokenInput[];
+
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const data = this.isYaml() ? YAML.parse(raw) : JSON.parse(raw);
+      entries = registryFileSchema.parse(data).tokens;
+      console.log(`🪙 Token registry loaded: ${entries.length} tokens from ${this.filePath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Invalid token registry file ${this.filePath}: ${error.message}`);
+      }
+      console.log(`⚠️ Token registry not found at ${this.filePath}, using native token only`);
+      entries = FALLBACK_TOKENS;
+    }
+
+    const tokens: TokenInfo[] = [];
+    for (const entry of entries) {
+      const token = this.normalize(entry);
+      this.assertNoClash(tokens, token);
+      tokens.push(token);
+    }
+    this.tokens = tokens;
+    this.loaded = true;
+  }
+
+  /**
+   * List tokens, optionally filtered by chain
+   */
+  list(chainId?: number): TokenInfo[] {
+    this.ensureLoaded();
+    return this.tokens.filter((token) => chainId === undefined || token.chainId === chainId);
+  }
+
+  /**
+   * Resolve a symbol or alias to token metadata
+   */
+  resolve(symbol: string, chainId: number = this.defaultChainId): TokenInfo | null {
+    this.ensureLoaded();
+    return this.find(this.tokens, symbol, chainId);
+  }
+
+  /**
+   * Add or replace a token and persist the registry file
+   */
+  async upsert(input: TokenInput): Promise<TokenInfo> {
+    this.ensureLoaded();
+    const token = this.normalize(input);
+
+    const remaining = this.tokens.filter((existing) =>
+      !(existing.chainId === token.chainId && existing.symbol === token.symbol)
+    );
+    this.assertNoClash(remaining, token);
+    this.tokens = [...remaining, token];
+    await this.persist();
+
+    return token;
+  }
+
+  isNative(token: TokenInfo): boolean {
+    return token.address === zeroAddress;
+  }
+
+  private find(tokens: TokenInfo[], symbol: string, chainId: number): TokenInfo | null {
+    const wanted = symbol.toUpperCase();
+    return tokens.find((token) =>
+      token.chainId === chainId &&
+      (token.symbol === wanted || token.aliases.includes(wanted))
+    ) ?? null;
+  }
+
+  private assertNoClash(tokens: TokenInfo[], token: TokenInfo): void {
+    for (const name of [token.symbol, ...token.aliases]) {
+      const clash = this.find(tokens, name, token.chainId);
+      if (clash) {
+        throw new Error(`Token symbol ${name} already used by ${clash.symbol} on chain ${token.chainId}`);
+      }
+    }
+  }
+
+  private normalize(input: TokenInput): TokenInfo {
+    const parsed = tokenInputSchema.parse(input);
+    return {
+      chainId: parsed.chainId,
+      symbol: parsed.symbol.toUpperCase(),
+      name: parsed.name,
+      address: getAddress(parsed.address),
+      decimals: parsed.decimals,
+      aliases: parsed.aliases.map((alias) => alias.toUpperCase()),
+      verified: parsed.verified,
+    };
+  }
+
+  private async persist(): Promise<void> {
+    const data = { tokens: this.tokens };
+    const contents = this.isYaml() ? YAML.stringify(data) : `${JSON.stringify(data, null, 2)}\n`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, contents, 'utf-8');
+  }
+
+  private isYaml(): boolean {
+    return /\.ya?ml$/i.test(this.filePath);
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) {
+      this.load();
+    }
+  }
+}
+
+/**
+ * Shared registry instance used by the parser, executor and routes
+ */
+export const tokenRegistry = new TokenRegistry();
+
+export default TokenRegistry;
@@ -1,8 +1,29 @@
-import { parseEther, type Address } from 'viem';
+import {
+  encodeFunctionData,
+  erc20Abi,
+  formatGwei,
+  formatUnits,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  zeroAddress,
+  type Address,
+  type TransactionReceipt
+} from 'viem';
 import SomniaWalletService from './SomniaWalletService';
 import DataStreamsService from './DataStreamsService';
-import { TransactionStatus } from '../../schemas/transaction.schema';
+import createDexRouter, { type DexRouter } from './DexRouter';
+import PriceService from './PriceService';
+import TransactionSimulator, { formatDryRunReport, type DryRunReport, type TransactionSender } from './TransactionSimulator';
+import { tokenRegistry, type TokenInfo } from './TokenRegistry';
+import { formatPolicyViolation, policyEngine, type PolicyViolation } from './PolicyEngine';
+import { getEnvNumber } from '../../utils/validateEnv';
+import { TransactionStatus, TransactionType, createTransactionId } from '../../schemas/transaction.schema';
 import { ParsedTransaction } from '../calendar/EventParser';
+import { describeAmount } from '../calendar/AmountExpression';
+import { describeCondition } from '../calendar/ExecutionCondition';
+import { windowEndOf } from '../calendar/EventWindow';
+import ConditionEvaluator, { type ConditionCheck } from '../monitoring/ConditionEvaluator';
 
 /**
  * Execution result interface
@@ -10,22 +31,102 @@ import { ParsedTransaction } from '../calendar/EventParser';
 export interface ExecutionResult {
   success: boolean;
   txHash?: string;
+  txNonce?: number;
+  unconfirmed?: boolean;        // Broadcast but never seen mined: must not be sent again (txHash/txNonce settle it)
   explorerUrl?: string;
   amountReceived?: string;
+  resolvedAmount?: string;      // Amount sent in token units (resolved from percent/all/$ amounts)
+  rawAmountIn?: bigint;         // Smallest units sent
+  rawAmountReceived?: bigint;   // Smallest units received
   error?: string;
   streamTxHash?: string;
+  guardFailure?: SwapGuardFailure;
+  policyViolation?: PolicyViolation; // Refused by the calendar's spending policy; nothing was sent
+  conditionCheck?: ConditionCheck;   // Execution conditions were not met; nothing was sent
+  batchId?: string;             // Shared Data Streams ID prefix of a batch transfer's legs
+  legs?: BatchLegResult[];
+  dryRun?: boolean;             // Simulated only: nothing was broadcast or written
+  preview?: DryRunReport;
 }
 
 /**
- * Token addresses on Somnia (placeholder - update with real addresses)
+ * Options for executeTransaction
  */
-const TOKEN_ADDRESSES: { [key: string]: Address } = {
-  ETH: '0x0000000000000000000000000000000000000000', // Native token
-  STT: '0x0000000000000000000000000000000000000000', // Native token (Somnia Test Token)
-  USDC: '0x1234567890123456789012345678901234567890', // Placeholder
-  USDT: '0x2345678901234567890123456789012345678901', // Placeholder
-  DAI: '0x3456789012345678901234567890123456789012',  // Placeholder
-};
+export interface ExecutionOptions {
+  dryRun?: boolean;             // Run every step but simulate sends and skip Data Streams writes
+}
+
+/**
+ * Outcome of one leg of a batch transfer
+ */
+export interface BatchLegResult {
+  recipient: Address;
+  name?: string;
+  amount: string;               // Token units
+  rawAmount: bigint;
+  status: 'executed' | 'failed' | 'skipped' | 'unconfirmed';
+  txHash?: string;
+  txNonce?: number;
+  explorerUrl?: string;
+  error?: string;
+  streamTxHash?: string;
+}
+
+/**
+ * Details of a swap refused or reverted by the price guards
+ */
+export interface SwapGuardFailure {
+  rule: 'price-impact' | 'slippage';
+  quotedPrice: string;
+  limit: string;
+  actual?: string;
+}
+
+/**
+ * Thrown inside executeSwap when a price guard trips
+ */
+class SwapGuardError extends Error {
+  constructor(message: string, public guard: SwapGuardFailure) {
+    super(message);
+    this.name = 'SwapGuardError';
+  }
+}
+
+/**
+ * Slippage tolerance applied to router quotes when the event doesn't set one (basis points)
+ */
+const DEFAULT_SLIPPAGE_BPS = getEnvNumber('SWAP_DEFAULT_SLIPPAGE_BPS', 100);
+
+/**
+ * Swaps whose quote moves the price more than this are refused (basis points)
+ */
+const MAX_PRICE_IMPACT_BPS = getEnvNumber('SWAP_MAX_PRICE_IMPACT_BPS', 300);
+
+/**
+ * Revert reasons that mean the output fell below amountOutMin
+ */
+const SLIPPAGE_REVERT_PATTERN = /INSUFFICIENT_OUTPUT_AMOUNT|Too little received/i;
+
+/**
+ * Swap deadline passed to the router
+ */
+const SWAP_DEADLINE_SECONDS = 10 * 60;
+
+/**
+ * Native balance kept for gas by "all"/percent/$ amounts that don't set their own reserve
+ */
+const NATIVE_GAS_RESERVE = parseUnits(process.env.NATIVE_GAS_RESERVE || '0.01', 18);
+
+/**
+ * Disperse contract (disperse.app) that sends a whole batch in one all-or-nothing transaction
+ * Without DISPERSE_ADDRESS legs are sent one by one and the batch stops at the first failure
+ */
+const DISPERSE_ADDRESS = process.env.DISPERSE_ADDRESS as Address | undefined;
+
+const DISPERSE_ABI = parseAbi([
+  'function disperseEther(address[] recipients, uint256[] values) payable',
+  'function disperseToken(address token, address[] recipients, uint256[] values)',
+]);
 
 /**
  * TransactionExecutor handles transaction execution and recording
@@ -33,44 +134,135 @@ const TOKEN_ADDRESSES: { [key: string]: Address } = {
 export class TransactionExecutor {
   private walletService: SomniaWalletService;
   private dataStreamsService: DataStreamsService;
+  private dexRouter: DexRouter | null;
+  private priceService: PriceService;
+  private conditionEvaluator: ConditionEvaluator;
 
   constructor(
     walletService: SomniaWalletService,
-    dataStreamsService: DataStreamsService
+    dataStreamsService: DataStreamsService,
+    dexRouter?: DexRouter | null,
+    priceService?: PriceService
   ) {
     this.walletService = walletService;
     this.dataStreamsService = dataStreamsService;
+    this.dexRouter = dexRouter !== undefined
+      ? dexRouter
+      : createDexRouter(walletService.getPublicClient());
+    this.priceService = priceService ?? new PriceService(this.dexRouter);
+    this.conditionEvaluator = new ConditionEvaluator(walletService, this.priceService);
+  }
+
+  /**
+   * USD price source, shared with condition checks
+   */
+  getPriceService(): PriceService {
+    return this.priceService;
   }
 
   /**
    * Execute a parsed transaction
+   * A dry run previews the result at any time; its sends are simulated with eth_call
    */
   async executeTransaction(
     parsed: ParsedTransaction,
-    calendarId: string
+    calendarId: string,
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    if (!options.dryRun) {
+      try {
+        const result = await this.run(parsed, calendarId, null);
+        this.recordSpend(parsed, calendarId, result);
+        return result;
+      } finally {
+        policyEngine.releaseHold(calendarId, parsed.eventId);
+      }
+    }
+
+    console.log(`🧪 Dry run: ${parsed.eventTitle}`);
+    const simulator = new TransactionSimulator(this.walletService);
+    const result = await this.run(parsed, calendarId, simulator);
+
+    let preview: DryRunReport | undefined;
+    try {
+      preview = await simulator.report();
+    } catch (error: any) {
+      console.error('⚠️  Failed to build dry run report:', error.message);
+    }
+
+    return { ...result, txHash: undefined, explorerUrl: undefined, streamTxHash: undefined, dryRun: true, preview };
+  }
+
+  private async run(
+    parsed: ParsedTransaction,
+    calendarId: string,
+    simulator: TransactionSimulator | null
   ): Promise<ExecutionResult> {
     console.log(`🚀 Executing transaction: ${parsed.eventTitle}`);
 
     try {
-      // Get wallet info
+      // A calendar's first real execution creates its wallet; previews only read it
+      if (!simulator) {
+        await this.walletService.ensureWallet(calendarId);
+      }
       const walletInfo = await this.walletService.getWalletInfo(calendarId);
       console.log(`💰 Wallet balance: ${walletInfo.balanceFormatted} STT`);
 
-      // Check if execution time has arrived
+      // Only within the event's window: from its start until its end (previews may run any time)
       const now = new Date();
-      if (parsed.executionTime > now) {
+      if (!simulator && parsed.executionTime > now) {
         const waitTime = Math.floor((parsed.executionTime.getTime() - now.getTime()) / 1000);
         return {
           success: false,
           error: `Transaction scheduled for ${parsed.executionTime.toISOString()} (in ${waitTime}s)`
         };
       }
+      if (!simulator && now >= windowEndOf(parsed)) {
+        return {
+          success: false,
+          error: `The event ended at ${windowEndOf(parsed).toISOString()}; its transaction can no longer run`
+        };
+      }
+
+      // Every path runs through here, so conditions hold however the intent was started
+      if (parsed.conditions?.length) {
+        const check = await this.conditionEvaluator.evaluate(parsed.conditions, calendarId);
+        if (!check.met) {
+          return {
+            success: false,
+            error: `Execution conditions not met: ${check.results
+              .filter((result) => !result.met)
+              .map((result) => describeCondition(result.condition))
+              .join(', ')}`,
+            conditionCheck: check
+          };
+        }
+      }
+
+      // Respect the event's gas price cap; the agent retries later
+      if (parsed.gasCapGwei !== undefined) {
+        const gasPrice = await this.walletService.getGasPrice().catch(() => null);
+        if (gasPrice === null) {
+          return {
+            success: false,
+            error: `Gas price unavailable; the cap of ${parsed.gasCapGwei} gwei could not be checked`
+          };
+        }
+        if (gasPrice > parseUnits(parsed.gasCapGwei.toFixed(9), 9)) {
+          return {
+            success: false,
+            error: `Gas price ${formatGwei(gasPrice)} gwei is above the cap of ${parsed.gasCapGwei} gwei`
+          };
+        }
+      }
 
       // Execute based on type
       if (parsed.type === 'swap') {
-        return await this.executeSwap(parsed, calendarId, walletInfo.address);
+        return await this.executeSwap(parsed, calendarId, walletInfo.address, simulator);
+      } else if (parsed.type === 'transfer' && parsed.recipients) {
+        return await this.executeBatch(parsed, calendarId, walletInfo.address, simulator);
       } else if (parsed.type === 'transfer') {
-        return await this.executeTransfer(parsed, calendarId, walletInfo.address);
+        return await this.executeTransfer(parsed, calendarId, walletInfo.address, simulator);
       }
 
       return {
@@ -87,23 +279,51 @@ export class TransactionExecutor {
   }
 
   /**
-   * Execute a swap transaction (simplified for MVP)
+   * Execute a swap through the configured DEX router
    */
   private async executeSwap(
     parsed: ParsedTransaction,
     calendarId: string,
-    userWallet: Address
+    userWallet: Address,
+    simulator: TransactionSimulator | null
   ): Promise<ExecutionResult> {
     console.log(`🔄 Executing swap: ${parsed.amount} ${parsed.fromToken} → ${parsed.toToken}`);
 
+    const sender: TransactionSender = simulator ?? this.walletService;
+    let amount = BigInt(0);
+
     try {
-      // For MVP: Simulate swap by checking balance and creating record
-      // In production: Integrate with actual DEX (Uniswap V3, etc.)
-      
-      const amount = parseEther(parsed.amount);
-      
+      if (!this.dexRouter) {
+        return {
+          success: false,
+          error: 'No DEX router configured (set DEX_ROUTER_ADDRESS)'
+        };
+      }
+
+      const fromInfo = this.resolveToken(parsed.fromToken);
+      const toInfo = this.resolveToken(parsed.toToken);
+      if (!fromInfo || !toInfo) {
+        return {
+          success: false,
+          error: `Unknown or unverified token: ${!fromInfo ? parsed.fromToken : parsed.toToken}`
+        };
+      }
+
+      const tokenIn = fromInfo.address;
+      const tokenOut = toInfo.address;
+      const decimalsIn = fromInfo.decimals;
+      const decimalsOut = toInfo.decimals;
+      amount = await this.resolveAmount(parsed, fromInfo, calendarId);
+      const amountIn = formatUnits(amount, decimalsIn);
+
+      // Swaps pay into the wallet itself, so only amount and time rules apply
+      const refused = await this.enforcePolicy(parsed, calendarId, userWallet, fromInfo, amount, [], simulator);
+      if (refused) return refused;
+
       // Check sufficient balance
-      const hasFunds = await this.walletService.hasSufficientBalance(calendarId, amount);
+      const hasFunds = tokenIn === zeroAddress
+        ? await this.walletService.hasSufficientBalance(calendarId, amount)
+        : (await this.walletService.getTokenBalance(calendarId, tokenIn)) >= amount;
       if (!hasFunds) {
         return {
           success: false,
@@ -111,17 +331,92 @@ export class TransactionExecutor {
         };
       }
 
-      // Simulate swap execution (replace with actual DEX integration)
-      console.log(`💱 Simulating swap on DEX...`);
-      
-      // For demo: Create a mock transaction hash
-      const mockTxHash = `0x${Date.now().toString(16)}${'0'.repeat(50)}`.slice(0, 66);
-      
-      // Simulate amount received (mock exchange rate: 1 ETH = 2500 USDC)
-      const exchangeRate = parsed.toToken === 'USDC' ? 2500 : 1;
-      const amountReceived = (parseFloat(parsed.amount) * exchangeRate).toString();
+      // Quote, check price impact against a small probe trade, derive minimum output
+      const quote = await this.dexRouter.quote(tokenIn, tokenOut, amount);
+      const quotedPrice = this.formatPrice(amount, quote.amountOut, decimalsIn, decimalsOut, parsed);
+      const slippageBps = parsed.maxSlippageBps ?? DEFAULT_SLIPPAGE_BPS;
+      const amountOutMin = (quote.amountOut * BigInt(10000 - slippageBps)) / BigInt(10000);
+      console.log(`💱 Quote (${this.dexRouter.name}): ${formatUnits(quote.amountOut, decimalsOut)} ${parsed.toToken} (${quotedPrice})`);
+
+      const impactBps = await this.getPriceImpactBps(tokenIn, tokenOut, amount, quote.amountOut, decimalsIn);
+      if (impactBps > MAX_PRICE_IMPACT_BPS) {
+        throw new SwapGuardError(
+          `Price impact ${formatBps(impactBps)} exceeds limit of ${formatBps(MAX_PRICE_IMPACT_BPS)}`,
+          {
+            rule: 'price-impact',
+            quotedPrice,
+            limit: `max price impact ${formatBps(MAX_PRICE_IMPACT_BPS)}`,
+            actual: formatBps(impactBps),
+          }
+        );
+      }
+
+      // ERC-20 inputs need an allowance for the router
+      if (tokenIn !== zeroAddress) {
+        const approval = await sender.ensureAllowance(
+          calendarId,
+          tokenIn,
+          this.dexRouter.routerAddress,
+          amount
+        );
+        if (!approval.success) {
+          throw new Error(`Token approval failed: ${approval.error}`);
+        }
+      }
+
+      const swapCall = await this.dexRouter.buildSwap({
+        tokenIn,
+        tokenOut,
+        amountIn: amount,
+        amountOutMin,
+        recipient: userWallet,
+        deadline: BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS),
+      });
+
+      const result = await sender.sendContractTransaction(
+        calendarId,
+        swapCall.to,
+        swapCall.data,
+        swapCall.value,
+        `Swap ${amountIn} ${parsed.fromToken} for ${parsed.toToken} via ${this.dexRouter.name}`
+      );
+
+      if (result.unconfirmed) {
+        return {
+          success: false,
+          unconfirmed: true,
+          txHash: result.hash,
+          txNonce: result.nonce,
+          explorerUrl: result.explorerUrl,
+          resolvedAmount: amountIn,
+          rawAmountIn: amount,
+          error: result.error
+        };
+      }
+
+      if (!result.success || (!simulator && !result.receipt)) {
+        if (result.error && SLIPPAGE_REVERT_PATTERN.test(result.error)) {
+          throw new SwapGuardError(
+            `Output fell below minimum of ${formatUnits(amountOutMin, decimalsOut)} ${parsed.toToken}`,
+            {
+              rule: 'slippage',
+              quotedPrice,
+              limit: `max slippage ${formatBps(slippageBps)}`,
+            }
+          );
+        }
+        throw new Error(result.error || 'Swap transaction failed');
+      }
+
+      // Read the actual output from Transfer logs (a dry run can only go by the quote)
+      const received = simulator
+        ? quote.amountOut
+        : tokenOut === zeroAddress
+          ? this.sumTransfers(result.receipt!, await this.dexRouter.getWrappedNative(), this.dexRouter.routerAddress)
+          : this.sumTransfers(result.receipt!, tokenOut, userWallet);
+      const amountReceived = formatUnits(received, decimalsOut);
 
-      console.log(`✅ Swap executed! Received ~${amountReceived} ${parsed.toToken}`);
+      console.log(`${simulator ? '🧪 Swap simulated! Would receive' : '✅ Swap executed! Received'} ${amountReceived} ${parsed.toToken}`);
 
       // Record to Data Streams (but don't fail if this fails)
       let streamTxHash = '';
@@ -131,10 +426,12 @@ export class TransactionExecutor {
           calendarId,
           userWallet,
           amount,
-          parseEther(amountReceived),
-          mockTxHash,
+          received,
+          result.hash || '',
           TransactionStatus.EXECUTED,
-          `Swapped ${parsed.amount} ${parsed.fromToken} for ${amountReceived} ${parsed.toToken}`
+          `Swapped ${amountIn} ${parsed.fromToken}${this.resolvedFrom(parsed)} for ${amountReceived} ${parsed.toToken} via ${this.dexRouter.name}`,
+          undefined,
+          simulator
         );
       } catch (streamError: any) {
         console.error('⚠️  Failed to record to Data Streams (non-fatal):', streamError.message);
@@ -142,9 +439,12 @@ export class TransactionExecutor {
 
       return {
         success: true,
-        txHash: mockTxHash,
-        explorerUrl: `https://somnia.explorer.caldera.xyz/tx/${mockTxHash}`,
+        txHash: result.hash,
+        explorerUrl: result.explorerUrl,
         amountReceived,
+        resolvedAmount: amountIn,
+        rawAmountIn: amount,
+        rawAmountReceived: received,
         streamTxHash
       };
     } catch (error: any) {
@@ -155,42 +455,115 @@ export class TransactionExecutor {
         parsed,
         calendarId,
         userWallet,
-        parseEther(parsed.amount),
+        amount,
         BigInt(0),
         '',
         TransactionStatus.FAILED,
-        `Swap failed: ${error.message}`
+        `Swap failed: ${error.message}`,
+        undefined,
+        simulator
       ).catch(() => {
         // Ignore errors when recording failed transactions
       });
 
       return {
         success: false,
-        error: error.message || 'Swap execution failed'
+        error: error.message || 'Swap execution failed',
+        guardFailure: error instanceof SwapGuardError ? error.guard : undefined
       };
     }
   }
 
   /**
-   * Execute a transfer transaction
+   * Price impact of a trade in basis points, measured against a 1/1000 probe quote
+   */
+  private async getPriceImpactBps(
+    tokenIn: Address,
+    tokenOut: Address,
+    amountIn: bigint,
+    amountOut: bigint,
+    decimalsIn: number
+  ): Promise<number> {
+    const probeIn = BigInt(10) ** BigInt(decimalsIn) / BigInt(1000);
+    if (probeIn === BigInt(0) || amountIn <= probeIn) {
+      return 0;
+    }
+
+    const probe = await this.dexRouter!.quote(tokenIn, tokenOut, probeIn);
+    if (probe.amountOut === BigInt(0)) {
+      return 10000;
+    }
+
+    // Compare execution price (amountOut / amountIn) with spot price (probeOut / probeIn)
+    const ratio = (amountOut * probeIn * BigInt(10000)) / (probe.amountOut * amountIn);
+    return Math.max(0, 10000 - Number(ratio));
+  }
+
+  /**
+   * Human-readable quote, e.g. "1 STT = 0.4975 USDC"
+   */
+  private formatPrice(
+    amountIn: bigint,
+    amountOut: bigint,
+    decimalsIn: number,
+    decimalsOut: number,
+    parsed: ParsedTransaction
+  ): string {
+    if (amountIn === BigInt(0)) return 'n/a';
+    const price = (amountOut * BigInt(10) ** BigInt(decimalsIn)) / amountIn;
+    return `1 ${parsed.fromToken} = ${formatUnits(price, decimalsOut)} ${parsed.toToken}`;
+  }
+
+  /**
+   * Execute a transfer transaction (native STT or ERC-20)
    */
   private async executeTransfer(
     parsed: ParsedTransaction,
     calendarId: string,
-    userWallet: Address
+    userWallet: Address,
+    simulator: TransactionSimulator | null
   ): Promise<ExecutionResult> {
     console.log(`💸 Executing transfer: ${parsed.amount} ${parsed.fromToken} to ${parsed.toToken}`);
 
+    const sender: TransactionSender = simulator ?? this.walletService;
+    let value = BigInt(0);
+
     try {
-      const amount = parsed.amount;
       const recipient = parsed.toToken as Address; // In transfers, toToken is the recipient address
 
+      // Never fall back to native for a symbol we can't resolve
+      const tokenInfo = this.resolveToken(parsed.fromToken);
+      if (!tokenInfo) {
+        return {
+          success: false,
+          error: `Unknown or unverified token: ${parsed.fromToken}`
+        };
+      }
+
+      const token = tokenInfo.address;
+      value = await this.resolveAmount(parsed, tokenInfo, calendarId);
+      const amount = formatUnits(value, tokenInfo.decimals);
+
+      const refused = await this.enforcePolicy(parsed, calendarId, userWallet, tokenInfo, value, [recipient], simulator);
+      if (refused) return refused;
+
       // Execute the transfer
-      const result = await this.walletService.sendTransaction(
-        calendarId,
-        recipient,
-        amount
-      );
+      const result = token === zeroAddress
+        ? await sender.sendTransaction(calendarId, recipient, amount)
+        : await sender.sendToken(calendarId, token, recipient, value);
+
+      if (result.unconfirmed) {
+        return {
+          success: false,
+          unconfirmed: true,
+          txHash: result.hash,
+          txNonce: result.nonce,
+          explorerUrl: result.explorerUrl,
+          resolvedAmount: amount,
+          rawAmountIn: value,
+          error: result.error
+        };
+      }
 
       if (!result.success) {
         return {
@@ -199,7 +572,7 @@ export class TransactionExecutor {
         };
       }
 
-      console.log(`✅ Transfer executed! Hash: ${result.hash}`);
+      console.log(simulator ? '🧪 Transfer simulated!' : `✅ Transfer executed! Hash: ${result.hash}`);
 
       // Record to Data Streams (but don't fail if this fails)
       let streamTxHash = '';
@@ -208,11 +581,15 @@ export class TransactionExecutor {
           parsed,
           calendarId,
           userWallet,
-          parseEther(amount),
-          parseEther(amount),
+          value,
+          value,
           result.hash || '',
           TransactionStatus.EXECUTED,
-          `Transferred ${amount} ${parsed.fromToken} to ${recipient}`
+          token === zeroAddress
+            ? `Transferred ${amount} ${parsed.fromToken}${this.resolvedFrom(parsed)} to ${recipient}`
+            : `Transferred ${amount} ${parsed.fromToken} (${token})${this.resolvedFrom(parsed)} to ${recipient}`,
+          undefined,
+          simulator
         );
       } catch (streamError: any) {
         console.error('⚠️  Failed to record to Data Streams (non-fatal):', streamError.message);
@@ -223,6 +600,9 @@ export class TransactionExecutor {
         txHash: result.hash,
         explorerUrl: result.explorerUrl,
         amountReceived: amount,
+        resolvedAmount: amount,
+        rawAmountIn: value,
+        rawAmountReceived: value,
         streamTxHash
       };
     } catch (error: any) {
@@ -233,11 +613,13 @@ export class TransactionExecutor {
         parsed,
         calendarId,
         userWallet,
-        parseEther(parsed.amount),
+        value,
         BigInt(0),
         '',
         TransactionStatus.FAILED,
-        `Transfer failed: ${error.message}`
+        `Transfer failed: ${error.message}`,
+        undefined,
+        simulator
       ).catch(() => {
         // Ignore errors when recording failed transactions
       });
@@ -250,7 +632,256 @@ export class TransactionExecutor {
   }
 
   /**
-   * Record transaction to Data Streams
+   * Execute a batch transfer (split or payroll event)
+   * The total is checked against the balance before any leg is sent
+   */
+  private async executeBatch(
+    parsed: ParsedTransaction,
+    calendarId: string,
+    userWallet: Address,
+    simulator: TransactionSimulator | null
+  ): Promise<ExecutionResult> {
+    const recipients = parsed.recipients!;
+    console.log(`👥 Executing batch transfer: ${parsed.amount} ${parsed.fromToken} to ${recipients.length} recipients`);
+
+    const tokenInfo = this.resolveToken(parsed.fromToken);
+    if (!tokenInfo) {
+      return {
+        success: false,
+        error: `Unknown or unverified token: ${parsed.fromToken}`
+      };
+    }
+
+    const isNative = tokenInfo.address === zeroAddress;
+    const total = await this.resolveAmount(parsed, tokenInfo, calendarId);
+    const values = allocateShares(total, recipients.map((leg) => parseUnits(leg.share, 18)));
+    if (values.some((value) => value === BigInt(0))) {
+      return {
+        success: false,
+        error: `${formatUnits(total, tokenInfo.decimals)} ${tokenInfo.symbol} is too small to split between ${recipients.length} recipients`
+      };
+    }
+
+    const refused = await this.enforcePolicy(
+      parsed,
+      calendarId,
+      userWallet,
+      tokenInfo,
+      total,
+      recipients.map((leg) => leg.address),
+      simulator
+    );
+    if (refused) return refused;
+
+    const balance = isNative
+      ? BigInt((await this.walletService.getWalletInfo(calendarId)).balance)
+      : await this.walletService.getTokenBalance(calendarId, tokenInfo.address);
+    if (balance < total) {
+      return {
+        success: false,
+        error: `Insufficient balance for batch: needs ${formatUnits(total, tokenInfo.decimals)} ${tokenInfo.symbol}, wallet has ${formatUnits(balance, tokenInfo.decimals)}`
+      };
+    }
+
+    const batchId = createTransactionId(calendarId, parsed.eventId, Math.floor(Date.now() / 1000));
+    const legs: BatchLegResult[] = recipients.map((leg, index) => ({
+      recipient: leg.address as Address,
+      name: leg.name,
+      amount: formatUnits(values[index], tokenInfo.decimals),
+      rawAmount: values[index],
+      status: 'skipped',
+    }));
+
+    const sender: TransactionSender = simulator ?? this.walletService;
+    if (DISPERSE_ADDRESS) {
+      await this.sendBatchAtomic(sender, legs, tokenInfo, total, calendarId);
+    } else {
+      await this.sendBatchSequential(sender, legs, tokenInfo, calendarId);
+    }
+
+    // Record every leg under the shared batch ID (but don't fail if this fails)
+    for (const [index, leg] of legs.entries()) {
+      const reason = leg.error ? ` (${leg.error})` : leg.status === 'skipped' ? ' (not sent)' : '';
+      leg.streamTxHash = await this.recordTransaction(
+        { ...parsed, toToken: leg.recipient },
+        calendarId,
+        userWallet,
+        leg.rawAmount,
+        leg.status === 'executed' ? leg.rawAmount : BigInt(0),
+        leg.txHash || '',
+        leg.status === 'executed'
+          ? TransactionStatus.EXECUTED
+          : leg.status === 'unconfirmed'
+            ? TransactionStatus.PENDING
+            : leg.status === 'failed' ? TransactionStatus.FAILED : TransactionStatus.CANCELLED,
+        `Batch ${batchId} leg ${index + 1}/${legs.length}: ${leg.amount} ${parsed.fromToken} to ${leg.recipient}${reason}`,
+        `${batchId}-${index + 1}`,
+        simulator
+      ).catch((streamError: any) => {
+        console.error('⚠️  Failed to record batch leg to Data Streams (non-fatal):', streamError.message);
+        return undefined;
+      });
+    }
+
+    const sent = legs.filter((leg) => leg.status === 'executed');
+    const sentTotal = sent.reduce((sum, leg) => sum + leg.rawAmount, BigInt(0));
+    const lastSent = sent[sent.length - 1];
+    const failure = legs.find((leg) => leg.status === 'failed' || leg.status === 'unconfirmed');
+    const unconfirmed = legs.find((leg) => leg.status === 'unconfirmed');
+
+    console.log(`👥 Batch ${batchId}: ${sent.length}/${legs.length} legs ${simulator ? 'simulated' : 'sent'}`);
+
+    return {
+      success: sent.length === legs.length,
+      unconfirmed: unconfirmed ? true : undefined,
+      txHash: unconfirmed?.txHash ?? lastSent?.txHash,
+      txNonce: unconfirmed?.txNonce,
+      explorerUrl: unconfirmed?.explorerUrl ?? lastSent?.explorerUrl,
+      amountReceived: formatUnits(sentTotal, tokenInfo.decimals),
+      resolvedAmount: formatUnits(total, tokenInfo.decimals),
+      rawAmountIn: sentTotal,
+      rawAmountReceived: sentTotal,
+      streamTxHash: legs[legs.length - 1].streamTxHash,
+      error: sent.length === legs.length
+        ? undefined
+        : `${legs.length - sent.length} of ${legs.length} legs not sent: ${failure?.error || 'batch failed'}`,
+      batchId,
+      legs
+    };
+  }
+
+  /**
+   * Send all legs in one Disperse call; every leg shares its outcome
+   */
+  private async sendBatchAtomic(
+    sender: TransactionSender,
+    legs: BatchLegResult[],
+    token: TokenInfo,
+    total: bigint,
+    calendarId: string
+  ): Promise<void> {
+    const isNative = token.address === zeroAddress;
+    const addresses = legs.map((leg) => leg.recipient);
+    const values = legs.map((leg) => leg.rawAmount);
+
+    let result;
+    if (isNative) {
+      result = await sender.sendContractTransaction(
+        calendarId,
+        DISPERSE_ADDRESS!,
+        encodeFunctionData({ abi: DISPERSE_ABI, functionName: 'disperseEther', args: [addresses, values] }),
+        total,
+        `Disperse to ${legs.length} recipients`
+      );
+    } else {
+      const approval = await sender.ensureAllowance(calendarId, token.address, DISPERSE_ADDRESS!, total);
+      result = approval.success
+        ? await sender.sendContractTransaction(
+          calendarId,
+          DISPERSE_ADDRESS!,
+          encodeFunctionData({ abi: DISPERSE_ABI, functionName: 'disperseToken', args: [token.address, addresses, values] }),
+          BigInt(0),
+          `Disperse ${token.symbol} to ${legs.length} recipients`
+        )
+        : { success: false, error: `Token approval failed: ${approval.error}` };
+    }
+
+    for (const leg of legs) {
+      leg.status = result.success ? 'executed' : result.unconfirmed ? 'unconfirmed' : 'failed';
+      leg.txHash = result.hash;
+      leg.txNonce = result.nonce;
+      leg.explorerUrl = result.explorerUrl;
+      leg.error = result.success ? undefined : result.error;
+    }
+  }
+
+  /**
+   * Send legs one at a time, stopping at the first failure (later legs stay skipped)
+   */
+  private async sendBatchSequential(
+    sender: TransactionSender,
+    legs: BatchLegResult[],
+    token: TokenInfo,
+    calendarId: string
+  ): Promise<void> {
+    for (const leg of legs) {
+      const result = token.address === zeroAddress
+        ? await sender.sendTransaction(calendarId, leg.recipient, formatUnits(leg.rawAmount, 18))
+        : await sender.sendToken(calendarId, token.address, leg.recipient, leg.rawAmount);
+
+      leg.txHash = result.hash;
+      leg.txNonce = result.nonce;
+      leg.explorerUrl = result.explorerUrl;
+      if (!result.success) {
+        leg.status = result.unconfirmed ? 'unconfirmed' : 'failed';
+        leg.error = result.error || 'Transfer failed';
+        return;
+      }
+      leg.status = 'executed';
+    }
+  }
+
+  /**
+   * Check a resolved transaction against the calendar's spending policy
+   * A violation is recorded to Data Streams as cancelled and returned as the result; null means allowed
+   * (the amount is then held against the limits until executeTransaction finishes)
+   */
+  private async enforcePolicy(
+    parsed: ParsedTransaction,
+    calendarId: string,
+    userWallet: Address,
+    token: TokenInfo,
+    amount: bigint,
+    recipients: string[],
+    simulator: TransactionSimulator | null
+  ): Promise<ExecutionResult | null> {
+    const violation = policyEngine.evaluate({ calendarId, token, amount, recipients, eventId: parsed.eventId });
+    if (!violation) {
+      if (!simulator) policyEngine.hold(calendarId, parsed.eventId, token, amount);
+      return null;
+    }
+
+    console.log(`🛡️ Blocked by spending policy (${violation.rule}): ${violation.message}`);
+
+    await this.recordTransaction(
+      parsed,
+      calendarId,
+      userWallet,
+      amount,
+      BigInt(0),
+      '',
+      TransactionStatus.CANCELLED,
+      `Policy violation [${violation.rule}]: ${violation.message}`,
+      undefined,
+      simulator
+    ).catch((streamError: any) => {
+      console.error('⚠️  Failed to record policy violation to Data Streams (non-fatal):', streamError.message);
+    });
+
+    return {
+      success: false,
+      error: `Blocked by spending policy: ${violation.message}`,
+      resolvedAmount: formatUnits(amount, token.decimals),
+      policyViolation: violation
+    };
+  }
+
+  /**
+   * Count what left the wallet against the calendar's rolling limits
+   */
+  private recordSpend(parsed: ParsedTransaction, calendarId: string, result: ExecutionResult): void {
+    const token = this.resolveToken(parsed.fromToken);
+    if (!token || !hasSentFunds(result) || !result.rawAmountIn) return;
+
+    try {
+      policyEngine.recordSpend(calendarId, parsed.eventId, token, result.rawAmountIn);
+    } catch (error: any) {
+      console.error('⚠️  Failed to record spend for policy limits:', error.message);
+    }
+  }
+
+  /**
+   * Record transaction to Data Streams (a dry run only encodes it)
    */
   private async recordTransaction(
     parsed: ParsedTransaction,
@@ -260,7 +891,9 @@ export class TransactionExecutor {
     amountReceived: bigint,
     txHash: string,
     status: TransactionStatus,
-    notes: string
+    notes: string,
+    transactionId?: string,
+    simulator?: TransactionSimulator | null
   ): Promise<string> {
     try {
       const txRecord = this.dataStreamsService.createTransactionRecord(
@@ -273,9 +906,16 @@ export class TransactionExecutor {
         amountReceived,
         txHash,
         status,
-        notes
+        parsed.memo ? `${notes} | Memo: ${parsed.memo}` : notes,
+        parsed.type === 'transfer' ? TransactionType.TRANSFER : TransactionType.SWAP,
+        transactionId
       );
 
+      if (simulator) {
+        simulator.recordStream(this.dataStreamsService.encodeTransaction(txRecord));
+        return '';
+      }
+
       const streamTxHash = await this.dataStreamsService.writeTransaction(txRecord);
       console.log(`📊 Transaction recorded to Data Streams: ${streamTxHash}`);
 
@@ -287,11 +927,186 @@ export class TransactionExecutor {
   }
 
   /**
-   * Get token address by symbol
+   * Amount to send in smallest units; percent, "all" and $ amounts are resolved
+   * against the wallet's balance (less any gas reserve) at execution time
    */
-  private getTokenAddress(symbol: string): Address {
-    return TOKEN_ADDRESSES[symbol] || TOKEN_ADDRESSES.ETH;
+  private async resolveAmount(
+    parsed: ParsedTransaction,
+    token: TokenInfo,
+    calendarId: string
+  ): Promise<bigint> {
+    const expression = parsed.amountExpression;
+    if (!expression) {
+      return parseUnits(parsed.amount, token.decimals);
+    }
+
+    const isNative = token.address === zeroAddress;
+    const balance = isNative
+      ? BigInt((await this.walletService.getWalletInfo(calendarId)).balance)
+      : await this.walletService.getTokenBalance(calendarId, token.address);
+
+    const reserve = expression.reserve !== undefined
+      ? parseUnits(expression.reserve, token.decimals)
+      : isNative && expression.kind !== 'fixed' ? NATIVE_GAS_RESERVE : BigInt(0);
+    const spendable = balance > reserve ? balance - reserve : BigInt(0);
+
+    let amount: bigint;
+    switch (expression.kind) {
+      case 'fixed':
+        amount = parseUnits(expression.value, token.decimals);
+        break;
+      case 'percent':
+        amount = (spendable * BigInt(Math.round(expression.percent * 100))) / BigInt(10000);
+        break;
+      case 'all':
+        amount = spendable;
+        break;
+      case 'fiat': {
+        const price = await this.priceService.getUsdPrice(token);
+        amount = parseUnits((parseFloat(expression.usd) / price).toFixed(token.decimals), token.decimals);
+        break;
+      }
+    }
+
+    const description = describeAmount(expression, parsed.fromToken);
+    if (amount === BigInt(0)) {
+      throw new Error(`${description} resolves to 0 (spendable balance ${formatUnits(spendable, token.decimals)} ${token.symbol})`);
+    }
+    if (amount > spendable) {
+      throw new Error(
+        `${description} needs ${formatUnits(amount, token.decimals)} ${token.symbol} but only ${formatUnits(spendable, token.decimals)} is spendable`
+      );
+    }
+
+    console.log(`🧮 Resolved ${description} to ${formatUnits(amount, token.decimals)} ${token.symbol}`);
+    return amount;
   }
+
+  /**
+   * " (resolved from 50% of STT balance)" for expression amounts, empty otherwise
+   */
+  private resolvedFrom(parsed: ParsedTransaction): string {
+    return parsed.amountExpression
+      ? ` (resolved from ${describeAmount(parsed.amountExpression, parsed.fromToken)})`
+      : '';
+  }
+
+  /**
+   * Resolve a symbol through the token registry; unverified tokens are never executed
+   */
+  private resolveToken(symbol: string): TokenInfo | null {
+    const token = tokenRegistry.resolve(symbol);
+    return token && token.verified ? token : null;
+  }
+
+  /**
+   * Sum ERC-20 Transfer amounts of `token` sent to `recipient` in a receipt
+   */
+  private sumTransfers(receipt: TransactionReceipt, token: Address, recipient: Address): bigint {
+    const logs = parseEventLogs({
+      abi: erc20Abi,
+      eventName: 'Transfer',
+      logs: receipt.logs,
+    });
+
+    return logs
+      .filter(log =>
+        log.address.toLowerCase() === token.toLowerCase() &&
+        log.args.to.toLowerCase() === recipient.toLowerCase()
+      )
+      .reduce((total, log) => total + log.args.value, BigInt(0));
+  }
+}
+
+/**
+ * Format basis points as a percentage string
+ */
+function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2)}%`;
+}
+
+/**
+ * Whether any funds left the wallet (or may have, if unconfirmed); a partly sent batch must not be claimed again
+ */
+export function hasSentFunds(result: ExecutionResult): boolean {
+  if (result.dryRun) return false;
+  return result.success || !!result.unconfirmed || !!result.legs?.some((leg) => leg.status === 'executed');
+}
+
+/**
+ * Split a total in proportion to weights; the last leg takes the rounding remainder
+ */
+function allocateShares(total: bigint, weights: bigint[]): bigint[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, BigInt(0));
+  const values = weights.map((weight) => (total * weight) / weightSum);
+  const allocated = values.reduce((sum, value) => sum + value, BigInt(0));
+  values[values.length - 1] += total - allocated;
+  return values;
+}
+
+/**
+ * Calendar description lines with the outcome of each batch leg
+ */
+export function formatBatchLegs(legs: BatchLegResult[], token: string): string {
+  const icons = { executed: '✅', failed: '❌', skipped: '⏭️', unconfirmed: '⏳' };
+  return legs.map((leg) => {
+    const detail = leg.status === 'executed' || leg.status === 'unconfirmed'
+      ? leg.explorerUrl || 'simulated'
+      : leg.error || 'not sent';
+    return `${icons[leg.status]} ${leg.name ? `@${leg.name}` : leg.recipient}: ${leg.amount} ${token} - ${detail}`;
+  }).join('\n');
+}
+
+/**
+ * Calendar description lines describing a tripped price guard
+ */
+export function formatGuardFailure(guard: SwapGuardFailure): string {
+  const lines = [
+    `💱 Quoted price: ${guard.quotedPrice}`,
+    `🚧 Limit breached: ${guard.limit}`,
+  ];
+  if (guard.actual) {
+    lines.push(`📉 Actual: ${guard.actual}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Header of the description block written by dry runs
+ */
+export const PREVIEW_HEADER = '🧪 Preview';
+
+/**
+ * Calendar description block for a dry run result (no blank lines, so it can be replaced in place)
+ */
+export function formatPreview(parsed: ParsedTransaction, result: ExecutionResult): string {
+  const lines = [
+    PREVIEW_HEADER,
+    '━━━━━━━━━━━━━━━━━━━━',
+    result.success ? '✅ Would succeed' : `❌ Would fail: ${result.error}`,
+  ];
+
+  if (result.resolvedAmount) {
+    lines.push(`💸 Would send: ${result.resolvedAmount} ${parsed.fromToken}`);
+  }
+  if (result.success && parsed.type === 'swap') {
+    lines.push(`💰 Would receive: ~${result.amountReceived} ${parsed.toToken} (quoted)`);
+  }
+  if (result.guardFailure) {
+    lines.push(formatGuardFailure(result.guardFailure));
+  }
+  if (result.policyViolation) {
+    lines.push(formatPolicyViolation(result.policyViolation));
+  }
+  if (result.legs) {
+    lines.push(formatBatchLegs(result.legs, parsed.fromToken));
+  }
+  if (result.preview) {
+    lines.push(formatDryRunReport(result.preview));
+  }
+
+  lines.push(`⏰ Previewed: ${new Date().toISOString()} (nothing was sent)`);
+  return lines.join('\n');
 }
 
 export default TransactionExecutor;
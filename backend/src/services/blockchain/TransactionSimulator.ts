@@ -0,0 +1,190 @@
+import {
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  formatGwei,
+  parseEther,
+  type Address,
+  type Hex
+} from 'viem';
+import type SomniaWalletService from './SomniaWalletService';
+import type { TransactionResult } from './SomniaWalletService';
+
+/**
+ * One transaction a dry run would have sent
+ */
+export interface SimulatedCall {
+  label: string;                // e.g. "Approve router", "Swap", "Transfer to 0x…"
+  to: Address;
+  value: bigint;
+  status: 'ok' | 'reverted' | 'skipped';
+  gasEstimate?: bigint;
+  revertReason?: string;
+  note?: string;
+}
+
+/**
+ * Everything a dry run found out without broadcasting or writing
+ */
+export interface DryRunReport {
+  calls: SimulatedCall[];
+  gasPrice: bigint;
+  estimatedFee: bigint;         // Sum of gasEstimate × gasPrice over simulated calls, in wei
+  streamRecords: number;        // Data Streams records that would be written
+  streamBytes: number;          // Their encoded size
+}
+
+/**
+ * The SomniaWalletService methods TransactionExecutor sends through
+ * (label names the call in dry run reports; the wallet ignores it)
+ */
+export interface TransactionSender {
+  sendTransaction(calendarId: string, to: Address, amount: string): Promise<TransactionResult>;
+  sendToken(calendarId: string, token: Address, to: Address, amount: bigint): Promise<TransactionResult>;
+  sendContractTransaction(calendarId: string, to: Address, data: Hex, value?: bigint, label?: string): Promise<TransactionResult>;
+  ensureAllowance(calendarId: string, token: Address, spender: Address, amount: bigint): Promise<TransactionResult>;
+}
+
+/**
+ * Stand-in for SomniaWalletService's send methods during a dry run.
+ * Each call runs the same balance checks, is simulated with eth_call and gas-estimated,
+ * and is recorded instead of sent.
+ */
+export class TransactionSimulator implements TransactionSender {
+  private walletService: SomniaWalletService;
+  private calls: SimulatedCall[] = [];
+  private pendingApprovals: Set<string> = new Set();
+  private streamRecords = 0;
+  private streamBytes = 0;
+
+  constructor(walletService: SomniaWalletService) {
+    this.walletService = walletService;
+  }
+
+  async sendTransaction(calendarId: string, to: Address, amount: string): Promise<TransactionResult> {
+    const value = parseEther(amount);
+    if (!(await this.walletService.hasSufficientBalance(calendarId, value))) {
+      return { success: false, error: 'Insufficient balance for transaction' };
+    }
+    return this.simulate(calendarId, `Send ${amount} STT to ${to}`, to, value);
+  }
+
+  async sendToken(calendarId: string, token: Address, to: Address, amount: bigint): Promise<TransactionResult> {
+    if ((await this.walletService.getTokenBalance(calendarId, token)) < amount) {
+      return { success: false, error: 'Insufficient token balance for transaction' };
+    }
+    return this.sendContractTransaction(
+      calendarId,
+      token,
+      encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] }),
+      BigInt(0),
+      `Token transfer to ${to}`
+    );
+  }
+
+  async sendContractTransaction(
+    calendarId: string,
+    to: Address,
+    data: Hex,
+    value: bigint = BigInt(0),
+    label: string = `Call ${to}`
+  ): Promise<TransactionResult> {
+    // Anything spending a token approved in this run would revert until the approval is mined
+    if (this.pendingApprovals.size > 0 && !this.pendingApprovals.has(to.toLowerCase())) {
+      this.calls.push({
+        label,
+        to,
+        value,
+        status: 'skipped',
+        note: 'not simulated: depends on the approval above being mined first',
+      });
+      return { success: true };
+    }
+    return this.simulate(calendarId, label, to, value, data);
+  }
+
+  async ensureAllowance(calendarId: string, token: Address, spender: Address, amount: bigint): Promise<TransactionResult> {
+    const allowance = await this.walletService.getPublicClient().readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [this.walletService.getWalletAddress(calendarId), spender],
+    });
+    if (allowance >= amount) {
+      return { success: true };
+    }
+
+    const result = await this.simulate(
+      calendarId,
+      `Approve ${spender} to spend ${token}`,
+      token,
+      BigInt(0),
+      encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] })
+    );
+    if (result.success) {
+      this.pendingApprovals.add(token.toLowerCase());
+    }
+    return result;
+  }
+
+  /**
+   * Count a Data Streams record that would have been written
+   */
+  recordStream(encoded: Hex): void {
+    this.streamRecords++;
+    this.streamBytes += (encoded.length - 2) / 2;
+  }
+
+  async report(): Promise<DryRunReport> {
+    const gasPrice = await this.walletService.getGasPrice();
+    const gasUsed = this.calls.reduce((sum, call) => sum + (call.gasEstimate ?? BigInt(0)), BigInt(0));
+    return {
+      calls: this.calls,
+      gasPrice,
+      estimatedFee: gasUsed * gasPrice,
+      streamRecords: this.streamRecords,
+      streamBytes: this.streamBytes,
+    };
+  }
+
+  private async simulate(
+    calendarId: string,
+    label: string,
+    to: Address,
+    value: bigint,
+    data?: Hex
+  ): Promise<TransactionResult> {
+    const simulation = await this.walletService.simulateTransaction(calendarId, to, value, data);
+    this.calls.push({
+      label,
+      to,
+      value,
+      status: simulation.success ? 'ok' : 'reverted',
+      gasEstimate: simulation.gasEstimate,
+      revertReason: simulation.error,
+    });
+
+    return simulation.success
+      ? { success: true }
+      : { success: false, error: `Simulation reverted: ${simulation.error}` };
+  }
+}
+
+/**
+ * Calendar description lines for a dry run report
+ */
+export function formatDryRunReport(report: DryRunReport): string {
+  const icons = { ok: '✅', reverted: '❌', skipped: '⏭️' };
+  const lines = report.calls.map((call) => {
+    const detail = call.status === 'ok'
+      ? `~${call.gasEstimate} gas`
+      : call.revertReason || call.note || '';
+    return `${icons[call.status]} ${call.label}${call.value > BigInt(0) ? ` (${formatEther(call.value)} STT)` : ''}: ${detail}`;
+  });
+
+  lines.push(`⛽ Estimated fee: ${formatEther(report.estimatedFee)} STT at ${formatGwei(report.gasPrice)} gwei`);
+  lines.push(`📊 Data Streams: ${report.streamRecords} record(s), ${report.streamBytes} bytes (not written)`);
+  return lines.join('\n');
+}
+
+export default TransactionSimulator;
@@ -0,0 +1,84 @@
+/**
+ * Amount that is only known at execution time
+ *
+ * fixed    "0.5"          exact token amount
+ * percent  "50%"          share of the spendable balance
+ * all      "all"          whole spendable balance
+ * fiat     "$100 of STT"  USD value converted with the price source
+ *
+ * reserve ("leaving 1 STT for gas") is held back from the balance before any of the above.
+ */
+export type AmountExpression =
+  | { kind: 'fixed'; value: string; reserve?: string }
+  | { kind: 'percent'; percent: number; reserve?: string }
+  | { kind: 'all'; reserve?: string }
+  | { kind: 'fiat'; usd: string; reserve?: string };
+
+/**
+ * Amount forms accepted in titles, as a single capture group
+ */
+export const AMOUNT_PATTERN = String.raw`(\$\d+(?:\.\d+)?\s+(?:worth\s+)?of|\d+(?:\.\d+)?\s*%(?:\s+of)?|all(?:\s+(?:of\s+)?my)?|\d+\.?\d*)`;
+
+/**
+ * "leaving 1 STT for gas" / "keeping 1 STT"
+ */
+export const RESERVE_PATTERN = /(?:leaving|keeping|keep)\s+(\d+(?:\.\d+)?)\s+([a-zA-Z]+)(?:\s+for\s+gas)?/i;
+
+/**
+ * Parse an amount as written in a title or ```epochi block
+ */
+export function parseAmountExpression(raw: string): AmountExpression | null {
+  const text = raw.trim().toLowerCase();
+
+  const fiat = text.match(/^\$(\d+(?:\.\d+)?)(?:\s+(?:worth\s+)?of)?$/);
+  if (fiat) {
+    return parseFloat(fiat[1]) > 0 ? { kind: 'fiat', usd: fiat[1] } : null;
+  }
+
+  const percent = text.match(/^(\d+(?:\.\d+)?)\s*%(?:\s+of)?$/);
+  if (percent) {
+    const value = parseFloat(percent[1]);
+    return value > 0 && value <= 100 ? { kind: 'percent', percent: value } : null;
+  }
+
+  if (/^all(?:\s+(?:of\s+)?my)?$/.test(text)) {
+    return { kind: 'all' };
+  }
+
+  const fixed = text.match(/^(\d+(?:\.\d+)?)$/);
+  if (fixed) {
+    return parseFloat(fixed[1]) > 0 ? { kind: 'fixed', value: fixed[1] } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Canonical short form stored in ParsedTransaction.amount ("0.5", "50%", "all", "$100")
+ */
+export function amountText(expression: AmountExpression): string {
+  switch (expression.kind) {
+    case 'fixed':
+      return expression.value;
+    case 'percent':
+      return `${expression.percent}%`;
+    case 'all':
+      return 'all';
+    case 'fiat':
+      return `$${expression.usd}`;
+  }
+}
+
+/**
+ * Human-readable amount, e.g. "50% of STT balance (keeping 1 STT)"
+ */
+export function describeAmount(expression: AmountExpression, token: string): string {
+  const base = {
+    fixed: () => `${amountText(expression)} ${token}`,
+    percent: () => `${amountText(expression)} of ${token} balance`,
+    all: () => `all ${token}`,
+    fiat: () => `${amountText(expression)} of ${token}`,
+  }[expression.kind]();
+
+  return expression.reserve ? `${base} (keeping ${expression.reserve} ${token})` : base;
+}
@@ -1,14 +1,66 @@
 import { google, calendar_v3 } from 'googleapis';
 import { OAuth2Client, Credentials } from 'google-auth-library';
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { Logger } from 'winston';
+import { timeZoneResolver } from './TimeZoneResolver';
 
 export interface CalendarServiceOptions {
   tokensFilePath?: string;
   logger?: Logger;
+  apiRootUrl?: string;          // Calendar API base URL (a fake server in tests); Google's by default
 }
 
+/**
+ * Change to a calendar event reported by a sync
+ */
+export interface CalendarEventDelta {
+  type: 'created' | 'updated' | 'cancelled';
+  event: calendar_v3.Schema$Event;
+}
+
+/**
+ * Sync position for one calendar, persisted between checks
+ */
+export interface CalendarSyncState {
+  syncToken: string | null;     // Google nextSyncToken from the last sync
+  lastSyncedAt: Date | null;    // Used with updatedMin when Google issued no sync token
+}
+
+export interface CalendarSyncResult {
+  deltas: CalendarEventDelta[];
+  state: CalendarSyncState;
+  fullSync: boolean;
+}
+
+/**
+ * Push notification channel registered with events.watch
+ */
+export interface CalendarWatchChannel {
+  id: string;
+  resourceId: string;
+  calendarId: string;
+  token: string;
+  expiration: Date;
+}
+
+/**
+ * Headers Google sends with each push notification
+ */
+export interface CalendarNotification {
+  channelId?: string;
+  channelToken?: string;
+  resourceId?: string;
+  resourceState?: string;   // sync | exists | not_exists
+}
+
+export type CalendarNotificationResult = 'accepted' | 'sync' | 'unknown-channel' | 'invalid-token';
+
+const SYNC_PAGE_SIZE = 250;
+const CHANNEL_TTL_SECONDS = parseInt(process.env.CALENDAR_WATCH_TTL || '86400', 10);
+const CHANNEL_RENEW_MARGIN_MS = 10 * 60 * 1000;
+
 const DEFAULT_SCOPES = [
   'https://www.googleapis.com/auth/calendar',
   'https://www.googleapis.com/auth/calendar.events'
@@ -21,8 +73,12 @@ export class CalendarService {
   private oauth2Client: OAuth2Client;
   private calendar: calendar_v3.Calendar | null = null;
   private tokensPath: string;
+  private apiRootUrl?: string;
   private isAuthenticated = false;
   private logger?: Logger;
+  private channels: Map<string, CalendarWatchChannel> = new Map();
+  private changeListeners: Map<string, (calendarId: string) => void> = new Map();
+  private renewTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(options: CalendarServiceOptions = {}) {
     if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET || !process.env.GOOGLE_REDIRECT_URI) {
@@ -48,6 +104,7 @@ export class CalendarService {
       path.join(process.cwd(), 'tokens', 'calendar.tokens.json');
 
     this.logger = options.logger;
+    this.apiRootUrl = options.apiRootUrl;
 
     this.initFromStoredTokens().catch(() => {
       this.logger?.info('No existing calendar tokens found. Authentication required.');
@@ -95,7 +152,7 @@ export class CalendarService {
 
   private async setAndPersistTokens(tokens: Credentials, persist = true): Promise<void> {
     this.oauth2Client.setCredentials(tokens);
-    this.calendar = google.calendar({ version: 'v3', auth: this.oauth2Client });
+    this.calendar = google.calendar({ version: 'v3', auth: this.oauth2Client, rootUrl: this.apiRootUrl });
     this.isAuthenticated = true;
 
     if (persist) {
@@ -120,13 +177,15 @@ export class CalendarService {
   async getEvents(maxResults = 50, timeMin?: Date): Promise<calendar_v3.Schema$Event[]> {
     this.ensureCalendar();
     try {
+      const calendarId = process.env.CALENDAR_ID || 'primary';
       const response = await this.calendar!.events.list({
-        calendarId: process.env.CALENDAR_ID || 'primary',
+        calendarId,
         timeMin: (timeMin ?? new Date()).toISOString(),
         maxResults,
         singleEvents: true,
         orderBy: 'startTime'
       });
+      timeZoneResolver.rememberCalendarZone(calendarId, response.data.timeZone);
       return response.data.items ?? [];
     } catch (error) {
       this.logger?.error('Error fetching calendar events', { error });
@@ -137,13 +196,15 @@ export class CalendarService {
   async getEventsBetween(startTime: Date, endTime: Date): Promise<calendar_v3.Schema$Event[]> {
     this.ensureCalendar();
     try {
+      const calendarId = process.env.CALENDAR_ID || 'primary';
       const response = await this.calendar!.events.list({
-        calendarId: process.env.CALENDAR_ID || 'primary',
+        calendarId,
         timeMin: startTime.toISOString(),
         timeMax: endTime.toISOString(),
         singleEvents: true,
         orderBy: 'startTime'
       });
+      timeZoneResolver.rememberCalendarZone(calendarId, response.data.timeZone);
       return response.data.items ?? [];
     } catch (error) {
       this.logger?.error('Error fetching events in range', { error });
@@ -151,6 +212,218 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Returns events changed since the given sync state.
+   * Uses the sync token when there is one and updatedMin otherwise; runs a full sync of
+   * upcoming events on first use or when Google has expired the position (410 Gone).
+   */
+  async syncEvents(
+    state: CalendarSyncState | null,
+    calendarId: string = process.env.CALENDAR_ID || 'primary'
+  ): Promise<CalendarSyncResult> {
+    this.ensureCalendar();
+    const startedAt = new Date();
+
+    try {
+      if (state?.syncToken) {
+        return await this.listChanges(calendarId, { syncToken: state.syncToken }, startedAt, false);
+      }
+      if (state?.lastSyncedAt) {
+        return await this.listChanges(
+          calendarId,
+          { updatedMin: state.lastSyncedAt.toISOString(), showDeleted: true },
+          startedAt,
+          false
+        );
+      }
+    } catch (error: any) {
+      if (!isGone(error)) {
+        this.logger?.error('Error syncing calendar events', { error });
+        throw new Error('Failed to sync calendar events');
+      }
+      this.logger?.warn('Calendar sync position expired, running full resync', { calendarId });
+    }
+
+    try {
+      return await this.listChanges(calendarId, { timeMin: startedAt.toISOString() }, startedAt, true);
+    } catch (error) {
+      this.logger?.error('Error running full calendar sync', { error });
+      throw new Error('Failed to sync calendar events');
+    }
+  }
+
+  /**
+   * Pages through events.list and classifies each event as a delta
+   */
+  private async listChanges(
+    calendarId: string,
+    params: calendar_v3.Params$Resource$Events$List,
+    startedAt: Date,
+    fullSync: boolean
+  ): Promise<CalendarSyncResult> {
+    const deltas: CalendarEventDelta[] = [];
+    let pageToken: string | undefined;
+    let syncToken: string | null = null;
+
+    do {
+      const response = await this.calendar!.events.list({
+        ...params,
+        calendarId,
+        singleEvents: true,
+        maxResults: SYNC_PAGE_SIZE,
+        pageToken
+      });
+
+      timeZoneResolver.rememberCalendarZone(calendarId, response.data.timeZone);
+      for (const event of response.data.items ?? []) {
+        deltas.push({ type: classifyChange(event, fullSync), event });
+      }
+
+      pageToken = response.data.nextPageToken ?? undefined;
+      syncToken = response.data.nextSyncToken ?? syncToken;
+    } while (pageToken);
+
+    return {
+      deltas,
+      state: { syncToken, lastSyncedAt: startedAt },
+      fullSync
+    };
+  }
+
+  /**
+   * Registers a push channel for a calendar and keeps it renewed until unwatchCalendar.
+   * Returns null when CALENDAR_WEBHOOK_URL is not configured (polling only).
+   */
+  async watchCalendar(
+    calendarId: string,
+    onChange: (calendarId: string) => void
+  ): Promise<CalendarWatchChannel | null> {
+    this.ensureCalendar();
+    const address = process.env.CALENDAR_WEBHOOK_URL;
+    if (!address) {
+      return null;
+    }
+
+    this.changeListeners.set(calendarId, onChange);
+
+    try {
+      const response = await this.calendar!.events.watch({
+        calendarId,
+        requestBody: {
+          id: crypto.randomUUID(),
+          type: 'web_hook',
+          address,
+          token: crypto.randomBytes(32).toString('hex'),
+          params: { ttl: String(CHANNEL_TTL_SECONDS) }
+        }
+      });
+
+      const channel: CalendarWatchChannel = {
+        id: response.data.id!,
+        resourceId: response.data.resourceId!,
+        calendarId,
+        token: response.data.token!,
+        expiration: new Date(Number(response.data.expiration))
+      };
+      this.channels.set(channel.id, channel);
+      this.scheduleRenewal(channel);
+
+      this.logger?.info('Registered calendar push channel', {
+        calendarId,
+        channelId: channel.id,
+        expiration: channel.expiration.toISOString()
+      });
+      return channel;
+    } catch (error) {
+      this.changeListeners.delete(calendarId);
+      this.logger?.error('Error registering calendar push channel', { error });
+      throw new Error('Failed to register calendar push channel');
+    }
+  }
+
+  /**
+   * Stops all push channels for a calendar
+   */
+  async unwatchCalendar(calendarId: string): Promise<void> {
+    this.changeListeners.delete(calendarId);
+
+    const timer = this.renewTimers.get(calendarId);
+    if (timer) {
+      clearTimeout(timer);
+      this.renewTimers.delete(calendarId);
+    }
+
+    for (const channel of Array.from(this.channels.values())) {
+      if (channel.calendarId === calendarId) {
+        await this.stopChannel(channel);
+      }
+    }
+  }
+
+  /**
+   * Validates a push notification and notifies the calendar's listener
+   */
+  handleNotification(notification: CalendarNotification): CalendarNotificationResult {
+    const channel = notification.channelId ? this.channels.get(notification.channelId) : undefined;
+    if (!channel || (notification.resourceId && notification.resourceId !== channel.resourceId)) {
+      return 'unknown-channel';
+    }
+
+    if (!tokensMatch(channel.token, notification.channelToken)) {
+      return 'invalid-token';
+    }
+
+    // First message after registration carries no change
+    if (notification.resourceState === 'sync') {
+      return 'sync';
+    }
+
+    this.changeListeners.get(channel.calendarId)?.(channel.calendarId);
+    return 'accepted';
+  }
+
+  /**
+   * Replaces the channel shortly before it expires; the old one is stopped after the new one is live
+   */
+  private scheduleRenewal(channel: CalendarWatchChannel): void {
+    const existing = this.renewTimers.get(channel.calendarId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const delay = Math.max(channel.expiration.getTime() - Date.now() - CHANNEL_RENEW_MARGIN_MS, 0);
+    const timer = setTimeout(async () => {
+      this.renewTimers.delete(channel.calendarId);
+      const onChange = this.changeListeners.get(channel.calendarId);
+      if (!onChange) return;
+
+      try {
+        await this.watchCalendar(channel.calendarId, onChange);
+        await this.stopChannel(channel);
+        this.logger?.info('Renewed calendar push channel', { calendarId: channel.calendarId });
+      } catch (error) {
+        // Polling still covers the calendar; try again on the next window
+        this.logger?.error('Error renewing calendar push channel', { error });
+        this.scheduleRenewal({ ...channel, expiration: new Date(Date.now() + 2 * CHANNEL_RENEW_MARGIN_MS) });
+      }
+    }, Math.min(delay, 2 ** 31 - 1));
+
+    this.renewTimers.set(channel.calendarId, timer);
+  }
+
+  private async stopChannel(channel: CalendarWatchChannel): Promise<void> {
+    this.channels.delete(channel.id);
+    try {
+      await this.calendar?.channels.stop({
+        requestBody: { id: channel.id, resourceId: channel.resourceId }
+      });
+      this.logger?.info('Stopped calendar push channel', { channelId: channel.id });
+    } catch (error) {
+      // Expired channels can't be stopped; they lapse on their own
+      this.logger?.warn('Error stopping calendar push channel', { error, channelId: channel.id });
+    }
+  }
+
   async createEvent(
     summary: string,
     startTime: Date,
@@ -159,21 +432,23 @@ export class CalendarService {
   ): Promise<calendar_v3.Schema$Event> {
     this.ensureCalendar();
     try {
+      const calendarId = process.env.CALENDAR_ID || 'primary';
+      const { timeZone } = timeZoneResolver.forCalendar(calendarId);
       const event: calendar_v3.Schema$Event = {
         summary,
         description: description ?? `Created by Epochi at ${new Date().toISOString()}`,
         start: {
           dateTime: startTime.toISOString(),
-          timeZone: process.env.CALENDAR_TIMEZONE ?? 'UTC'
+          timeZone
         },
         end: {
           dateTime: endTime.toISOString(),
-          timeZone: process.env.CALENDAR_TIMEZONE ?? 'UTC'
+          timeZone
         }
       };
 
       const response = await this.calendar!.events.insert({
-        calendarId: process.env.CALENDAR_ID || 'primary',
+        calendarId,
         requestBody: event
       });
       this.logger?.info('Created calendar event', { eventId: response.data.id, summary });
@@ -239,6 +514,30 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Replaces the description block that starts with `header`, or appends it.
+   * Blocks are separated by blank lines; a null block removes it.
+   */
+  async upsertDescriptionBlock(eventId: string, header: string, block: string | null): Promise<void> {
+    this.ensureCalendar();
+    try {
+      const event = await this.calendar!.events.get({
+        calendarId: process.env.CALENDAR_ID || 'primary',
+        eventId
+      });
+      const blocks = (event.data.description ?? '')
+        .split(/\n\s*\n/)
+        .filter((existing) => existing.trim() && !existing.trim().startsWith(header));
+      if (block) {
+        blocks.push(block);
+      }
+      await this.updateEvent(eventId, { description: blocks.join('\n\n') });
+    } catch (error) {
+      this.logger?.error('Error updating event description block', { error });
+      throw new Error('Failed to update event description block');
+    }
+  }
+
   private ensureCalendar(): void {
     if (!this.calendar) {
       throw new Error('Calendar not initialized. Please authenticate first.');
@@ -246,6 +545,32 @@ export class CalendarService {
   }
 }
 
+function tokensMatch(expected: string, actual?: string): boolean {
+  if (!actual) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Google answers 410 Gone when a sync token or updatedMin is too old
+ */
+function isGone(error: any): boolean {
+  return error?.response?.status === 410 || Number(error?.code) === 410;
+}
+
+/**
+ * A full sync only sees live events; incremental results tell new and edited
+ * events apart by whether they were modified after creation
+ */
+function classifyChange(event: calendar_v3.Schema$Event, fullSync: boolean): CalendarEventDelta['type'] {
+  if (event.status === 'cancelled') return 'cancelled';
+  if (fullSync || !event.created || !event.updated) return 'created';
+
+  const editedAfterCreation = Date.parse(event.updated) - Date.parse(event.created) > 1000;
+  return editedAfterCreation ? 'updated' : 'created';
+}
+
 export default CalendarService;
 
 
@@ -1,4 +1,35 @@
 import { calendar_v3 } from 'googleapis';
+import { formatUnits, parseUnits } from 'viem';
+import { tokenRegistry } from '../blockchain/TokenRegistry';
+import { addressBook, CONTACT_REFERENCE_PATTERN } from '../blockchain/AddressBook';
+import {
+  descriptionToText,
+  formatIntentBlockErrors,
+  parseIntentBlock,
+  type IntentBlockError,
+  type IntentBlockResult,
+  type IntentCondition
+} from './IntentBlock';
+import {
+  AMOUNT_PATTERN,
+  RESERVE_PATTERN,
+  amountText,
+  describeAmount,
+  parseAmountExpression,
+  type AmountExpression
+} from './AmountExpression';
+import { splitConditionClause } from './ExecutionCondition';
+import { resolveExecutionWindow, windowEndOf } from './EventWindow';
+import { timeZoneResolver } from './TimeZoneResolver';
+
+/**
+ * One leg of a batch transfer; the batch amount is divided in proportion to share
+ */
+export interface RecipientShare {
+  address: string;
+  name?: string;              // Address book contact, if referenced as @name
+  share: string;              // Weight ("alice:60") or explicit amount (payroll table, block amounts)
+}
 
 /**
  * Parsed transaction intent from calendar event
@@ -8,26 +39,94 @@ export interface ParsedTransaction {
   type: 'swap' | 'transfer' | 'unknown';
   fromToken: string;
   toToken: string;
-  amount: string;
+  recipientName?: string;     // Address book contact a transfer was addressed to ("@alice" → "alice")
+  recipients?: RecipientShare[]; // Batch transfer legs (toToken is the first leg's address)
+  amount: string;             // Fixed amount, or the short form of amountExpression ("50%", "all", "$100")
+  amountExpression?: AmountExpression; // Resolved against the wallet balance at execution time
   executionTime: Date;
+  endTime?: Date;             // End of the execution window; retries and condition checks stop here
+  allDay?: boolean;           // All-day event (runs at ALL_DAY_EXECUTION_TIME on its first day)
+  timeZone?: string;          // IANA zone the event's wall-clock times were read in
   eventId: string;
   eventTitle: string;
+  maxSlippageBps?: number;    // Swap slippage tolerance, e.g. "max slippage 0.5%" → 50
+  originalStartTime?: string; // Google originalStartTime (recurring instances only)
+  recurringEventId?: string;  // Series (master event) ID for recurring instances
+  memo?: string;
+  gasCapGwei?: number;        // Refuse to execute above this gas price
+  conditions?: IntentCondition[]; // All must hold at execution time ("if STT > 0.5 USD")
+  source?: 'title' | 'block'; // Where the intent came from (```epochi block wins over the title)
+  approvalTagged?: boolean;   // Title carries the approval tag ("#approved" / "[approved]"), stripped before parsing
+  blockErrors?: IntentBlockError[];
   error?: string;
 }
 
+/**
+ * Upper bound accepted for a user-specified slippage (50%)
+ */
+const MAX_SLIPPAGE_BPS = 5000;
+
+const SWAP_PATTERNS = [
+  new RegExp(String.raw`swap\s+${AMOUNT_PATTERN}\s+([a-zA-Z]+)\s+(to|for|->)\s+([a-zA-Z]+)`, 'i'),
+  new RegExp(String.raw`${AMOUNT_PATTERN}\s+([a-zA-Z]+)\s+->\s+([a-zA-Z]+)`, 'i'),
+  /(\d+\.?\d*)\s+([a-zA-Z]+)\s+to\s+([a-zA-Z]+)(?!\s+0x)/i, // Don't match if followed by 0x address
+];
+
+const TRANSFER_PATTERN = new RegExp(
+  String.raw`(send|transfer)\s+${AMOUNT_PATTERN}\s+(\w+)\s+to\s+(0x[a-fA-F0-9]{40}|${CONTACT_REFERENCE_PATTERN})`,
+  'i'
+);
+
+/**
+ * "Pay 100 USDC split alice:60 bob:40"
+ */
+const SPLIT_PATTERN = new RegExp(
+  String.raw`(pay|send|transfer)\s+${AMOUNT_PATTERN}\s+(\w+)\s+split\s+(.+)$`,
+  'i'
+);
+
+const SPLIT_LEG_PATTERN = new RegExp(
+  String.raw`(0x[a-fA-F0-9]{40}|@?${CONTACT_REFERENCE_PATTERN.slice(1)})\s*:\s*(\d+(?:\.\d+)?)`,
+  'g'
+);
+
+/**
+ * "Payroll USDC" / "Pay USDC" with a recipient table in the description
+ */
+const PAYROLL_PATTERN = /\b(payroll|pay)\s+(?:in\s+)?([a-zA-Z]+)\s*$/i;
+
+/**
+ * "#approved" / "[approved]" anywhere in the title: the owner approves an intent above the threshold
+ */
+const APPROVAL_TAG_PATTERN = /\s*(?:#approved\b|\[approved\])/gi;
+
+/**
+ * Upper bound on legs in one batch transfer
+ */
+const MAX_BATCH_RECIPIENTS = 50;
+
 /**
  * EventParser extracts transaction intents from calendar event titles
+ * or from an ```epochi block in the description
  */
 export class EventParser {
   /**
    * Parse a calendar event for transaction intent
+   * @name recipients are resolved through the address book of calendarId, and times without
+   * an explicit zone are read in the calendar's zone (see TimeZoneResolver)
    */
-  static parseEvent(event: calendar_v3.Schema$Event): ParsedTransaction {
+  static parseEvent(
+    taggedEvent: calendar_v3.Schema$Event,
+    calendarId: string = process.env.CALENDAR_ID || 'primary'
+  ): ParsedTransaction {
+    const summary = taggedEvent.summary || '';
+    const event = { ...taggedEvent, summary: summary.replace(APPROVAL_TAG_PATTERN, '').trim() };
     const eventId = event.id || '';
     const eventTitle = event.summary || '';
-    const startTime = event.start?.dateTime || event.start?.date;
+    const { timeZone } = timeZoneResolver.forEvent(event, calendarId);
+    const window = resolveExecutionWindow(event, timeZone);
 
-    if (!startTime) {
+    if (!window) {
       return {
         valid: false,
         type: 'unknown',
@@ -41,16 +140,79 @@ export class EventParser {
       };
     }
 
-    const executionTime = new Date(startTime);
+    const executionTime = window.start;
+    const block = parseIntentBlock(event.description);
+    const parsed = block.found
+      ? this.parseBlock(event, block, executionTime, calendarId)
+      : { ...this.parseTitleWithConditions(event, executionTime, calendarId), source: 'title' as const };
+
+    return {
+      ...parsed,
+      endTime: window.end,
+      allDay: window.allDay || undefined,
+      timeZone,
+      approvalTagged: event.summary !== summary.trim() || undefined,
+      originalStartTime: event.originalStartTime?.dateTime || event.originalStartTime?.date || undefined,
+      recurringEventId: event.recurringEventId || undefined
+    };
+  }
+
+  /**
+   * Parse a title that may end in a condition clause ("... if STT > 0.5 USD")
+   */
+  private static parseTitleWithConditions(
+    event: calendar_v3.Schema$Event,
+    executionTime: Date,
+    calendarId: string
+  ): ParsedTransaction {
+    const clause = splitConditionClause(event.summary || '');
+    const parsed = this.parseTitle({ ...event, summary: clause.title }, executionTime, calendarId);
+
+    return this.applyConditions(
+      { ...parsed, eventTitle: event.summary || '' },
+      clause.conditions,
+      clause.error
+    );
+  }
+
+  /**
+   * Parse the transaction intent from the event title
+   */
+  private static parseTitle(
+    event: calendar_v3.Schema$Event,
+    executionTime: Date,
+    calendarId: string
+  ): ParsedTransaction {
+    const eventId = event.id || '';
+    const eventTitle = event.summary || '';
+
+    // Split payouts before plain transfers ("Pay 100 USDC split alice:60 bob:40")
+    if (SPLIT_PATTERN.test(eventTitle)) {
+      const parsed = this.parseSplitEvent(eventTitle, executionTime, eventId, calendarId);
+      return this.applyAmount(parsed, eventTitle.match(RESERVE_PATTERN));
+    }
 
     // Check if title contains transfer pattern FIRST (more specific)
     if (this.isTransferPattern(eventTitle)) {
-      return this.parseTransferEvent(eventTitle, executionTime, eventId);
+      const parsed = this.parseTransferEvent(eventTitle, executionTime, eventId, calendarId);
+      return this.applyAmount(parsed, eventTitle.match(RESERVE_PATTERN));
+    }
+
+    // Payroll: recipients and amounts come from a table in the description
+    const payroll = eventTitle.match(PAYROLL_PATTERN);
+    const table = this.parseRecipientTable(event.description || '');
+    if (payroll && (table.length > 0 || payroll[1].toLowerCase() === 'payroll')) {
+      return this.parsePayrollEvent(eventTitle, payroll[2], table, executionTime, eventId, calendarId);
     }
 
     // Check if title contains swap pattern
     if (this.isSwapPattern(eventTitle)) {
-      return this.parseSwapEvent(eventTitle, executionTime, eventId);
+      const parsed = this.parseSwapEvent(eventTitle, executionTime, eventId);
+      return this.applySlippage(
+        this.applyAmount(parsed, eventTitle.match(RESERVE_PATTERN)),
+        eventTitle,
+        event.description || ''
+      );
     }
 
     return {
@@ -66,14 +228,141 @@ export class EventParser {
     };
   }
 
+  /**
+   * Build the intent from a structured ```epochi description block
+   */
+  private static parseBlock(
+    event: calendar_v3.Schema$Event,
+    result: Extract<IntentBlockResult, { found: true }>,
+    executionTime: Date,
+    calendarId: string
+  ): ParsedTransaction {
+    const eventId = event.id || '';
+    const eventTitle = event.summary || '';
+
+    if (!result.block) {
+      return {
+        valid: false,
+        type: 'unknown',
+        fromToken: '',
+        toToken: '',
+        amount: '',
+        executionTime,
+        eventId,
+        eventTitle,
+        source: 'block',
+        blockErrors: result.errors,
+        error: `Invalid epochi block: ${formatIntentBlockErrors(result.errors)}`
+      };
+    }
+
+    const block = result.block;
+    const fromToken = this.resolveSymbol(block.token);
+    let toToken: string;
+    let recipientName: string | undefined;
+    let recipients: RecipientShare[] | undefined;
+    let error = fromToken.error;
+
+    if (block.type === 'swap') {
+      const out = this.resolveSymbol(block.to!);
+      toToken = out.symbol;
+      error = error || out.error;
+    } else {
+      const entries = block.recipients ?? [{ address: block.recipient!, amount: undefined }];
+      const explicit = entries.filter((entry) => entry.amount !== undefined);
+
+      // Recipient amounts are exact and must add up to the block amount; otherwise split equally
+      if (explicit.length > 0 && explicit.length < entries.length) {
+        error = error || 'Either every recipient has an amount or none does';
+      } else if (explicit.length > 0) {
+        const total = this.sumAmounts(explicit.map((entry) => entry.amount!), fromToken.symbol);
+        const decimals = this.decimalsOf(fromToken.symbol);
+        if (!/^\d+(\.\d+)?$/.test(block.amount) || parseUnits(block.amount, decimals) !== parseUnits(total, decimals)) {
+          error = error || `amount must equal the sum of recipient amounts (${total})`;
+        }
+      }
+
+      const batch = this.resolveRecipients(
+        entries.map((entry) => ({ reference: entry.address, share: entry.amount ?? '1' })),
+        calendarId
+      );
+      toToken = batch.toToken; // For transfers, toToken stores recipient address
+      recipientName = batch.recipientName;
+      recipients = batch.recipients;
+      error = error || batch.error;
+    }
+
+    let maxSlippageBps: number | undefined;
+    if (block.slippage !== undefined) {
+      maxSlippageBps = Math.round(block.slippage * 100);
+      if (maxSlippageBps <= 0 || maxSlippageBps > MAX_SLIPPAGE_BPS) {
+        error = error || `Slippage must be between 0.01% and ${MAX_SLIPPAGE_BPS / 100}%`;
+      }
+    }
+
+    const parsed = this.applyAmount({
+      valid: !error,
+      type: block.type,
+      fromToken: fromToken.symbol,
+      toToken,
+      recipientName,
+      recipients,
+      amount: block.amount,
+      executionTime,
+      eventId,
+      eventTitle,
+      maxSlippageBps,
+      memo: block.memo,
+      gasCapGwei: block.gasCap,
+      source: 'block',
+      error
+    }, block.reserve ? ['', block.reserve, block.token] : null);
+
+    return this.applyConditions(parsed, block.conditions ?? []);
+  }
+
+  /**
+   * Attach execution conditions; balance conditions default to the token being sent
+   */
+  private static applyConditions(
+    parsed: ParsedTransaction,
+    conditions: IntentCondition[],
+    clauseError?: string
+  ): ParsedTransaction {
+    if (!parsed.valid) return parsed;
+    if (clauseError) {
+      return { ...parsed, valid: false, error: clauseError };
+    }
+    if (conditions.length === 0) return parsed;
+
+    const resolved: IntentCondition[] = [];
+    for (const condition of conditions) {
+      if (!/^\d+(\.\d+)?$/.test(condition.value)) {
+        return { ...parsed, valid: false, error: `Condition value must be a number: ${condition.value}` };
+      }
+      if (condition.type === 'gas') {
+        resolved.push(condition);
+        continue;
+      }
+
+      const token = this.resolveSymbol(condition.token || parsed.fromToken);
+      if (token.error) {
+        return { ...parsed, valid: false, error: token.error };
+      }
+      resolved.push({ ...condition, token: token.symbol });
+    }
+
+    return { ...parsed, conditions: resolved };
+  }
+
   /**
    * Check if event title matches swap pattern
    * Patterns: "Swap 0.1 ETH to USDC", "swap 1 ETH for USDC", "0.1 ETH -> USDC"
    */
   private static isSwapPattern(title: string): boolean {
     const patterns = [
-      /swap\s+(\d+\.?\d*)\s+(\w+)\s+(to|for|->)\s+(\w+)/i,
-      /(\d+\.?\d*)\s+(\w+)\s+->\s+(\w+)/i,
+      new RegExp(String.raw`swap\s+${AMOUNT_PATTERN}\s+(\w+)\s+(to|for|->)\s+(\w+)`, 'i'),
+      new RegExp(String.raw`${AMOUNT_PATTERN}\s+(\w+)\s+->\s+(\w+)`, 'i'),
       /(\d+\.?\d*)\s+(\w+)\s+to\s+(\w+)/i,
     ];
 
@@ -82,11 +371,10 @@ export class EventParser {
 
   /**
    * Check if event title matches transfer pattern
-   * Patterns: "Send 0.1 ETH to 0x123...", "Transfer 100 USDC to 0xabc..."
+   * Patterns: "Send 0.1 ETH to 0x123...", "Transfer 100 USDC to 0xabc...", "Send 50% STT to 0x..."
    */
   private static isTransferPattern(title: string): boolean {
-    const pattern = /(send|transfer)\s+(\d+\.?\d*)\s+(\w+)\s+to\s+(0x[a-fA-F0-9]{40})/i;
-    return pattern.test(title);
+    return TRANSFER_PATTERN.test(title);
   }
 
   /**
@@ -98,28 +386,24 @@ export class EventParser {
     eventId: string
   ): ParsedTransaction {
     // Try different swap patterns (only match token symbols, not addresses)
-    const patterns = [
-      /swap\s+(\d+\.?\d*)\s+([a-zA-Z]+)\s+(to|for|->)\s+([a-zA-Z]+)/i,
-      /(\d+\.?\d*)\s+([a-zA-Z]+)\s+->\s+([a-zA-Z]+)/i,
-      /(\d+\.?\d*)\s+([a-zA-Z]+)\s+to\s+([a-zA-Z]+)(?!\s+0x)/i, // Don't match if followed by 0x address
-    ];
-
-    for (const pattern of patterns) {
+    for (const pattern of SWAP_PATTERNS) {
       const match = title.match(pattern);
       if (match) {
         const amount = match[1];
-        const fromToken = match[2].toUpperCase();
-        const toToken = match[match.length - 1].toUpperCase();
+        const fromToken = this.resolveSymbol(match[2]);
+        const toToken = this.resolveSymbol(match[match.length - 1]);
+        const error = fromToken.error || toToken.error;
 
         return {
-          valid: true,
+          valid: !error,
           type: 'swap',
-          fromToken,
-          toToken,
+          fromToken: fromToken.symbol,
+          toToken: toToken.symbol,
           amount,
           executionTime,
           eventId,
-          eventTitle: title
+          eventTitle: title,
+          error
         };
       }
     }
@@ -143,25 +427,28 @@ export class EventParser {
   private static parseTransferEvent(
     title: string,
     executionTime: Date,
-    eventId: string
+    eventId: string,
+    calendarId: string
   ): ParsedTransaction {
-    const pattern = /(send|transfer)\s+(\d+\.?\d*)\s+(\w+)\s+to\s+(0x[a-fA-F0-9]{40})/i;
-    const match = title.match(pattern);
+    const match = title.match(TRANSFER_PATTERN);
 
     if (match) {
       const amount = match[2];
-      const token = match[3].toUpperCase();
-      const toAddress = match[4];
+      const token = this.resolveSymbol(match[3]);
+      const recipient = this.resolveRecipient(match[4], calendarId);
+      const error = token.error || recipient.error;
 
       return {
-        valid: true,
+        valid: !error,
         type: 'transfer',
-        fromToken: token,
-        toToken: toAddress, // For transfers, toToken stores recipient address
+        fromToken: token.symbol,
+        toToken: recipient.address, // For transfers, toToken stores recipient address
+        recipientName: recipient.name,
         amount,
         executionTime,
         eventId,
-        eventTitle: title
+        eventTitle: title,
+        error
       };
     }
 
@@ -178,15 +465,246 @@ export class EventParser {
     };
   }
 
+  /**
+   * Parse "Pay 100 USDC split alice:60 bob:40" (names without @ are contacts too)
+   */
+  private static parseSplitEvent(
+    title: string,
+    executionTime: Date,
+    eventId: string,
+    calendarId: string
+  ): ParsedTransaction {
+    const match = title.match(SPLIT_PATTERN)!;
+    const token = this.resolveSymbol(match[3]);
+    const legs = Array.from(match[4].matchAll(SPLIT_LEG_PATTERN)).map((leg) => ({
+      reference: leg[1].startsWith('0x') ? leg[1] : `@${leg[1].replace(/^@/, '')}`,
+      share: leg[leg.length - 1],
+    }));
+
+    const batch = this.resolveRecipients(legs, calendarId);
+    const error = token.error || batch.error;
+
+    return {
+      valid: !error,
+      type: 'transfer',
+      fromToken: token.symbol,
+      toToken: batch.toToken,
+      recipientName: batch.recipientName,
+      recipients: batch.recipients,
+      amount: match[2],
+      executionTime,
+      eventId,
+      eventTitle: title,
+      error
+    };
+  }
+
+  /**
+   * Parse a payroll event: the total is the sum of the description table
+   */
+  private static parsePayrollEvent(
+    title: string,
+    symbol: string,
+    table: { reference: string; share: string }[],
+    executionTime: Date,
+    eventId: string,
+    calendarId: string
+  ): ParsedTransaction {
+    const token = this.resolveSymbol(symbol);
+    const batch = this.resolveRecipients(table, calendarId);
+    const error = token.error ||
+      (table.length === 0 ? 'Payroll events need a recipient table in the description, e.g. "| @alice | 60 |"' : batch.error);
+
+    return {
+      valid: !error,
+      type: 'transfer',
+      fromToken: token.symbol,
+      toToken: batch.toToken,
+      recipientName: batch.recipientName,
+      recipients: batch.recipients,
+      amount: table.length > 0 ? this.sumAmounts(table.map((row) => row.share), token.symbol) : '',
+      executionTime,
+      eventId,
+      eventTitle: title,
+      error
+    };
+  }
+
+  /**
+   * Read "| recipient | amount |" rows from a description; header and separator rows are skipped
+   */
+  private static parseRecipientTable(description: string): { reference: string; share: string }[] {
+    const rows: { reference: string; share: string }[] = [];
+
+    for (const line of descriptionToText(description).split('\n')) {
+      if (!line.trim().startsWith('|')) continue;
+
+      const cells = line.split('|').map((cell) => cell.trim()).slice(1);
+      if (cells[cells.length - 1] === '') cells.pop();
+      if (cells.length < 2 || !/^\d+(\.\d+)?$/.test(cells[1])) continue;
+
+      const recipient = cells[0];
+      rows.push({
+        reference: /^0x/i.test(recipient) ? recipient : `@${recipient.replace(/^@/, '')}`,
+        share: cells[1],
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Resolve batch legs; a single leg is a plain transfer
+   */
+  private static resolveRecipients(
+    legs: { reference: string; share: string }[],
+    calendarId: string
+  ): { toToken: string; recipientName?: string; recipients?: RecipientShare[]; error?: string } {
+    if (legs.length === 0) {
+      return { toToken: '', error: 'No recipients found' };
+    }
+    if (legs.length > MAX_BATCH_RECIPIENTS) {
+      return { toToken: '', error: `At most ${MAX_BATCH_RECIPIENTS} recipients per event` };
+    }
+
+    const recipients: RecipientShare[] = [];
+    for (const leg of legs) {
+      const recipient = this.resolveRecipient(leg.reference, calendarId);
+      if (recipient.error) {
+        return { toToken: '', error: recipient.error };
+      }
+      if (!/^0x[a-fA-F0-9]{40}$/.test(recipient.address)) {
+        return { toToken: '', error: `Invalid recipient: ${leg.reference}` };
+      }
+      if (!(parseFloat(leg.share) > 0)) {
+        return { toToken: '', error: `Recipient ${leg.reference} needs a positive share` };
+      }
+      if (recipients.some((existing) => existing.address.toLowerCase() === recipient.address.toLowerCase())) {
+        return { toToken: '', error: `Duplicate recipient: ${leg.reference}` };
+      }
+      recipients.push({ address: recipient.address, name: recipient.name, share: leg.share });
+    }
+
+    return {
+      toToken: recipients[0].address,
+      recipientName: recipients[0].name,
+      recipients: recipients.length > 1 ? recipients : undefined,
+    };
+  }
+
+  /**
+   * Exact decimal sum of token amounts
+   */
+  private static sumAmounts(amounts: string[], symbol: string): string {
+    const decimals = this.decimalsOf(symbol);
+    const total = amounts.reduce((sum, amount) => sum + parseUnits(amount, decimals), BigInt(0));
+    return formatUnits(total, decimals);
+  }
+
+  private static decimalsOf(symbol: string): number {
+    return tokenRegistry.resolve(symbol)?.decimals ?? 18;
+  }
+
+  /**
+   * Resolve "@alice" through the calendar's address book; plain addresses pass through
+   */
+  private static resolveRecipient(
+    reference: string,
+    calendarId: string
+  ): { address: string; name?: string; error?: string } {
+    if (!reference.startsWith('@')) {
+      return { address: reference };
+    }
+
+    const name = reference.slice(1).toLowerCase();
+    const address = addressBook.resolve(calendarId, name);
+    if (!address) {
+      return { address: '', name, error: `Unknown contact: @${name} (add it with POST /api/contacts/${calendarId})` };
+    }
+    return { address, name };
+  }
+
+  /**
+   * Resolve a token symbol or alias through the registry
+   * Returns the canonical symbol, or an error for unknown/unverified tokens (e.g. "USCD")
+   */
+  private static resolveSymbol(symbol: string): { symbol: string; error?: string } {
+    const token = tokenRegistry.resolve(symbol);
+    if (!token) {
+      return { symbol: symbol.toUpperCase(), error: `Unknown token: ${symbol.toUpperCase()}` };
+    }
+    if (!token.verified) {
+      return { symbol: token.symbol, error: `Token ${token.symbol} is not verified in the token registry` };
+    }
+    return { symbol: token.symbol };
+  }
+
+  /**
+   * Turn the matched amount (plus any "leaving X for gas" reserve) into an amount expression
+   * Only amounts that depend on the balance or a price keep the expression
+   */
+  private static applyAmount(
+    parsed: ParsedTransaction,
+    reserve: RegExpMatchArray | [string, string, string] | null
+  ): ParsedTransaction {
+    if (!parsed.valid) return parsed;
+
+    const expression = parseAmountExpression(parsed.amount);
+    if (!expression) {
+      return { ...parsed, valid: false, error: `Invalid amount: ${parsed.amount}` };
+    }
+
+    if (reserve) {
+      const reserveToken = this.resolveSymbol(reserve[2]);
+      if (reserveToken.symbol !== parsed.fromToken) {
+        return { ...parsed, valid: false, error: `Gas reserve must be in ${parsed.fromToken}` };
+      }
+      expression.reserve = reserve[1];
+    }
+
+    const dynamic = expression.kind !== 'fixed' || expression.reserve !== undefined;
+    return {
+      ...parsed,
+      amount: amountText(expression),
+      amountExpression: dynamic ? expression : undefined
+    };
+  }
+
+  /**
+   * Attach "max slippage X%" from the title (preferred) or description to a swap
+   */
+  private static applySlippage(
+    parsed: ParsedTransaction,
+    title: string,
+    description: string
+  ): ParsedTransaction {
+    if (!parsed.valid) return parsed;
+
+    const pattern = /(?:max(?:imum)?\s+)?slippage\s*(?:of\s*|[:=]\s*)?(\d+(?:\.\d+)?)\s*%/i;
+    const match = title.match(pattern) || description.match(pattern);
+    if (!match) return parsed;
+
+    const bps = Math.round(parseFloat(match[1]) * 100);
+    if (bps <= 0 || bps > MAX_SLIPPAGE_BPS) {
+      return {
+        ...parsed,
+        valid: false,
+        error: `Slippage must be between 0.01% and ${MAX_SLIPPAGE_BPS / 100}%`
+      };
+    }
+
+    return { ...parsed, maxSlippageBps: bps };
+  }
+
   /**
    * Validate parsed transaction
    */
   static validateTransaction(parsed: ParsedTransaction): boolean {
     if (!parsed.valid) return false;
     
-    // Check amount is positive
+    // Check amount is positive (expressions are checked when resolved)
     const amount = parseFloat(parsed.amount);
-    if (isNaN(amount) || amount <= 0) {
+    if (!parsed.amountExpression && (isNaN(amount) || amount <= 0)) {
       return false;
     }
 
@@ -195,11 +713,11 @@ export class EventParser {
       return false;
     }
 
-    // Check execution time is not too old (15 minute buffer for past events)
+    // Check the event's execution window has not closed
     const now = new Date();
-    const buffer = 15 * 60 * 1000; // 15 minutes - allow events up to 15 min in past
-    if (parsed.executionTime.getTime() < now.getTime() - buffer) {
-      console.log(`⏰ Event too old: "${parsed.eventTitle}" (started ${Math.floor((now.getTime() - parsed.executionTime.getTime()) / 60000)} min ago, max allowed: 15 min)`);
+    const windowEnd = windowEndOf(parsed);
+    if (windowEnd.getTime() <= now.getTime()) {
+      console.log(`⏰ Event window closed: "${parsed.eventTitle}" (ended ${Math.floor((now.getTime() - windowEnd.getTime()) / 60000)} min ago)`);
       return false;
     }
 
@@ -210,10 +728,22 @@ export class EventParser {
    * Format transaction for display
    */
   static formatTransaction(parsed: ParsedTransaction): string {
+    const amount = parsed.amountExpression
+      ? describeAmount(parsed.amountExpression, parsed.fromToken)
+      : `${parsed.amount} ${parsed.fromToken}`;
+
     if (parsed.type === 'swap') {
-      return `Swap ${parsed.amount} ${parsed.fromToken} → ${parsed.toToken}`;
+      const slippage = parsed.maxSlippageBps !== undefined
+        ? ` (max slippage ${parsed.maxSlippageBps / 100}%)`
+        : '';
+      return `Swap ${amount} → ${parsed.toToken}${slippage}`;
+    } else if (parsed.type === 'transfer' && parsed.recipients) {
+      const legs = parsed.recipients
+        .map((leg) => `${leg.name ? `@${leg.name}` : leg.address}: ${leg.share}`)
+        .join(', ');
+      return `Transfer ${amount} to ${parsed.recipients.length} recipients (${legs})`;
     } else if (parsed.type === 'transfer') {
-      return `Transfer ${parsed.amount} ${parsed.fromToken} to ${parsed.toToken}`;
+      return `Transfer ${amount} to ${parsed.recipientName ? `@${parsed.recipientName}` : parsed.toToken}`;
     }
     return 'Unknown transaction';
   }
@@ -0,0 +1,73 @@
+import { calendar_v3 } from 'googleapis';
+import { zonedTimeToUtc } from './TimeZoneResolver';
+
+/**
+ * When an event's transaction may run: from start until end
+ */
+export interface ExecutionWindow {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+/**
+ * Window given to events that end when they start (or have no end)
+ */
+const DEFAULT_WINDOW_MS = parseInt(process.env.EXECUTION_GRACE_MINUTES || '15', 10) * 60 * 1000;
+
+const FLOATING_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+
+/**
+ * Execution window of a calendar event
+ *
+ * Timed events run from start to end; times without a UTC offset are read in timeZone.
+ * All-day events carry only dates, which `new Date()` would read as UTC midnight; they run at
+ * ALL_DAY_EXECUTION_TIME (default 09:00) in timeZone on their first day and stay valid until
+ * the end of their last day.
+ */
+export function resolveExecutionWindow(event: calendar_v3.Schema$Event, timeZone: string): ExecutionWindow | null {
+  if (event.start?.dateTime) {
+    const start = parseDateTime(event.start.dateTime, timeZone);
+    const end = event.end?.dateTime ? parseDateTime(event.end.dateTime, timeZone) : start;
+    return { start, end: withMinimumLength(start, end), allDay: false };
+  }
+
+  if (event.start?.date) {
+    const [hours, minutes] = (process.env.ALL_DAY_EXECUTION_TIME || '09:00').split(':').map(Number);
+    const start = zonedDate(event.start.date, timeZone, hours, minutes || 0);
+    // Google's end date is exclusive: a one-day event on the 20th ends on the 21st
+    const end = event.end?.date ? zonedDate(event.end.date, timeZone) : zonedDate(event.start.date, timeZone, 24, 0);
+    return { start, end: withMinimumLength(start, end), allDay: true };
+  }
+
+  return null;
+}
+
+/**
+ * End of the window for a parsed intent (stored intents may predate endTime)
+ */
+export function windowEndOf(parsed: { executionTime: Date; endTime?: Date }): Date {
+  return parsed.endTime ?? new Date(parsed.executionTime.getTime() + DEFAULT_WINDOW_MS);
+}
+
+function withMinimumLength(start: Date, end: Date): Date {
+  return end.getTime() > start.getTime() ? end : new Date(start.getTime() + DEFAULT_WINDOW_MS);
+}
+
+/**
+ * "2026-03-29T09:00:00+02:00" as given; "2026-03-29T09:00:00" (floating) in timeZone
+ */
+function parseDateTime(value: string, timeZone: string): Date {
+  const floating = value.match(FLOATING_PATTERN);
+  if (!floating) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = floating.map(Number);
+  return zonedTimeToUtc(timeZone, year, month, day, hours, minutes, seconds || 0);
+}
+
+function zonedDate(date: string, timeZone: string, hours = 0, minutes = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedTimeToUtc(timeZone, year, month, day, hours, minutes);
+}
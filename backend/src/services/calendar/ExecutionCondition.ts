@@ -0,0 +1,85 @@
+import type { IntentCondition } from './IntentBlock';
+
+/**
+ * Trailing condition clause of a title: "... if STT > 0.5 USD", "... when gas < 2 gwei"
+ * Several conditions are joined with "and"
+ */
+const CLAUSE_PATTERN = /\s+(?:only\s+)?(?:if|when)\s+(.+)$/i;
+
+const OP = String.raw`(<=|>=|<|>|above|below|over|under)`;
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+
+const GAS_PATTERN = new RegExp(String.raw`^gas(?:\s+price)?\s*${OP}\s*${NUMBER}\s*(?:gwei)?$`, 'i');
+const BALANCE_PATTERN = new RegExp(String.raw`^(?:([a-zA-Z]+)\s+)?balance\s*${OP}\s*${NUMBER}(?:\s*([a-zA-Z]+))?$`, 'i');
+const PRICE_PATTERN = new RegExp(String.raw`^(?:(?:the\s+)?price\s+of\s+)?([a-zA-Z]+)(?:\s+price)?\s*${OP}\s*\$?${NUMBER}\s*(?:usd)?$`, 'i');
+
+const WORD_OPS: Record<string, IntentCondition['op']> = {
+  above: '>',
+  over: '>',
+  below: '<',
+  under: '<',
+};
+
+/**
+ * Split the condition clause off a title
+ * Balance conditions without a token are left for the caller to default (the token being sent)
+ */
+export function splitConditionClause(title: string): {
+  title: string;
+  conditions: IntentCondition[];
+  error?: string;
+} {
+  const match = title.match(CLAUSE_PATTERN);
+  if (!match) {
+    return { title, conditions: [] };
+  }
+
+  const conditions: IntentCondition[] = [];
+  for (const part of match[1].split(/\s+and\s+/i).map((text) => text.trim())) {
+    const condition = parseCondition(part);
+    if (!condition) {
+      return { title, conditions: [], error: `Unrecognized condition: "${part}"` };
+    }
+    conditions.push(condition);
+  }
+
+  return { title: title.slice(0, match.index), conditions };
+}
+
+/**
+ * Human-readable condition, e.g. "STT price > $0.5"
+ */
+export function describeCondition(condition: IntentCondition): string {
+  switch (condition.type) {
+    case 'price':
+      return `${condition.token} price ${condition.op} $${condition.value}`;
+    case 'balance':
+      return `${condition.token} balance ${condition.op} ${condition.value}`;
+    case 'gas':
+      return `gas ${condition.op} ${condition.value} gwei`;
+  }
+}
+
+function parseCondition(text: string): IntentCondition | null {
+  const gas = text.match(GAS_PATTERN);
+  if (gas) {
+    return { type: 'gas', op: toOp(gas[1]), value: gas[2] };
+  }
+
+  const balance = text.match(BALANCE_PATTERN);
+  if (balance) {
+    const token = balance[1] || balance[4];
+    return { type: 'balance', token: token?.toUpperCase(), op: toOp(balance[2]), value: balance[3] };
+  }
+
+  const price = text.match(PRICE_PATTERN);
+  if (price) {
+    return { type: 'price', token: price[1].toUpperCase(), op: toOp(price[2]), value: price[3] };
+  }
+
+  return null;
+}
+
+function toOp(op: string): IntentCondition['op'] {
+  return WORD_OPS[op.toLowerCase()] ?? (op as IntentCondition['op']);
+}
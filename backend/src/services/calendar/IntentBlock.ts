@@ -0,0 +1,188 @@
+import YAML, { LineCounter, isNode } from 'yaml';
+import { z } from 'zod';
+import { isAddress } from 'viem';
+import { parseAmountExpression } from './AmountExpression';
+import { CONTACT_REFERENCE_PATTERN } from '../blockchain/AddressBook';
+
+/**
+ * Parse or validation error located in the event description
+ */
+export interface IntentBlockError {
+  line: number;       // 1-based line in the event description
+  column: number;     // 1-based column
+  message: string;
+}
+
+const amountSchema = z
+  .union([z.string(), z.number()], { errorMap: () => ({ message: 'must be a positive number' }) })
+  .transform((value) => String(value).trim())
+  .refine((value) => /^\d+(\.\d+)?$/.test(value) && parseFloat(value) > 0, 'must be a positive number');
+
+/**
+ * Amount or an expression resolved at execution time ("50%", "all", "$100")
+ */
+const amountExpressionSchema = z
+  .union([z.string(), z.number()], { errorMap: () => ({ message: 'must be an amount like 10, 50%, all or $100' }) })
+  .transform((value) => String(value).trim())
+  .refine((value) => parseAmountExpression(value) !== null, 'must be an amount like 10, 50%, all or $100');
+
+/**
+ * Recipient address or address book contact ("@alice")
+ */
+const recipientSchema = z
+  .string()
+  .refine(
+    (value) => isAddress(value) || new RegExp(`^${CONTACT_REFERENCE_PATTERN}$`).test(value),
+    'must be a valid EVM address or @contact'
+  );
+
+const percentSchema = z
+  .union([z.number(), z.string().regex(/^\d+(\.\d+)?\s*%?$/)], { errorMap: () => ({ message: 'must be a percentage like 0.5%' }) })
+  .transform((value) => (typeof value === 'number' ? value : parseFloat(value)));
+
+const gweiSchema = z
+  .union([z.number(), z.string().regex(/^\d+(\.\d+)?\s*(gwei)?$/i)], { errorMap: () => ({ message: 'must be a gas price in gwei like 50 gwei' }) })
+  .transform((value) => (typeof value === 'number' ? value : parseFloat(value)))
+  .refine((value) => value > 0, 'must be greater than 0');
+
+/**
+ * Execution condition, e.g. { type: price, token: STT, op: '<', value: 0.5 }
+ * price is in USD, balance in token units, gas in gwei
+ */
+export const intentConditionSchema = z.object({
+  type: z.enum(['price', 'balance', 'gas']),
+  token: z.string().optional(),
+  op: z.enum(['<', '<=', '>', '>=']),
+  value: z.union([z.string(), z.number()]).transform((value) => String(value).trim()),
+}).strict().refine(
+  (condition) => condition.type === 'gas' || !!condition.token,
+  { message: 'token is required for price and balance conditions', path: ['token'] }
+);
+
+export type IntentCondition = z.output<typeof intentConditionSchema>;
+
+/**
+ * Contents of an ```epochi block
+ */
+export const intentBlockSchema = z.object({
+  type: z.enum(['swap', 'transfer']),
+  token: z.string().min(1),                   // Token sent (transfer) or sold (swap)
+  to: z.string().min(1).optional(),           // Token bought (swap)
+  amount: amountExpressionSchema,
+  reserve: amountSchema.optional(),           // Held back from the balance, in units of token
+  recipient: recipientSchema.optional(),
+  recipients: z.array(z.object({
+    address: recipientSchema,
+    amount: amountSchema.optional(),
+  }).strict()).min(1).optional(),
+  slippage: percentSchema.optional(),         // Percent, e.g. 0.5 or "0.5%"
+  memo: z.string().max(200).optional(),
+  gasCap: gweiSchema.optional(),              // Max gas price in gwei
+  conditions: z.array(intentConditionSchema).optional(),
+}).strict().superRefine((block, ctx) => {
+  if (block.type === 'swap') {
+    if (!block.to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'to is required for swaps', path: ['type'] });
+    }
+    if (block.recipient || block.recipients) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'swaps do not take recipients', path: [block.recipient ? 'recipient' : 'recipients'] });
+    }
+  } else {
+    if (!block.recipient === !block.recipients) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'transfers need exactly one of recipient or recipients', path: ['type'] });
+    }
+    if (block.slippage !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'slippage only applies to swaps', path: ['slippage'] });
+    }
+  }
+});
+
+export type IntentBlock = z.output<typeof intentBlockSchema>;
+
+export type IntentBlockResult =
+  | { found: false }
+  | { found: true; block: IntentBlock; errors: [] }
+  | { found: true; block?: undefined; errors: IntentBlockError[] };
+
+const FENCE_PATTERN = /```epochi[ \t]*\r?\n([\s\S]*?)^[ \t]*```/m;
+
+/**
+ * Extract and validate the ```epochi block of an event description (YAML or JSON)
+ */
+export function parseIntentBlock(description: string | null | undefined): IntentBlockResult {
+  const text = descriptionToText(description ?? '');
+  const match = FENCE_PATTERN.exec(text);
+  if (!match) {
+    return { found: false };
+  }
+
+  // Errors are reported relative to the whole description
+  const contentOffset = match.index + match[0].indexOf(match[1]);
+  const lineOffset = text.slice(0, contentOffset).split('\n').length - 1;
+
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(match[1], { lineCounter, prettyErrors: false });
+  const locate = (offset: number | undefined): { line: number; column: number } => {
+    const pos = lineCounter.linePos(offset ?? 0);
+    return { line: pos.line + lineOffset, column: pos.col };
+  };
+
+  if (doc.errors.length > 0) {
+    return {
+      found: true,
+      errors: doc.errors.map((error) => ({
+        ...locate(error.pos[0]),
+        message: error.message.split('\n')[0],
+      })),
+    };
+  }
+
+  const result = intentBlockSchema.safeParse(doc.toJS());
+  if (result.success) {
+    return { found: true, block: result.data, errors: [] };
+  }
+
+  return {
+    found: true,
+    errors: result.error.issues.map((issue) => {
+      // Point at the offending value, or its closest existing parent
+      let node: unknown = undefined;
+      for (let depth = issue.path.length; depth > 0 && !isNode(node); depth--) {
+        node = doc.getIn(issue.path.slice(0, depth), true);
+      }
+      const offset = isNode(node) ? node.range?.[0] : doc.contents?.range?.[0];
+
+      return {
+        ...locate(offset),
+        message: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+      };
+    }),
+  };
+}
+
+/**
+ * Format errors for display, one per line
+ */
+export function formatIntentBlockErrors(errors: IntentBlockError[]): string {
+  return errors.map((error) => `Line ${error.line}, column ${error.column}: ${error.message}`).join('\n');
+}
+
+/**
+ * Google Calendar stores descriptions edited in the web UI as HTML
+ */
+export function descriptionToText(description: string): string {
+  if (!/<[a-z][^>]*>/i.test(description)) {
+    return description;
+  }
+
+  return description
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,177 @@
+import { calendar_v3 } from 'googleapis';
+import type { CalendarSettingsStore } from '../storage/CalendarSettingsStore';
+import { createCalendarSettingsStore } from '../storage/StoreFactory';
+
+/**
+ * Where a resolved time zone came from
+ */
+export type TimeZoneSource = 'event' | 'override' | 'calendar' | 'default';
+
+/**
+ * True for IANA zone names the runtime knows ("Europe/Berlin", "UTC")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Instant of a wall-clock time in a zone
+ *
+ * Times skipped by a DST change (02:30 on a spring-forward night) move forward by the gap;
+ * times that occur twice (02:30 on a fall-back night) resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const offsetBefore = offsetAt(timeZone, wallClock - DAY_MS);
+  const offsetAfter = offsetAt(timeZone, wallClock + DAY_MS);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wallClock - offset)
+    .filter((instant) => instant + offsetAt(timeZone, instant) === wallClock);
+
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : wallClock - offsetBefore);
+}
+
+/**
+ * Local time of an instant with its UTC offset, e.g. "2026-03-29T09:00:00+02:00"
+ */
+export function formatLocalTime(date: Date, timeZone: string): string {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  const offset = offsetAt(timeZone, instant);
+  const local = new Date(instant + offset).toISOString().slice(0, 19);
+
+  const sign = offset < 0 ? '-' : '+';
+  const offsetMinutes = Math.abs(offset) / 60000;
+  const hours = String(Math.floor(offsetMinutes / 60)).padStart(2, '0');
+  const minutes = String(offsetMinutes % 60).padStart(2, '0');
+
+  return `${local}${sign}${hours}:${minutes}`;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Milliseconds the zone is ahead of UTC at an instant
+ */
+function offsetAt(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * TimeZoneResolver decides which zone an event's wall-clock times are read in:
+ * the event's own zone, then the user's override for the calendar, then the calendar's
+ * zone as reported by Google, then CALENDAR_TIMEZONE, then UTC.
+ */
+export class TimeZoneResolver {
+  private store: CalendarSettingsStore | null;
+  private calendarZones: Map<string, string> = new Map();
+
+  constructor(store?: CalendarSettingsStore) {
+    this.store = store ?? null;
+  }
+
+  /**
+   * Zone for an event's times
+   */
+  forEvent(event: calendar_v3.Schema$Event, calendarId: string): { timeZone: string; source: TimeZoneSource } {
+    const eventZone = event.start?.timeZone;
+    if (eventZone && isValidTimeZone(eventZone)) {
+      return { timeZone: eventZone, source: 'event' };
+    }
+    return this.forCalendar(calendarId);
+  }
+
+  /**
+   * Zone for a calendar's floating times and all-day events
+   */
+  forCalendar(calendarId: string): { timeZone: string; source: TimeZoneSource } {
+    const override = this.getOverride(calendarId);
+    if (override) {
+      return { timeZone: override, source: 'override' };
+    }
+
+    const calendarZone = this.calendarZones.get(calendarId);
+    if (calendarZone) {
+      return { timeZone: calendarZone, source: 'calendar' };
+    }
+
+    const fallback = process.env.CALENDAR_TIMEZONE;
+    return { timeZone: fallback && isValidTimeZone(fallback) ? fallback : 'UTC', source: 'default' };
+  }
+
+  /**
+   * Record the zone Google reports for a calendar (events.list returns it with every page)
+   */
+  rememberCalendarZone(calendarId: string, timeZone: string | null | undefined): void {
+    if (timeZone && isValidTimeZone(timeZone)) {
+      this.calendarZones.set(calendarId, timeZone);
+    }
+  }
+
+  getCalendarZone(calendarId: string): string | null {
+    return this.calendarZones.get(calendarId) ?? null;
+  }
+
+  getOverride(calendarId: string): string | null {
+    return this.getStore().get(calendarId)?.timeZone ?? null;
+  }
+
+  /**
+   * Set or clear (null) the user's zone for a calendar
+   */
+  setOverride(calendarId: string, timeZone: string | null): void {
+    if (timeZone !== null && !isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    this.getStore().upsert({
+      calendarId,
+      timeZone: timeZone ?? undefined,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * The store (and its database) is opened on first use
+   */
+  private getStore(): CalendarSettingsStore {
+    if (!this.store) {
+      this.store = createCalendarSettingsStore();
+    }
+    return this.store;
+  }
+}
+
+/**
+ * Shared resolver used by the parser, the calendar service and routes
+ */
+export const timeZoneResolver = new TimeZoneResolver();
+
+export default TimeZoneResolver;
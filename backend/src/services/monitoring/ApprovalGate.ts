@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { calendar_v3 } from 'googleapis';
+import PriceService from '../blockchain/PriceService';
+import { tokenRegistry } from '../blockchain/TokenRegistry';
+import type { ParsedTransaction } from '../calendar/EventParser';
+
+/**
+ * Approval state of a queued intent above APPROVAL_THRESHOLD_USD
+ */
+export interface ApprovalState {
+  status: 'pending' | 'approved';
+  intentHash: string;         // The intent that was approved; an edit that changes it asks again
+  valueUsd: number | null;    // null: not known until execution (percent/all amounts, no price)
+  requestedAt: Date;
+  nonce?: string;             // Of the outstanding approval link token; cleared once used
+  approvedAt?: Date;
+  approvedVia?: 'rsvp' | 'tag' | 'link';
+}
+
+/**
+ * Contents of a verified approval link token
+ */
+export interface ApprovalToken {
+  eventId: string;
+  intentHash: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+/**
+ * Refused approval request; statusCode is the HTTP status the route answers with
+ */
+export class ApprovalError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'ApprovalError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * ApprovalGate decides which intents need the owner's approval before they run,
+ * and signs and verifies the single-use tokens behind approval links
+ */
+export class ApprovalGate {
+  private priceService: PriceService;
+  private readonly threshold: number | null;
+  private readonly secret: string;
+
+  constructor(priceService: PriceService) {
+    this.priceService = priceService;
+
+    const threshold = parseFloat(process.env.APPROVAL_THRESHOLD_USD || '');
+    this.threshold = Number.isFinite(threshold) && threshold >= 0 ? threshold : null;
+
+    const secret = process.env.APPROVAL_SECRET || process.env.ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('APPROVAL_SECRET or ENCRYPTION_KEY must be set to sign approval links');
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Approval threshold in USD (null: approvals disabled)
+   */
+  getThreshold(): number | null {
+    return this.threshold;
+  }
+
+  /**
+   * Whether an intent needs approval, with its USD value where it can be known in advance
+   * Balance-relative amounts and tokens without a price always need approval.
+   */
+  async assess(parsed: ParsedTransaction): Promise<{ required: boolean; valueUsd: number | null }> {
+    if (this.threshold === null) {
+      return { required: false, valueUsd: null };
+    }
+
+    const valueUsd = await this.valueOf(parsed);
+    return {
+      required: valueUsd === null || valueUsd > this.threshold,
+      valueUsd,
+    };
+  }
+
+  /**
+   * Sign an approval link token for an intent, valid until expiresAt
+   */
+  issueToken(eventId: string, intentHash: string, expiresAt: Date): { token: string; nonce: string } {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const payload = Buffer.from(
+      JSON.stringify({ e: eventId, h: intentHash, n: nonce, x: Math.floor(expiresAt.getTime() / 1000) })
+    ).toString('base64url');
+
+    return { token: `${payload}.${this.sign(payload)}`, nonce };
+  }
+
+  /**
+   * Contents of a token with a valid signature that has not expired, else null
+   * (whether it was already used is up to the caller, who holds the nonce)
+   */
+  verifyToken(token: string): ApprovalToken | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const { e, h, n, x } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      const expiresAt = new Date(x * 1000);
+      if (typeof e !== 'string' || typeof h !== 'string' || typeof n !== 'string' || expiresAt <= new Date()) {
+        return null;
+      }
+      return { eventId: e, intentHash: h, nonce: n, expiresAt };
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  private async valueOf(parsed: ParsedTransaction): Promise<number | null> {
+    const expression = parsed.amountExpression;
+    if (expression?.kind === 'fiat') {
+      return parseFloat(expression.usd);
+    }
+    if (expression && expression.kind !== 'fixed') {
+      return null;
+    }
+
+    const token = tokenRegistry.resolve(parsed.fromToken);
+    if (!token) return null;
+
+    try {
+      return parseFloat(parsed.amount) * await this.priceService.getUsdPrice(token);
+    } catch (error: any) {
+      console.error(`⚠️ No USD price for ${parsed.fromToken}, approval required:`, error.message);
+      return null;
+    }
+  }
+}
+
+/**
+ * Approval given on the event itself: the owner accepted it, or its title carries the tag
+ */
+export function approvalSignal(
+  event: calendar_v3.Schema$Event,
+  parsed: ParsedTransaction
+): 'rsvp' | 'tag' | null {
+  if (parsed.approvalTagged) return 'tag';
+  return ownerAttendee(event)?.responseStatus === 'accepted' ? 'rsvp' : null;
+}
+
+/**
+ * The calendar owner among the event's attendees (absent on events without guests)
+ */
+export function ownerAttendee(event: calendar_v3.Schema$Event): calendar_v3.Schema$EventAttendee | undefined {
+  return event.attendees?.find((attendee) => attendee.self);
+}
+
+export default ApprovalGate;
@@ -1,10 +1,48 @@
-import cron from 'node-cron';
 import { calendar_v3 } from 'googleapis';
-import CalendarService from '../calendar/CalendarService';
+import CalendarService, { CalendarEventDelta, CalendarSyncState } from '../calendar/CalendarService';
 import EventParser, { ParsedTransaction } from '../calendar/EventParser';
-import TransactionExecutor from '../blockchain/TransactionExecutor';
+import { formatIntentBlockErrors } from '../calendar/IntentBlock';
+import { describeAmount } from '../calendar/AmountExpression';
+import { windowEndOf } from '../calendar/EventWindow';
+import { formatLocalTime } from '../calendar/TimeZoneResolver';
+import TransactionExecutor, {
+  ExecutionResult,
+  formatBatchLegs,
+  formatGuardFailure,
+  formatPreview,
+  hasSentFunds,
+  PREVIEW_HEADER
+} from '../blockchain/TransactionExecutor';
 import SomniaWalletService from '../blockchain/SomniaWalletService';
 import DataStreamsService from '../blockchain/DataStreamsService';
+import EnhancedDataStreamsService from '../blockchain/EnhancedDataStreamsService';
+import { tokenRegistry } from '../blockchain/TokenRegistry';
+import { formatPolicyViolation } from '../blockchain/PolicyEngine';
+import ExecutionScheduler from './ExecutionScheduler';
+import ConditionEvaluator, { ConditionCheck, formatConditionCheck } from './ConditionEvaluator';
+import ApprovalGate, {
+  ApprovalError,
+  ApprovalState,
+  approvalSignal,
+  ownerAttendee
+} from './ApprovalGate';
+import { IntentStatus, createEventIntentId } from '../../schemas/scheduled-intent.schema';
+import { TransactionStatus, TransactionType } from '../../schemas/transaction.schema';
+import { parseUnits, type Hash } from 'viem';
+import type {
+  AgentStore,
+  ExecutionAttempt,
+  OccurrenceStatus,
+  ProcessedOutcome,
+  SeriesOccurrence,
+} from '../storage/AgentStore';
+import {
+  createLedgerKey,
+  hashIntent,
+  ledgerKeyParts,
+  type ExecutionLedger
+} from '../storage/ExecutionLedger';
+import { createAgentStore, createExecutionLedger } from '../storage/StoreFactory';
 
 /**
  * Transaction queue item
@@ -14,6 +52,18 @@ export interface QueuedTransaction {
   calendarId: string;
   addedAt: Date;
   attempts: number;
+  lastConditionCheck?: ConditionCheck & { checkedAt: Date }; // Not persisted
+  approval?: ApprovalState;   // Intents above APPROVAL_THRESHOLD_USD wait for the owner's approval
+}
+
+/**
+ * Optional collaborators (defaults come from StoreFactory)
+ */
+export interface CalendarAgentOptions {
+  store?: AgentStore;
+  ledger?: ExecutionLedger;
+  enhancedDataStreamsService?: EnhancedDataStreamsService;   // Publishes intents and execution proofs when provided
+  dryRun?: boolean;   // Simulation mode: preview every intent, broadcast and write nothing (default AGENT_DRY_RUN)
 }
 
 /**
@@ -26,9 +76,47 @@ export interface AgentStats {
   transactionsDetected: number;
   transactionsExecuted: number;
   transactionsFailed: number;
+  transactionsCancelled: number;
+  transactionsExpired: number;
+  transactionsPreviewed: number;
+  dryRun: boolean;
   queueSize: number;
+  executing: number;                // Queued transactions running right now (up to AGENT_CONCURRENCY)
+  awaitingApproval: number;
+  approvalThresholdUsd: number | null;
+  nextExecutionAt: Date | null;
+  lastTimeDeltaMs: number | null;   // Actual minus scheduled execution time of the last run
+}
+
+/**
+ * History and outcome counts of a recurring schedule
+ */
+export interface SeriesSummary {
+  seriesId: string;
+  executed: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  expired: number;
+  queued: number;
+  occurrences: SeriesOccurrence[];
 }
 
+/**
+ * Header of the summary block kept on a series' master event
+ */
+const SERIES_SUMMARY_HEADER = '🔁 Recurring Schedule';
+
+/**
+ * Header of the error block written back for an invalid ```epochi block
+ */
+const BLOCK_ERROR_HEADER = '❌ Epochi Block Invalid';
+
+/**
+ * Shared header prefix of the "Approval Required" / "Approval Granted" blocks
+ */
+const APPROVAL_HEADER = '🔐 Approval';
+
 /**
  * CalendarAgent monitors Google Calendar and executes transactions
  */
@@ -37,8 +125,20 @@ export class CalendarAgent {
   private transactionExecutor: TransactionExecutor;
   private walletService: SomniaWalletService;
   private dataStreamsService: DataStreamsService;
+  private store: AgentStore;
+  private ledger: ExecutionLedger;
+  private enhancedDataStreamsService?: EnhancedDataStreamsService;
+  private scheduler: ExecutionScheduler = new ExecutionScheduler();
+  private conditionEvaluator: ConditionEvaluator;
+  private approvalGate: ApprovalGate;
 
-  private cronJob: cron.ScheduledTask | null = null;
+  private syncState: CalendarSyncState | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isChecking: boolean = false;
+  private recheckRequested: boolean = false;
+  private executing: Set<string> = new Set();
+  private blockErrorsWritten: Map<string, string | null> = new Map();
+  private readonly dryRun: boolean;
   private isRunning: boolean = false;
   private transactionQueue: Map<string, QueuedTransaction> = new Map();
   private processedEvents: Set<string> = new Set();
@@ -51,34 +151,60 @@ export class CalendarAgent {
     transactionsDetected: 0,
     transactionsExecuted: 0,
     transactionsFailed: 0,
+    transactionsCancelled: 0,
+    transactionsExpired: 0,
+    transactionsPreviewed: 0,
+    dryRun: false,
     queueSize: 0,
+    executing: 0,
+    awaitingApproval: 0,
+    approvalThresholdUsd: null,
+    nextExecutionAt: null,
+    lastTimeDeltaMs: null,
   };
 
   // Configuration
   private readonly CHECK_INTERVAL = parseInt(process.env.CALENDAR_POLL_INTERVAL || '30', 10); // seconds
   private readonly CALENDAR_ID = process.env.CALENDAR_ID || 'primary';
+  private readonly CONCURRENCY = parseInt(process.env.AGENT_CONCURRENCY || '4', 10);
   private readonly MAX_RETRY_ATTEMPTS = 3;
+  private readonly RETRY_DELAY_MS = 30 * 1000;
+  private readonly CONDITION_RECHECK_MS = parseInt(process.env.CONDITION_RECHECK_SECONDS || '60', 10) * 1000;
+  private readonly APPROVAL_BASE_URL = process.env.APPROVAL_BASE_URL || 'http://localhost:3001';
 
   constructor(
     calendarService: CalendarService,
     walletService: SomniaWalletService,
-    dataStreamsService: DataStreamsService
+    dataStreamsService: DataStreamsService,
+    options: CalendarAgentOptions = {}
   ) {
     this.calendarService = calendarService;
     this.walletService = walletService;
     this.dataStreamsService = dataStreamsService;
+    this.store = options.store ?? createAgentStore();
+    this.ledger = options.ledger ?? createExecutionLedger();
+    this.enhancedDataStreamsService = options.enhancedDataStreamsService;
+    this.dryRun = options.dryRun ?? process.env.AGENT_DRY_RUN === 'true';
+    this.stats.dryRun = this.dryRun;
     this.transactionExecutor = new TransactionExecutor(
       walletService,
       dataStreamsService
     );
+    this.conditionEvaluator = new ConditionEvaluator(
+      walletService,
+      this.transactionExecutor.getPriceService()
+    );
+    this.approvalGate = new ApprovalGate(this.transactionExecutor.getPriceService());
+    this.stats.approvalThresholdUsd = this.approvalGate.getThreshold();
 
-    console.log('🤖 Calendar Agent initialized');
+    console.log(`🤖 Calendar Agent initialized${this.dryRun ? ' (simulation mode: nothing will be sent)' : ''}`);
   }
 
   /**
    * Start the calendar monitoring agent
+   * Rehydrates the queue and processed-event ledger from the store first
    */
-  start(): void {
+  async start(): Promise<void> {
     if (this.isRunning) {
       console.log('⚠️ Calendar Agent is already running');
       return;
@@ -95,16 +221,38 @@ export class CalendarAgent {
     console.log(`📅 Calendar ID: ${this.CALENDAR_ID}`);
     console.log(`⏱️ Check interval: Every ${this.CHECK_INTERVAL} seconds`);
 
-    // Create cron job (every N seconds)
-    const cronExpression = `*/${this.CHECK_INTERVAL} * * * * *`;
-    
-    this.cronJob = cron.schedule(cronExpression, async () => {
-      await this.checkCalendar();
-    });
+    // Intents are announced with the wallet address, so it has to exist before the first one is queued
+    const walletAddress = await this.walletService.ensureWallet(this.CALENDAR_ID);
+    console.log(`👛 Wallet: ${walletAddress}`);
+
+    await this.rehydrate();
+
+    // Polling only discovers events; the scheduler fires each one at its exact time
+    this.pollTimer = setInterval(() => {
+      this.checkCalendar().catch((error) => {
+        console.error('Error in calendar check:', error);
+      });
+      this.settleUnconfirmed().catch((error) => {
+        console.error('Error settling unconfirmed transactions:', error);
+      });
+    }, this.CHECK_INTERVAL * 1000);
+
+    // Due transactions run side by side; the wallet's nonce manager keeps their nonces apart
+    this.scheduler.start((eventId) => this.executeQueued(eventId), this.CONCURRENCY);
 
     this.isRunning = true;
     this.stats.isRunning = true;
 
+    // Push notifications make new events show up within seconds; polling stays as the fallback
+    try {
+      const channel = await this.calendarService.watchCalendar(this.CALENDAR_ID, () => this.requestSync());
+      if (channel) {
+        console.log(`📡 Push notifications enabled (channel expires ${channel.expiration.toISOString()})`);
+      }
+    } catch (error) {
+      console.error('⚠️ Push notifications unavailable, relying on polling:', error);
+    }
+
     console.log('✅ Calendar Agent started successfully');
     console.log(`🔍 Monitoring for transaction events...`);
 
@@ -115,9 +263,9 @@ export class CalendarAgent {
   }
 
   /**
-   * Stop the calendar monitoring agent
+   * Stop the calendar monitoring agent and tear down push channels
    */
-  stop(): void {
+  async stop(): Promise<void> {
     if (!this.isRunning) {
       console.log('⚠️ Calendar Agent is not running');
       return;
@@ -125,47 +273,76 @@ export class CalendarAgent {
 
     console.log('🛑 Stopping Calendar Agent...');
 
-    if (this.cronJob) {
-      this.cronJob.stop();
-      this.cronJob = null;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
     }
+    this.scheduler.stop();
 
     this.isRunning = false;
     this.stats.isRunning = false;
 
+    await this.calendarService.unwatchCalendar(this.CALENDAR_ID);
+
     console.log('✅ Calendar Agent stopped');
   }
 
+  /**
+   * Sync right away (push notification received)
+   */
+  private requestSync(): void {
+    if (!this.isRunning) return;
+    console.log('📡 Calendar change notification received');
+    this.checkCalendar().catch((error) => {
+      console.error('Error in notified calendar check:', error);
+    });
+  }
+
   /**
    * Check calendar for new transaction events
    */
   private async checkCalendar(): Promise<void> {
+    // Checks never overlap; a request during a check runs once it finishes
+    if (this.isChecking) {
+      this.recheckRequested = true;
+      return;
+    }
+    this.isChecking = true;
+
     try {
       this.stats.lastCheckTime = new Date();
       this.stats.totalChecks++;
 
       console.log(`🔍 Checking calendar... (Check #${this.stats.totalChecks})`);
 
-      // Get upcoming events (next 24 hours)
-      const now = new Date();
-      const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+      // Only fetch what changed since the last check
+      const sync = await this.calendarService.syncEvents(this.syncState, this.CALENDAR_ID);
 
-      const events = await this.calendarService.getEventsBetween(now, tomorrow);
-
-      if (events.length === 0) {
-        console.log('📭 No upcoming events found');
-        return;
+      if (sync.fullSync) {
+        console.log(`🔄 Full sync: ${sync.deltas.length} upcoming events`);
+      } else if (sync.deltas.length === 0) {
+        console.log('📭 No calendar changes');
+      } else {
+        console.log(`📬 ${sync.deltas.length} calendar changes`);
       }
 
-      console.log(`📬 Found ${events.length} upcoming events`);
+      for (const delta of sync.deltas) {
+        await this.applyDelta(delta);
+      }
 
-      // Process each event
-      for (const event of events) {
-        await this.processEvent(event);
+      // A full sync reports no cancellations: queued events it should have returned were deleted
+      if (sync.fullSync) {
+        const seen = new Set(sync.deltas.map((delta) => delta.event.id));
+        for (const queued of this.getQueue()) {
+          if (!seen.has(queued.parsed.eventId) && queued.parsed.executionTime > sync.state.lastSyncedAt!) {
+            await this.cancelQueued(queued.parsed.eventId, 'Event deleted');
+          }
+        }
       }
 
-      // Execute ready transactions
-      await this.executeReadyTransactions();
+      // Advance the sync position only once every delta was handled
+      this.syncState = sync.state;
+      await this.store.saveSyncState(this.CALENDAR_ID, sync.state);
 
       // Update stats
       this.stats.queueSize = this.transactionQueue.size;
@@ -173,9 +350,267 @@ export class CalendarAgent {
       console.log(`✅ Check complete. Queue size: ${this.transactionQueue.size}`);
     } catch (error) {
       console.error('❌ Error checking calendar:', error);
+    } finally {
+      this.isChecking = false;
+    }
+
+    if (this.recheckRequested && this.isRunning) {
+      this.recheckRequested = false;
+      await this.checkCalendar();
     }
   }
 
+  /**
+   * Apply one change reported by the calendar sync
+   */
+  private async applyDelta(delta: CalendarEventDelta): Promise<void> {
+    const eventId = delta.event.id || '';
+
+    switch (delta.type) {
+      case 'created':
+      case 'updated':
+        if (this.transactionQueue.has(eventId)) {
+          await this.reconcileEdit(delta.event);
+        } else {
+          await this.processEvent(delta.event);
+        }
+        break;
+      case 'cancelled':
+        await this.cancelQueued(eventId, 'Event deleted');
+        break;
+    }
+  }
+
+  /**
+   * Show ```epochi block errors on the event so its author can fix them; clear them once fixed
+   */
+  private async syncBlockErrors(event: calendar_v3.Schema$Event, parsed: ParsedTransaction): Promise<void> {
+    const eventId = event.id || '';
+    const description = event.description || '';
+    const block = parsed.valid
+      ? null
+      : [
+          BLOCK_ERROR_HEADER,
+          '━━━━━━━━━━━━━━━━━━━━',
+          parsed.blockErrors?.length ? formatIntentBlockErrors(parsed.blockErrors) : parsed.error,
+        ].join('\n');
+
+    // Our own write comes back as an edit; don't write the same thing again
+    const upToDate = block ? description.includes(block) : !description.includes(BLOCK_ERROR_HEADER);
+    if (upToDate || this.blockErrorsWritten.get(eventId) === block) return;
+
+    try {
+      await this.calendarService.upsertDescriptionBlock(eventId, BLOCK_ERROR_HEADER, block);
+      this.blockErrorsWritten.set(eventId, block);
+    } catch (err) {
+      console.error('Failed to update calendar event:', err);
+    }
+  }
+
+  /**
+   * Re-parse an edited event that is already queued
+   * Invalid edits dequeue it; a changed intent replaces the queued one.
+   */
+  private async reconcileEdit(event: calendar_v3.Schema$Event): Promise<void> {
+    const eventId = event.id || '';
+    const queued = this.transactionQueue.get(eventId)!;
+    if (this.executing.has(eventId)) {
+      console.log(`⚠️ ${queued.parsed.eventTitle} was edited while executing, edit ignored`);
+      return;
+    }
+
+    const parsed = EventParser.parseEvent(event, this.CALENDAR_ID);
+    if (parsed.source === 'block') {
+      await this.syncBlockErrors(event, parsed);
+    }
+
+    if (!EventParser.validateTransaction(parsed)) {
+      console.log(`✏️ ${queued.parsed.eventTitle} is no longer a valid transaction, removing from queue`);
+      await this.dequeue(eventId);
+      this.stats.transactionsCancelled++;
+      await this.recordOccurrence(queued, 'cancelled');
+      await this.setIntentStatus(queued, IntentStatus.CANCELLED);
+      return;
+    }
+
+    const intentChanged = hashIntent(parsed) !== hashIntent(queued.parsed);
+    const timeChanged = parsed.executionTime.getTime() !== queued.parsed.executionTime.getTime() ||
+      windowEndOf(parsed).getTime() !== windowEndOf(queued.parsed).getTime();
+
+    // RSVP or tag on an unchanged intent that is waiting for approval
+    const signal = approvalSignal(event, parsed);
+    if (!intentChanged && queued.approval?.status === 'pending' && signal) {
+      await this.grantApproval(queued, signal);
+    }
+    if (!intentChanged && !timeChanged) return;
+
+    console.log(`✏️ Event edited: ${EventParser.formatTransaction(parsed)}`);
+    const updated: QueuedTransaction = {
+      ...queued,
+      parsed,
+      attempts: intentChanged ? 0 : queued.attempts,
+    };
+    // An approval covers one intent: a changed intent is assessed (and approved) again
+    if (intentChanged) {
+      await this.requestApproval(updated, event);
+    }
+    await this.saveQueued(updated);
+    this.scheduler.schedule(eventId, parsed.executionTime);
+
+    if (intentChanged) {
+      await this.setIntentStatus(queued, IntentStatus.CANCELLED);
+      await this.announceIntent(updated);
+    }
+  }
+
+  /**
+   * Cancel a queued transaction whose event was deleted
+   */
+  private async cancelQueued(eventId: string, reason: string): Promise<void> {
+    const queued = this.transactionQueue.get(eventId);
+    if (!queued) return;
+
+    if (this.executing.has(eventId)) {
+      console.log(`⚠️ ${queued.parsed.eventTitle} is already executing, cannot cancel`);
+      return;
+    }
+
+    console.log(`🚫 Cancelled ${queued.parsed.eventTitle}: ${reason}`);
+    await this.finalize(eventId, 'cancelled');
+    this.stats.transactionsCancelled++;
+    await this.setIntentStatus(queued, IntentStatus.CANCELLED);
+  }
+
+  /**
+   * Decide whether a newly queued (or changed) intent needs the owner's approval and ask for it
+   * An RSVP already on the event predates the request (Google accepts on the organizer's behalf),
+   * so only the title tag approves right away; the owner's response is reset so they can answer.
+   */
+  private async requestApproval(queued: QueuedTransaction, event: calendar_v3.Schema$Event): Promise<void> {
+    if (this.dryRun) return;
+
+    const { parsed } = queued;
+    const previous = queued.approval;
+    const { required, valueUsd } = await this.approvalGate.assess(parsed);
+    if (!required) {
+      queued.approval = undefined;
+      if (previous) {
+        await this.calendarService.upsertDescriptionBlock(parsed.eventId, APPROVAL_HEADER, null).catch((err) => {
+          console.error('Failed to update calendar event:', err);
+        });
+      }
+      return;
+    }
+
+    const intentHash = hashIntent(parsed);
+    const requestedAt = new Date();
+
+    if (parsed.approvalTagged) {
+      queued.approval = { status: 'approved', intentHash, valueUsd, requestedAt, approvedAt: requestedAt, approvedVia: 'tag' };
+      console.log(`🔓 ${parsed.eventTitle} is tagged as approved`);
+    } else {
+      const { token, nonce } = this.approvalGate.issueToken(parsed.eventId, intentHash, windowEndOf(parsed));
+      queued.approval = { status: 'pending', intentHash, valueUsd, requestedAt, nonce };
+      console.log(`🔐 ${parsed.eventTitle} needs approval (${formatUsd(valueUsd)})`);
+
+      const owner = ownerAttendee(event);
+      if (owner && owner.responseStatus !== 'needsAction') {
+        await this.calendarService.updateEvent(parsed.eventId, {
+          attendees: event.attendees!.map((attendee) =>
+            attendee.self ? { ...attendee, responseStatus: 'needsAction' } : attendee
+          ),
+        }).catch((err) => {
+          console.error('Failed to reset RSVP:', err);
+        });
+      }
+
+      await this.writeApprovalBlock(queued, token);
+      return;
+    }
+
+    await this.writeApprovalBlock(queued);
+  }
+
+  /**
+   * Approve an intent from a signed approval link
+   * The token is single use: it must carry the nonce of the outstanding request for the current intent.
+   */
+  async approve(eventId: string, token: string): Promise<QueuedTransaction> {
+    const claims = this.approvalGate.verifyToken(token);
+    if (!claims || claims.eventId !== eventId) {
+      throw new ApprovalError('Invalid or expired approval token', 403);
+    }
+
+    const queued = this.transactionQueue.get(eventId);
+    if (!queued) {
+      throw new ApprovalError(`No queued transaction for event ${eventId}`, 404);
+    }
+    if (queued.approval?.status !== 'pending' || queued.approval.nonce !== claims.nonce) {
+      throw new ApprovalError('Approval token was already used or has been replaced', 409);
+    }
+    if (claims.intentHash !== hashIntent(queued.parsed)) {
+      throw new ApprovalError('The event changed since this approval was requested', 409);
+    }
+
+    await this.grantApproval(queued, 'link');
+    return queued;
+  }
+
+  /**
+   * Mark a pending intent approved and let it run (right away if its time has come)
+   */
+  private async grantApproval(queued: QueuedTransaction, via: 'rsvp' | 'tag' | 'link'): Promise<void> {
+    const { parsed } = queued;
+
+    queued.approval = {
+      ...queued.approval!,
+      status: 'approved',
+      nonce: undefined,
+      approvedAt: new Date(),
+      approvedVia: via,
+    };
+    await this.saveQueued(queued);
+    this.scheduler.schedule(parsed.eventId, parsed.executionTime);
+
+    console.log(`🔓 ${parsed.eventTitle} approved (${via})`);
+    await this.writeApprovalBlock(queued);
+  }
+
+  /**
+   * Write the approval request (with its link token) or the approval to the event
+   */
+  private async writeApprovalBlock(queued: QueuedTransaction, token?: string): Promise<void> {
+    const { parsed } = queued;
+    const approval = queued.approval!;
+    const threshold = this.approvalGate.getThreshold();
+    const value = `💵 Value: ${formatUsd(approval.valueUsd)} (approval required above ${formatUsd(threshold)})`;
+    const via = { rsvp: 'RSVP "Yes"', tag: '#approved tag', link: 'approval link' };
+
+    const lines = approval.status === 'pending'
+      ? [
+          `${APPROVAL_HEADER} Required`,
+          '━━━━━━━━━━━━━━━━━━━━',
+          value,
+          'This transaction will not run until approved. Approve by any of:',
+          '✅ RSVP "Yes" to this event',
+          '🏷️ Adding #approved to the title',
+          `🔗 POST ${this.APPROVAL_BASE_URL}/api/agent/queue/${encodeURIComponent(parsed.eventId)}/approve?token=${token}`,
+          `⌛ Expires: ${formatStamp(windowEndOf(parsed), parsed.timeZone)}`,
+        ]
+      : [
+          `${APPROVAL_HEADER} Granted`,
+          '━━━━━━━━━━━━━━━━━━━━',
+          value,
+          `✅ Approved via ${via[approval.approvedVia!]}`,
+          `⏰ Approved: ${formatStamp(approval.approvedAt!, parsed.timeZone)}`,
+        ];
+
+    await this.calendarService.upsertDescriptionBlock(parsed.eventId, APPROVAL_HEADER, lines.join('\n'))
+      .catch((err) => {
+        console.error('Failed to update calendar event:', err);
+      });
+  }
+
   /**
    * Process a single calendar event
    */
@@ -195,132 +630,783 @@ export class CalendarAgent {
     // Skip if already executed (check description for checkmark)
     if (event.description?.includes('✅ Transaction Executed')) {
       console.log(`   ✅ Already executed, skipping`);
-      this.processedEvents.add(eventId);
+      await this.markProcessed(eventId, 'executed');
       return;
     }
 
     // Parse the event
-    const parsed = EventParser.parseEvent(event);
+    const parsed = EventParser.parseEvent(event, this.CALENDAR_ID);
     console.log(`   🔍 Parse result: type=${parsed.type}, valid=${parsed.valid}, error=${parsed.error || 'none'}`);
 
+    if (parsed.source === 'block') {
+      await this.syncBlockErrors(event, parsed);
+    }
+
     // Skip if not a valid transaction
     if (!EventParser.validateTransaction(parsed)) {
       console.log(`   ❌ Validation failed - not a transaction event or time issue`);
       return;
     }
 
+    // Skip intents the execution ledger has already seen (survives drags and edited descriptions)
+    const ledgerEntry = await this.ledger.get(
+      createLedgerKey(ledgerKeyParts(parsed, this.CALENDAR_ID))
+    );
+    if (ledgerEntry?.status === 'executed') {
+      console.log(`   ✅ Already executed (ledger), skipping`);
+      await this.markProcessed(eventId, 'executed');
+      return;
+    }
+    if (ledgerEntry?.status === 'in-progress') {
+      console.log(`   ⏳ Execution in progress elsewhere, skipping`);
+      return;
+    }
+    if (ledgerEntry?.status === 'unconfirmed') {
+      console.log(`   ⏳ Sent and awaiting confirmation (${ledgerEntry.txHash}), skipping`);
+      await this.markProcessed(eventId, 'unconfirmed');
+      return;
+    }
+
+    // Recurring instances are tracked per occurrence of the series
+    if (parsed.recurringEventId) {
+      const occurrence = await this.store.getOccurrence(parsed.recurringEventId, occurrenceTimeOf(parsed));
+      if (occurrence && occurrence.status !== 'queued' && occurrence.status !== 'cancelled') {
+        console.log(`   ⏭️  Occurrence already ${occurrence.status}, skipping`);
+        await this.markProcessed(eventId, occurrence.status);
+        return;
+      }
+    }
+
     console.log(`🎯 Detected transaction: ${EventParser.formatTransaction(parsed)}`);
     
     // Add to queue if not already there
     if (!this.transactionQueue.has(eventId)) {
-      this.transactionQueue.set(eventId, {
+      const queued: QueuedTransaction = {
         parsed,
         calendarId: this.CALENDAR_ID,
         addedAt: new Date(),
         attempts: 0,
-      });
+      };
+      await this.requestApproval(queued, event);
+      await this.saveQueued(queued);
+      this.scheduler.schedule(eventId, parsed.executionTime);
 
       this.stats.transactionsDetected++;
       console.log(`➕ Added to queue: ${eventTitle}`);
+
+      await this.recordOccurrence(queued, 'queued');
+      await this.announceIntent(queued);
     }
   }
 
   /**
-   * Execute transactions that are ready
+   * Execute a queued transaction when the scheduler fires it
    */
-  private async executeReadyTransactions(): Promise<void> {
-    const now = new Date();
+  private async executeQueued(eventId: string): Promise<void> {
+    const queued = this.transactionQueue.get(eventId);
+    if (!queued) return; // Finalized or removed since it was scheduled
 
-    for (const [eventId, queued] of this.transactionQueue.entries()) {
-      const { parsed, calendarId, attempts } = queued;
+    const { parsed, calendarId, attempts } = queued;
+    const firedAt = new Date();
 
-      // Check if execution time has arrived
-      if (parsed.executionTime > now) {
-        const timeUntil = Math.floor((parsed.executionTime.getTime() - now.getTime()) / 1000);
-        if (timeUntil % 60 === 0) { // Log every minute
-          console.log(`⏳ Waiting for ${parsed.eventTitle} (${timeUntil}s)`);
-        }
-        continue;
+    // The event may have moved later since it was scheduled
+    if (parsed.executionTime > firedAt) {
+      this.scheduler.schedule(eventId, parsed.executionTime);
+      return;
+    }
+
+    // Nothing runs after the event's window (e.g. the agent was down until after it ended)
+    if (firedAt >= windowEndOf(parsed)) {
+      await this.expire(
+        queued,
+        queued.approval?.status === 'pending'
+          ? 'Not approved before the event ended'
+          : 'The event ended before the transaction could run',
+        queued.lastConditionCheck && formatConditionCheck(queued.lastConditionCheck)
+      );
+      return;
+    }
+
+    // Waits for approval until the window closes; approving reschedules it
+    if (queued.approval?.status === 'pending' && !this.dryRun) {
+      console.log(`🔐 ${parsed.eventTitle} is awaiting approval until ${windowEndOf(parsed).toISOString()}`);
+      this.scheduler.schedule(eventId, windowEndOf(parsed));
+      return;
+    }
+
+    // Check if max retries exceeded
+    if (attempts >= this.MAX_RETRY_ATTEMPTS) {
+      console.log(`❌ Max retries exceeded for ${parsed.eventTitle}`);
+      await this.finalize(eventId, 'failed');
+      this.stats.transactionsFailed++;
+      await this.setIntentStatus(queued, IntentStatus.FAILED);
+      return;
+    }
+
+    // Conditions are re-checked until the event ends, then the intent expires
+    if (parsed.conditions?.length) {
+      const check = await this.conditionEvaluator.evaluate(parsed.conditions, calendarId);
+      queued.lastConditionCheck = { ...check, checkedAt: firedAt };
+      if (!check.met) {
+        await this.deferForConditions(queued, check);
+        return;
       }
+      console.log(`✅ Conditions met for ${parsed.eventTitle}`);
+    }
 
-      // Check if max retries exceeded
-      if (attempts >= this.MAX_RETRY_ATTEMPTS) {
-        console.log(`❌ Max retries exceeded for ${parsed.eventTitle}`);
-        this.transactionQueue.delete(eventId);
-        this.processedEvents.add(eventId);
-        this.stats.transactionsFailed++;
-        continue;
+    if (this.dryRun) {
+      await this.previewQueued(queued);
+      return;
+    }
+
+    console.log(`🚀 Executing transaction: ${parsed.eventTitle}`);
+
+    const attempt = attempts + 1;
+    const ledgerParts = ledgerKeyParts(parsed, calendarId);
+    const ledgerKey = createLedgerKey(ledgerParts);
+    let attemptStarted = false;
+    let claimed = false;
+    let executed = false;
+
+    this.executing.add(eventId);
+
+    try {
+      // At most once per intent: claim it in the execution ledger
+      const claim = await this.ledger.claim(ledgerParts);
+      if (!claim.claimed) {
+        console.log(`⏭️  Ledger shows ${parsed.eventTitle} as ${claim.entry.status}, not executing again`);
+        await this.finalize(eventId, 'skipped');
+        return;
       }
+      claimed = true;
+
+      // Persist the attempt before anything can be broadcast
+      await this.store.beginAttempt({
+        eventId,
+        attempt,
+        startedAt: new Date(),
+        nonceBefore: await this.walletService.getNonce(calendarId),
+        transactions: [],
+      });
+      attemptStarted = true;
+
+      // Execute the transaction, persisting each nonce it reserves and each hash it broadcasts
+      const result = await this.walletService.recordBroadcasts(
+        {
+          reserved: (nonce) => this.store.recordAttemptTransaction(eventId, attempt, { nonce }),
+          broadcast: (nonce, hash) => this.store.recordAttemptTransaction(eventId, attempt, { nonce, hash }),
+        },
+        () => this.transactionExecutor.executeTransaction(parsed, calendarId)
+      );
+      executed = true;
+
+      await this.ledger.complete(ledgerKey, {
+        success: hasSentFunds(result),
+        unconfirmed: result.unconfirmed,
+        txHash: result.txHash,
+        txNonce: result.txNonce,
+        error: result.error,
+      });
+
+      await this.store.finishAttempt(eventId, attempt, {
+        success: result.success,
+        txHash: result.txHash,
+        error: result.error,
+      });
 
-      console.log(`🚀 Executing transaction: ${parsed.eventTitle}`);
+      if (result.success) {
+        const timeDeltaMs = firedAt.getTime() - parsed.executionTime.getTime();
+        this.stats.lastTimeDeltaMs = timeDeltaMs;
 
-      try {
-        // Execute the transaction
-        const result = await this.transactionExecutor.executeTransaction(
-          parsed,
-          calendarId
-        );
+        console.log(`✅ Transaction executed successfully!`);
+        console.log(`🔗 Explorer: ${result.explorerUrl}`);
+        console.log(`⏱️ Fired ${(timeDeltaMs / 1000).toFixed(1)}s after scheduled time`);
 
-        if (result.success) {
-          console.log(`✅ Transaction executed successfully!`);
-          console.log(`🔗 Explorer: ${result.explorerUrl}`);
+        await this.recordExecutionProof(queued, result, firedAt);
+        await this.setIntentStatus(queued, IntentStatus.COMPLETED);
 
-          // Update calendar event
+        // Update calendar event
+        await this.calendarService.appendToDescription(
+          eventId,
+          `
+✅ Transaction Executed!
+━━━━━━━━━━━━━━━━━━━━
+🔗 Transaction: ${result.explorerUrl}${parsed.amountExpression ? `
+🧮 Amount: ${result.resolvedAmount} ${parsed.fromToken} (${describeAmount(parsed.amountExpression, parsed.fromToken)})` : ''}
+${result.legs ? `👥 Batch: ${result.batchId}
+${formatBatchLegs(result.legs, parsed.fromToken)}` : `💰 Received: ${result.amountReceived} ${parsed.toToken}`}
+📊 Data Stream: ${result.streamTxHash}
+⏰ Executed: ${formatStamp(new Date(), parsed.timeZone)}
+⏱️ Time delta: ${(timeDeltaMs / 1000).toFixed(1)}s
+          `.trim()
+        ).catch((err) => {
+          console.error('Failed to update calendar event:', err);
+        });
+
+        // Remove from queue and mark as processed
+        await this.finalize(eventId, 'executed', { txHash: result.txHash });
+        this.stats.transactionsExecuted++;
+      } else {
+        console.log(`❌ Transaction failed: ${result.error}`);
+
+        // Increment attempts
+        queued.attempts = attempt;
+        await this.saveQueued(queued);
+
+        // Conditions changed since the check above: nothing was sent, wait for them again
+        if (result.conditionCheck) {
+          queued.lastConditionCheck = { ...result.conditionCheck, checkedAt: new Date() };
+          await this.deferForConditions(queued, result.conditionCheck);
+          return;
+        }
+
+        // Sent but not confirmed is final too - it may still be mined; settleUnconfirmed records the outcome
+        if (result.unconfirmed) {
           await this.calendarService.appendToDescription(
             eventId,
             `
-✅ Transaction Executed!
+⏳ Transaction Sent, Not Confirmed
 ━━━━━━━━━━━━━━━━━━━━
 🔗 Transaction: ${result.explorerUrl}
-💰 Received: ${result.amountReceived} ${parsed.toToken}
-📊 Data Stream: ${result.streamTxHash}
-⏰ Executed: ${new Date().toISOString()}
+It will not be sent again; the outcome is recorded here once it is mined.${result.legs ? `
+👥 Batch: ${result.batchId}
+${formatBatchLegs(result.legs, parsed.fromToken)}` : ''}
+⏰ Sent: ${formatStamp(new Date(), parsed.timeZone)}
             `.trim()
           ).catch((err) => {
             console.error('Failed to update calendar event:', err);
           });
 
-          // Remove from queue and mark as processed
-          this.transactionQueue.delete(eventId);
-          this.processedEvents.add(eventId);
-          this.stats.transactionsExecuted++;
-        } else {
-          console.log(`❌ Transaction failed: ${result.error}`);
+          await this.finalize(eventId, 'unconfirmed', { txHash: result.txHash, error: result.error });
+          return;
+        }
 
-          // Increment attempts
-          queued.attempts++;
-          this.transactionQueue.set(eventId, queued);
+        // A partly sent batch is final - retrying would pay the sent legs twice
+        if (result.legs?.some((leg) => leg.status === 'executed')) {
+          await this.calendarService.appendToDescription(
+            eventId,
+            `
+❌ Batch Partly Executed
+━━━━━━━━━━━━━━━━━━━━
+Error: ${result.error}
+👥 Batch: ${result.batchId}
+${formatBatchLegs(result.legs, parsed.fromToken)}
+⏰ Attempted: ${formatStamp(new Date(), parsed.timeZone)}
+            `.trim()
+          ).catch((err) => {
+            console.error('Failed to update calendar event:', err);
+          });
+
+          await this.finalize(eventId, 'failed', { txHash: result.txHash, error: result.error });
+          this.stats.transactionsFailed++;
+          await this.setIntentStatus(queued, IntentStatus.FAILED);
+          return;
+        }
 
-          // If max retries reached, update calendar with failure
-          if (queued.attempts >= this.MAX_RETRY_ATTEMPTS) {
-            await this.calendarService.appendToDescription(
-              eventId,
-              `
+        // Spending policy violations cancel the event - nothing was sent
+        if (result.policyViolation) {
+          await this.calendarService.appendToDescription(
+            eventId,
+            `
+🚫 Transaction Cancelled (Spending policy)
+━━━━━━━━━━━━━━━━━━━━
+Error: ${result.error}
+${formatPolicyViolation(result.policyViolation)}
+⏰ Attempted: ${formatStamp(new Date(), parsed.timeZone)}
+            `.trim()
+          ).catch((err) => {
+            console.error('Failed to update calendar event:', err);
+          });
+
+          await this.finalize(eventId, 'cancelled', { error: result.error });
+          this.stats.transactionsCancelled++;
+          await this.setIntentStatus(queued, IntentStatus.CANCELLED);
+          return;
+        }
+
+        // Price guard refusals are final - retrying at the same price would fail again
+        if (result.guardFailure) {
+          await this.calendarService.appendToDescription(
+            eventId,
+            `
+❌ Transaction Failed (Price guard)
+━━━━━━━━━━━━━━━━━━━━
+Error: ${result.error}
+${formatGuardFailure(result.guardFailure)}
+⏰ Attempted: ${formatStamp(new Date(), parsed.timeZone)}
+            `.trim()
+          ).catch((err) => {
+            console.error('Failed to update calendar event:', err);
+          });
+
+          await this.finalize(eventId, 'failed', { error: result.error });
+          this.stats.transactionsFailed++;
+          await this.setIntentStatus(queued, IntentStatus.FAILED);
+          return;
+        }
+
+        // If max retries reached, update calendar with failure
+        if (queued.attempts >= this.MAX_RETRY_ATTEMPTS) {
+          await this.calendarService.appendToDescription(
+            eventId,
+            `
 ❌ Transaction Failed (Max retries exceeded)
 ━━━━━━━━━━━━━━━━━━━━
 Error: ${result.error}
 Attempts: ${queued.attempts}
-⏰ Last attempt: ${new Date().toISOString()}
-              `.trim()
-            ).catch((err) => {
-              console.error('Failed to update calendar event:', err);
-            });
-
-            this.transactionQueue.delete(eventId);
-            this.processedEvents.add(eventId);
-            this.stats.transactionsFailed++;
-          }
+⏰ Last attempt: ${formatStamp(new Date(), parsed.timeZone)}
+            `.trim()
+          ).catch((err) => {
+            console.error('Failed to update calendar event:', err);
+          });
+
+          await this.finalize(eventId, 'failed', { error: result.error });
+          this.stats.transactionsFailed++;
+          await this.setIntentStatus(queued, IntentStatus.FAILED);
+          return;
         }
-      } catch (error: any) {
-        console.error(`❌ Error executing transaction:`, error);
-        
-        // Increment attempts
-        queued.attempts++;
-        this.transactionQueue.set(eventId, queued);
+
+        await this.scheduleRetry(queued, result.error);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error executing transaction:`, error);
+
+      // Nothing was sent, so the intent may be claimed again
+      if (claimed && !executed) {
+        await this.ledger.release(ledgerKey).catch((err) => console.error('Failed to release ledger claim:', err));
+      }
+
+      if (attemptStarted) {
+        await this.store.finishAttempt(eventId, attempt, {
+          success: false,
+          error: error.message,
+        }).catch((err) => console.error('Failed to record attempt:', err));
+      }
+
+      // Increment attempts
+      queued.attempts = attempt;
+      await this.saveQueued(queued).catch((err) => console.error('Failed to persist queue:', err));
+      await this.scheduleRetry(queued, error.message);
+    } finally {
+      this.executing.delete(eventId);
+    }
+  }
+
+  /**
+   * Re-check unmet conditions later, or expire the intent once the event has ended
+   */
+  private async deferForConditions(queued: QueuedTransaction, check: ConditionCheck): Promise<void> {
+    const { parsed } = queued;
+
+    // Last check just before the window closes
+    const recheckAt = Math.min(Date.now() + this.CONDITION_RECHECK_MS, windowEndOf(parsed).getTime() - 1000);
+    if (recheckAt > Date.now()) {
+      console.log(`⏳ Conditions not met for ${parsed.eventTitle}, re-checking at ${new Date(recheckAt).toISOString()}`);
+      this.scheduler.schedule(parsed.eventId, new Date(recheckAt));
+      return;
+    }
+
+    await this.expire(queued, 'Conditions were not met before the event ended', formatConditionCheck(check));
+  }
+
+  /**
+   * Retry a failed execution after a short delay, or expire it if the window closes first
+   */
+  private async scheduleRetry(queued: QueuedTransaction, error?: string): Promise<void> {
+    const { parsed } = queued;
+    const retryAt = new Date(Date.now() + this.RETRY_DELAY_MS);
+
+    if (retryAt >= windowEndOf(parsed)) {
+      await this.expire(
+        queued,
+        `The event ended before a retry could succeed (${queued.attempts} attempts)`,
+        error ? `Last error: ${error}` : undefined
+      );
+      return;
+    }
+
+    console.log(`🔁 Retrying ${parsed.eventId} at ${retryAt.toISOString()}`);
+    this.scheduler.schedule(parsed.eventId, retryAt);
+  }
+
+  /**
+   * Give up on an intent whose execution window closed: note it on the event and on Data Streams
+   */
+  private async expire(queued: QueuedTransaction, reason: string, details?: string): Promise<void> {
+    const { parsed, calendarId } = queued;
+    const eventId = parsed.eventId;
+
+    console.log(`⌛ ${parsed.eventTitle} expired: ${reason}`);
+
+    await this.calendarService.appendToDescription(
+      eventId,
+      [
+        '⌛ Transaction Expired',
+        '━━━━━━━━━━━━━━━━━━━━',
+        reason,
+        ...(details ? [details] : []),
+        `⏰ Window ended: ${formatStamp(windowEndOf(parsed), parsed.timeZone)}`,
+      ].join('\n')
+    ).catch((err) => {
+      console.error('Failed to update calendar event:', err);
+    });
+
+    await this.finalize(eventId, 'expired', { error: reason });
+    this.stats.transactionsExpired++;
+    await this.setIntentStatus(queued, IntentStatus.EXPIRED);
+    if (this.dryRun) return;
+
+    try {
+      const record = this.dataStreamsService.createTransactionRecord(
+        calendarId,
+        eventId,
+        this.walletService.getWalletAddress(calendarId),
+        parsed.fromToken,
+        parsed.toToken,
+        BigInt(0),
+        BigInt(0),
+        '',
+        TransactionStatus.EXPIRED,
+        reason,
+        parsed.type === 'swap' ? TransactionType.SWAP : TransactionType.TRANSFER
+      );
+      await this.dataStreamsService.writeTransaction(record);
+    } catch (error) {
+      console.error('Failed to record expiry to Data Streams:', error);
+    }
+  }
+
+  /**
+   * Simulation mode: run the whole pipeline as a dry run and write the preview to the event
+   */
+  private async previewQueued(queued: QueuedTransaction): Promise<void> {
+    const { parsed, calendarId } = queued;
+    const eventId = parsed.eventId;
+
+    const result = await this.transactionExecutor.executeTransaction(parsed, calendarId, { dryRun: true });
+    console.log(`🧪 Previewed ${parsed.eventTitle}: ${result.success ? 'would succeed' : `would fail (${result.error})`}`);
+
+    await this.calendarService.upsertDescriptionBlock(eventId, PREVIEW_HEADER, formatPreview(parsed, result))
+      .catch((err) => {
+        console.error('Failed to update calendar event:', err);
+      });
+
+    await this.finalize(eventId, 'skipped', { error: 'Dry run (simulation mode)' });
+    this.stats.transactionsPreviewed++;
+  }
+
+  /**
+   * Record an execution proof with the measured time delta (best effort)
+   */
+  private async recordExecutionProof(
+    queued: QueuedTransaction,
+    result: ExecutionResult,
+    firedAt: Date
+  ): Promise<void> {
+    if (!this.enhancedDataStreamsService) return;
+
+    const { parsed } = queued;
+
+    try {
+      await this.enhancedDataStreamsService.createExecutionProof(
+        this.intentIdFor(queued),
+        result.txHash || '',
+        toSeconds(parsed.executionTime),
+        result.rawAmountIn ?? BigInt(0),
+        result.rawAmountReceived ?? BigInt(0),
+        result.success,
+        toSeconds(firedAt),
+        parsed.timeZone
+      );
+    } catch (error) {
+      console.error('Failed to record execution proof:', error);
+    }
+  }
+
+  /**
+   * Announce a queued transaction as a scheduled intent (best effort)
+   */
+  private async announceIntent(queued: QueuedTransaction): Promise<void> {
+    if (!this.enhancedDataStreamsService || this.dryRun) return;
+
+    const { parsed, calendarId } = queued;
+    const decimals = tokenRegistry.resolve(parsed.fromToken)?.decimals ?? 18;
+
+    try {
+      await this.enhancedDataStreamsService.announceIntent({
+        scheduledTime: toSeconds(parsed.executionTime),
+        intentId: this.intentIdFor(queued),
+        userWallet: this.walletService.getWalletAddress(calendarId),
+        transactionType: parsed.type,
+        fromToken: parsed.fromToken,
+        toToken: parsed.toToken,
+        // Balance-relative amounts are unknown until execution; the proof carries the resolved amount
+        amount: parsed.amountExpression ? BigInt(0) : parseUnits(parsed.amount, decimals),
+        description: parsed.eventTitle,
+        createdAt: toSeconds(queued.addedAt),
+        status: IntentStatus.SCHEDULED,
+        timeZone: parsed.timeZone ?? 'UTC',
+        scheduledLocalTime: formatLocalTime(parsed.executionTime, parsed.timeZone ?? 'UTC'),
+      });
+    } catch (error) {
+      console.error('Failed to announce intent:', error);
+    }
+  }
+
+  /**
+   * Update the status of a queued transaction's intent (best effort)
+   */
+  private async setIntentStatus(queued: QueuedTransaction, status: IntentStatus): Promise<void> {
+    if (!this.enhancedDataStreamsService || this.dryRun) return;
+
+    try {
+      await this.enhancedDataStreamsService.updateIntentStatus(this.intentIdFor(queued), status);
+    } catch (error) {
+      console.error(`Failed to mark intent ${status}:`, error);
+    }
+  }
+
+  private intentIdFor(queued: QueuedTransaction): string {
+    const { parsed, calendarId } = queued;
+    return createEventIntentId(calendarId, parsed.eventId, parsed.originalStartTime, hashIntent(parsed));
+  }
+
+  /**
+   * Restore queue, processed-event ledger and sync position from the store
+   */
+  private async rehydrate(): Promise<void> {
+    const [queue, processed, syncState] = await Promise.all([
+      this.store.loadQueue(),
+      this.store.loadProcessed(),
+      this.store.loadSyncState(this.CALENDAR_ID),
+    ]);
+
+    this.transactionQueue = new Map(queue.map((item) => [item.parsed.eventId, item]));
+    this.processedEvents = new Set(processed);
+    this.syncState = syncState;
+
+    for (const attempt of await this.store.getInterruptedAttempts()) {
+      await this.reconcileInterruptedAttempt(attempt);
+    }
+    await this.settleUnconfirmed().catch((error) => {
+      console.error('Error settling unconfirmed transactions:', error);
+    });
+
+    for (const item of this.transactionQueue.values()) {
+      this.scheduler.schedule(item.parsed.eventId, item.parsed.executionTime);
+    }
+
+    console.log(`♻️ Restored ${this.transactionQueue.size} queued transactions and ${this.processedEvents.size} processed events`);
+  }
+
+  /**
+   * Decide what to do with an attempt that never finished (crash mid-execution)
+   * Each nonce the attempt reserved is checked on its own: if none of its transactions can
+   * have been mined, nothing left the wallet and the item stays queued for retry.
+   * Otherwise never re-send; flag the event for manual verification instead.
+   */
+  private async reconcileInterruptedAttempt(attempt: ExecutionAttempt): Promise<void> {
+    const queued = this.transactionQueue.get(attempt.eventId);
+    const calendarId = queued?.calendarId ?? this.CALENDAR_ID;
+    const statuses = await Promise.all(
+      attempt.transactions.map((tx) =>
+        this.walletService.getBroadcastStatus(calendarId, { nonce: tx.nonce, hash: tx.hash as Hash | undefined })
+      )
+    );
+
+    if (statuses.every((status) => status === 'not-sent')) {
+      console.log(`♻️ Attempt ${attempt.attempt} for ${attempt.eventId} was interrupted before broadcast, will retry`);
+      await this.store.finishAttempt(attempt.eventId, attempt.attempt, {
+        success: false,
+        error: 'Interrupted before broadcast',
+      });
+      if (queued) {
+        await this.ledger.release(createLedgerKey(ledgerKeyParts(queued.parsed, calendarId)));
+      }
+      return;
+    }
+
+    const sent = attempt.transactions.filter((tx) => tx.hash);
+    console.log(`⚠️ Attempt ${attempt.attempt} for ${attempt.eventId} was interrupted after broadcast, not retrying`);
+    await this.store.finishAttempt(attempt.eventId, attempt.attempt, {
+      success: false,
+      txHash: sent[sent.length - 1]?.hash,
+      error: 'Interrupted after broadcast - verify on explorer',
+    });
+    await this.finalize(attempt.eventId, 'interrupted');
+
+    await this.calendarService.appendToDescription(
+      attempt.eventId,
+      `
+⚠️ Execution Interrupted
+━━━━━━━━━━━━━━━━━━━━
+The agent restarted while this transaction was being sent.
+A transaction may have left the wallet, so it will not be retried automatically.
+Re-run with "override": true on POST /api/transactions/execute if it did not go through.
+${sent.map((tx) => `🔗 Sent: ${this.walletService.getTransactionUrl(tx.hash!)}`).join('\n') || `🔗 Verify: ${this.walletService.getWalletExplorerUrl(calendarId)}`}
+⏰ Started: ${attempt.startedAt.toISOString()}
+      `.trim()
+    ).catch((err) => {
+      console.error('Failed to update calendar event:', err);
+    });
+  }
+
+  /**
+   * Record the outcome of transactions that were sent but not confirmed
+   * Mined ones become executed (or failed if reverted); one whose nonce the wallet has used for
+   * another transaction can never be mined and becomes failed, so it may be run again.
+   */
+  private async settleUnconfirmed(): Promise<void> {
+    for (const entry of await this.ledger.getUnconfirmed(this.CALENDAR_ID)) {
+      if (!entry.txHash || entry.txNonce === undefined) continue;
+
+      const status = await this.walletService.getBroadcastStatus(entry.calendarId, {
+        hash: entry.txHash as Hash,
+        nonce: entry.txNonce,
+      });
+      if (status === 'pending' || status === 'unknown') continue;
+
+      const confirmed = status === 'confirmed';
+      const error = status === 'reverted' ? 'Reverted on-chain' : 'Never mined (its nonce was used by another transaction)';
+      console.log(`${confirmed ? '✅' : '❌'} Unconfirmed transaction ${entry.txHash} settled: ${status}`);
+
+      await this.ledger.complete(entry.key, {
+        success: confirmed,
+        txHash: entry.txHash,
+        error: confirmed ? undefined : error,
+      });
+      await this.markProcessed(entry.eventId, confirmed ? 'executed' : 'failed');
+      if (confirmed) {
+        this.stats.transactionsExecuted++;
+      } else {
+        this.stats.transactionsFailed++;
+      }
+
+      if (this.enhancedDataStreamsService) {
+        await this.enhancedDataStreamsService
+          .updateIntentStatus(
+            createEventIntentId(entry.calendarId, entry.eventId, entry.originalStartTime, entry.intentHash),
+            confirmed ? IntentStatus.COMPLETED : IntentStatus.FAILED
+          )
+          .catch((err) => console.error(`Failed to mark intent ${confirmed ? 'completed' : 'failed'}:`, err));
       }
+
+      await this.calendarService.appendToDescription(
+        entry.eventId,
+        confirmed
+          ? `
+✅ Transaction Confirmed
+━━━━━━━━━━━━━━━━━━━━
+🔗 Transaction: ${this.walletService.getTransactionUrl(entry.txHash)}
+⏰ Settled: ${new Date().toISOString()}
+          `.trim()
+          : `
+❌ Transaction Not Executed
+━━━━━━━━━━━━━━━━━━━━
+Error: ${error}
+🔗 Transaction: ${this.walletService.getTransactionUrl(entry.txHash)}
+Re-run it with POST /api/transactions/execute if it should still go through.
+⏰ Settled: ${new Date().toISOString()}
+          `.trim()
+      ).catch((err) => {
+        console.error('Failed to update calendar event:', err);
+      });
+    }
+  }
+
+  /**
+   * Add or update a queued transaction (write-through to the store)
+   */
+  private async saveQueued(item: QueuedTransaction): Promise<void> {
+    await this.store.saveQueued(item);
+    this.transactionQueue.set(item.parsed.eventId, item);
+  }
+
+  /**
+   * Record an event in the processed ledger without touching the queue
+   */
+  private async markProcessed(eventId: string, outcome: ProcessedOutcome): Promise<void> {
+    await this.store.markProcessed(eventId, outcome);
+    this.processedEvents.add(eventId);
+  }
+
+  /**
+   * Remove an event from the queue and record its final outcome
+   */
+  private async finalize(
+    eventId: string,
+    outcome: ProcessedOutcome,
+    details: { txHash?: string; error?: string } = {}
+  ): Promise<void> {
+    const queued = this.transactionQueue.get(eventId);
+    await this.dequeue(eventId);
+    await this.markProcessed(eventId, outcome);
+
+    if (queued) {
+      await this.recordOccurrence(queued, outcome, details);
+    }
+  }
+
+  /**
+   * Record the status of a recurring occurrence and refresh the series summary
+   */
+  private async recordOccurrence(
+    queued: QueuedTransaction,
+    status: OccurrenceStatus,
+    details: { txHash?: string; error?: string } = {}
+  ): Promise<void> {
+    const { parsed, calendarId } = queued;
+    if (!parsed.recurringEventId) return;
+
+    await this.store.recordOccurrence({
+      seriesId: parsed.recurringEventId,
+      occurrenceTime: occurrenceTimeOf(parsed),
+      eventId: parsed.eventId,
+      calendarId,
+      status,
+      txHash: details.txHash,
+      error: details.error,
+      updatedAt: new Date(),
+    });
+
+    if (status !== 'queued') {
+      await this.updateSeriesSummary(parsed.recurringEventId).catch((err) => {
+        console.error('Failed to update series summary:', err);
+      });
     }
   }
 
+  /**
+   * Write outcome counts to the master event (inherited by instances without edits)
+   */
+  private async updateSeriesSummary(seriesId: string): Promise<void> {
+    const summary = await this.getSeries(seriesId);
+    const last = summary.occurrences
+      .filter((occurrence) => occurrence.status !== 'queued')
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+
+    const lines = [
+      SERIES_SUMMARY_HEADER,
+      '━━━━━━━━━━━━━━━━━━━━',
+      `Executed: ${summary.executed} | Failed: ${summary.failed} | Skipped: ${summary.skipped} | Cancelled: ${summary.cancelled} | Expired: ${summary.expired}`,
+    ];
+    if (last) {
+      lines.push(`Last: ${last.occurrenceTime} → ${last.status}${last.txHash ? ` (${last.txHash})` : ''}`);
+    }
+    lines.push(`⏰ Updated: ${new Date().toISOString()}`);
+
+    await this.calendarService.upsertDescriptionBlock(seriesId, SERIES_SUMMARY_HEADER, lines.join('\n'));
+  }
+
+  /**
+   * Remove an event from the queue and its scheduled execution
+   */
+  private async dequeue(eventId: string): Promise<void> {
+    await this.store.removeQueued(eventId);
+    this.transactionQueue.delete(eventId);
+    this.scheduler.cancel(eventId);
+  }
+
   /**
    * Get agent status
    */
@@ -328,6 +1414,9 @@ Attempts: ${queued.attempts}
     return {
       ...this.stats,
       queueSize: this.transactionQueue.size,
+      executing: this.executing.size,
+      awaitingApproval: this.getQueue().filter((item) => item.approval?.status === 'pending').length,
+      nextExecutionAt: this.scheduler.nextRunAt(),
     };
   }
 
@@ -338,14 +1427,76 @@ Attempts: ${queued.attempts}
     return Array.from(this.transactionQueue.values());
   }
 
+  /**
+   * Get execution attempt history for an event
+   */
+  async getAttempts(eventId: string): Promise<ExecutionAttempt[]> {
+    return await this.store.getAttempts(eventId);
+  }
+
+  /**
+   * Get all tracked occurrences of a recurring series with outcome counts
+   */
+  async getSeries(seriesId: string): Promise<SeriesSummary> {
+    const occurrences = await this.store.getOccurrences(seriesId);
+    const count = (...statuses: OccurrenceStatus[]) =>
+      occurrences.filter((occurrence) => statuses.includes(occurrence.status)).length;
+
+    return {
+      seriesId,
+      executed: count('executed'),
+      failed: count('failed', 'interrupted'),
+      skipped: count('skipped'),
+      cancelled: count('cancelled'),
+      expired: count('expired'),
+      queued: count('queued'),
+      occurrences,
+    };
+  }
+
   /**
    * Clear processed events cache
    */
-  clearProcessedCache(): void {
+  async clearProcessedCache(): Promise<void> {
+    await this.store.clearProcessed();
     this.processedEvents.clear();
+
+    // Incremental sync would not surface unchanged events again
+    await this.store.saveSyncState(this.CALENDAR_ID, null);
+    this.syncState = null;
     console.log('🗑️ Processed events cache cleared');
   }
 }
 
+/**
+ * Occurrence key of a recurring instance (falls back to the start time)
+ */
+function occurrenceTimeOf(parsed: ParsedTransaction): string {
+  return parsed.originalStartTime ?? parsed.executionTime.toISOString();
+}
+
+/**
+ * UTC time followed by the event's local time, e.g. "2026-03-29T07:00:00.000Z (2026-03-29T09:00:00+02:00 Europe/Berlin)"
+ */
+function formatStamp(date: Date, timeZone: string | undefined): string {
+  if (!timeZone || timeZone === 'UTC') {
+    return date.toISOString();
+  }
+  return `${date.toISOString()} (${formatLocalTime(date, timeZone)} ${timeZone})`;
+}
+
+/**
+ * "$1,250.00", or "unknown until execution" for balance-relative amounts and missing prices
+ */
+function formatUsd(value: number | null): string {
+  return value === null
+    ? 'unknown until execution'
+    : `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function toSeconds(date: Date): bigint {
+  return BigInt(Math.floor(date.getTime() / 1000));
+}
+
 export default CalendarAgent;
 
@@ -0,0 +1,110 @@
+import { formatGwei, formatUnits, parseUnits, zeroAddress } from 'viem';
+import SomniaWalletService from '../blockchain/SomniaWalletService';
+import PriceService from '../blockchain/PriceService';
+import { tokenRegistry } from '../blockchain/TokenRegistry';
+import { describeCondition } from '../calendar/ExecutionCondition';
+import type { IntentCondition } from '../calendar/IntentBlock';
+
+/**
+ * Outcome of one condition
+ */
+export interface ConditionResult {
+  condition: IntentCondition;
+  met: boolean;
+  observed?: string;          // e.g. "$0.42", "12.5 STT", "3 gwei"
+  error?: string;             // Source unavailable; counts as not met
+}
+
+export interface ConditionCheck {
+  met: boolean;
+  results: ConditionResult[];
+}
+
+/**
+ * ConditionEvaluator checks execution conditions against live price, balance and gas sources
+ */
+export class ConditionEvaluator {
+  private walletService: SomniaWalletService;
+  private priceService: PriceService;
+
+  constructor(walletService: SomniaWalletService, priceService: PriceService) {
+    this.walletService = walletService;
+    this.priceService = priceService;
+  }
+
+  /**
+   * Evaluate all conditions; met only if every one holds
+   */
+  async evaluate(conditions: IntentCondition[], calendarId: string): Promise<ConditionCheck> {
+    const results: ConditionResult[] = [];
+
+    for (const condition of conditions) {
+      try {
+        results.push(await this.evaluateOne(condition, calendarId));
+      } catch (error: any) {
+        results.push({ condition, met: false, error: error.message || 'Condition check failed' });
+      }
+    }
+
+    return {
+      met: results.every((result) => result.met),
+      results,
+    };
+  }
+
+  private async evaluateOne(condition: IntentCondition, calendarId: string): Promise<ConditionResult> {
+    if (condition.type === 'gas') {
+      const gasPrice = await this.walletService.getGasPrice();
+      return {
+        condition,
+        met: compare(gasPrice, condition.op, parseUnits(condition.value, 9)),
+        observed: `${formatGwei(gasPrice)} gwei`,
+      };
+    }
+
+    const token = tokenRegistry.resolve(condition.token!);
+    if (!token) {
+      throw new Error(`Unknown token: ${condition.token}`);
+    }
+
+    if (condition.type === 'price') {
+      const price = await this.priceService.getUsdPrice(token);
+      return {
+        condition,
+        met: compare(price, condition.op, parseFloat(condition.value)),
+        observed: `$${price}`,
+      };
+    }
+
+    const balance = token.address === zeroAddress
+      ? BigInt((await this.walletService.getWalletInfo(calendarId)).balance)
+      : await this.walletService.getTokenBalance(calendarId, token.address);
+    return {
+      condition,
+      met: compare(balance, condition.op, parseUnits(condition.value, token.decimals)),
+      observed: `${formatUnits(balance, token.decimals)} ${token.symbol}`,
+    };
+  }
+}
+
+/**
+ * Calendar description lines with the outcome of each condition
+ */
+export function formatConditionCheck(check: ConditionCheck): string {
+  return check.results.map((result) => {
+    const icon = result.met ? '✅' : '⏳';
+    const observed = result.error ? `unavailable: ${result.error}` : `now ${result.observed}`;
+    return `${icon} ${describeCondition(result.condition)} (${observed})`;
+  }).join('\n');
+}
+
+function compare<T extends number | bigint>(actual: T, op: IntentCondition['op'], expected: T): boolean {
+  switch (op) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+export default ConditionEvaluator;
@@ -0,0 +1,191 @@
+/**
+ * Scheduled item in the priority queue
+ */
+interface ScheduledItem {
+  id: string;
+  at: number; // epoch ms
+}
+
+/**
+ * Longest delay setTimeout accepts (~24.8 days); longer waits are re-armed
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * ExecutionScheduler fires each item at its exact time using a min-heap
+ * and a single timer armed for the earliest item.
+ * Up to `concurrency` handlers run at once, never two for the same item; items that come due
+ * while every slot is busy (or while their own handler still runs) fire as soon as it frees up.
+ */
+export class ExecutionScheduler {
+  private heap: ScheduledItem[] = [];
+  private times: Map<string, number> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private handler: ((id: string, scheduledAt: Date) => Promise<void>) | null = null;
+  private running = false;
+  private concurrency = 1;
+  private active: Set<string> = new Set();
+  private parked: Map<string, number> = new Map();   // Came due while their handler was running
+
+  /**
+   * Start firing items through the handler
+   */
+  start(handler: (id: string, scheduledAt: Date) => Promise<void>, concurrency: number = 1): void {
+    this.handler = handler;
+    this.concurrency = Math.max(1, concurrency);
+    this.running = true;
+    this.arm();
+  }
+
+  /**
+   * Stop firing; scheduled items are kept
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Schedule (or reschedule) an item
+   */
+  schedule(id: string, at: Date): void {
+    this.times.set(id, at.getTime());
+    this.push({ id, at: at.getTime() });
+    this.arm();
+  }
+
+  /**
+   * Remove an item
+   */
+  cancel(id: string): void {
+    this.times.delete(id);
+    // Stale heap entries are skipped when popped
+    this.arm();
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    this.heap = [];
+    this.times.clear();
+    this.parked.clear();
+    this.arm();
+  }
+
+  has(id: string): boolean {
+    return this.times.has(id);
+  }
+
+  get size(): number {
+    return this.times.size;
+  }
+
+  /**
+   * Next scheduled time, if any
+   */
+  nextRunAt(): Date | null {
+    this.dropStale();
+    return this.heap.length > 0 ? new Date(this.heap[0].at) : null;
+  }
+
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.running || this.active.size >= this.concurrency) return;
+
+    const next = this.nextRunAt();
+    if (!next) return;
+
+    const delay = Math.min(Math.max(next.getTime() - Date.now(), 0), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.fireDue();
+    }, delay);
+  }
+
+  private fireDue(): void {
+    while (this.running && this.active.size < this.concurrency) {
+      this.dropStale();
+      const next = this.heap[0];
+      if (!next || next.at > Date.now()) break;
+
+      this.pop();
+      if (this.active.has(next.id)) {
+        this.parked.set(next.id, next.at);
+        continue;
+      }
+
+      this.times.delete(next.id);
+      this.fire(next);
+    }
+    this.arm();
+  }
+
+  private fire(item: ScheduledItem): void {
+    this.active.add(item.id);
+
+    this.handler!(item.id, new Date(item.at))
+      .catch((error) => {
+        console.error('❌ Scheduler error:', error);
+      })
+      .finally(() => {
+        this.active.delete(item.id);
+
+        // Due again while it ran, and not rescheduled or cancelled since
+        const parkedAt = this.parked.get(item.id);
+        this.parked.delete(item.id);
+        if (parkedAt !== undefined && this.times.get(item.id) === parkedAt) {
+          this.push({ id: item.id, at: parkedAt });
+        }
+        this.arm();
+      });
+  }
+
+  /**
+   * Discard heap entries that were cancelled or rescheduled
+   */
+  private dropStale(): void {
+    while (this.heap.length > 0 && this.times.get(this.heap[0].id) !== this.heap[0].at) {
+      this.pop();
+    }
+  }
+
+  private push(item: ScheduledItem): void {
+    this.heap.push(item);
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.heap[parent].at <= this.heap[i].at) break;
+      [this.heap[parent], this.heap[i]] = [this.heap[i], this.heap[parent]];
+      i = parent;
+    }
+  }
+
+  private pop(): ScheduledItem | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.heap[left].at < this.heap[smallest].at) smallest = left;
+        if (right < this.heap.length && this.heap[right].at < this.heap[smallest].at) smallest = right;
+        if (smallest === i) break;
+        [this.heap[smallest], this.heap[i]] = [this.heap[i], this.heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export default ExecutionScheduler;
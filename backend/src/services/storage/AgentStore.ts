@@ -0,0 +1,121 @@
+import type { CalendarSyncState } from '../calendar/CalendarService';
+import type { ParsedTransaction } from '../calendar/EventParser';
+import type { QueuedTransaction } from '../monitoring/CalendarAgent';
+import type { ApprovalState } from '../monitoring/ApprovalGate';
+
+/**
+ * Final outcome recorded in the processed-event ledger
+ */
+export type ProcessedOutcome =
+  | 'executed'
+  | 'failed'
+  | 'skipped'
+  | 'interrupted'
+  | 'cancelled'
+  | 'expired'
+  | 'unconfirmed';            // Sent, outcome unknown; settled from the execution ledger
+
+/**
+ * A nonce an attempt reserved, recorded before signing; hash is added once the node accepted the transaction
+ */
+export interface AttemptTransaction {
+  nonce: number;
+  hash?: string;
+}
+
+/**
+ * One execution attempt of a queued transaction
+ * An attempt with no finishedAt was interrupted (crash or restart mid-execution)
+ */
+export interface ExecutionAttempt {
+  eventId: string;
+  attempt: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  nonceBefore: number;        // Pending nonce of the wallet before execution began
+  transactions: AttemptTransaction[];   // What the attempt sent, or was about to
+  success?: boolean;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Status of one occurrence of a recurring schedule
+ */
+export type OccurrenceStatus = 'queued' | ProcessedOutcome;
+
+/**
+ * One occurrence of a recurring event, keyed by series ID and original start time
+ */
+export interface SeriesOccurrence {
+  seriesId: string;           // Google recurringEventId (the master event)
+  occurrenceTime: string;     // Google originalStartTime of the instance
+  eventId: string;            // Instance event ID
+  calendarId: string;
+  status: OccurrenceStatus;
+  txHash?: string;
+  error?: string;
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for the agent's queue, processed-event ledger, attempt history,
+ * recurring-series history and calendar sync position
+ */
+export interface AgentStore {
+  loadQueue(): Promise<QueuedTransaction[]>;
+  saveQueued(item: QueuedTransaction): Promise<void>;
+  removeQueued(eventId: string): Promise<void>;
+
+  markProcessed(eventId: string, outcome: ProcessedOutcome): Promise<void>;
+  loadProcessed(): Promise<string[]>;
+  clearProcessed(): Promise<void>;
+
+  beginAttempt(attempt: ExecutionAttempt): Promise<void>;
+  recordAttemptTransaction(eventId: string, attempt: number, transaction: AttemptTransaction): Promise<void>;
+  finishAttempt(
+    eventId: string,
+    attempt: number,
+    result: { success: boolean; txHash?: string; error?: string }
+  ): Promise<void>;
+  getAttempts(eventId: string): Promise<ExecutionAttempt[]>;
+  getInterruptedAttempts(): Promise<ExecutionAttempt[]>;
+
+  recordOccurrence(occurrence: SeriesOccurrence): Promise<void>;
+  getOccurrence(seriesId: string, occurrenceTime: string): Promise<SeriesOccurrence | null>;
+  getOccurrences(seriesId: string): Promise<SeriesOccurrence[]>;
+
+  loadSyncState(calendarId: string): Promise<CalendarSyncState | null>;
+  saveSyncState(calendarId: string, state: CalendarSyncState | null): Promise<void>;
+}
+
+/**
+ * Serialize a parsed transaction for storage (Dates become ISO strings)
+ */
+export function serializeParsed(parsed: ParsedTransaction): string {
+  return JSON.stringify(parsed);
+}
+
+/**
+ * Revive a stored parsed transaction
+ */
+export function deserializeParsed(json: string): ParsedTransaction {
+  const raw = JSON.parse(json);
+  return {
+    ...raw,
+    executionTime: new Date(raw.executionTime),
+    endTime: raw.endTime ? new Date(raw.endTime) : undefined,
+  };
+}
+
+/**
+ * Revive a stored approval state
+ */
+export function deserializeApproval(json: string): ApprovalState {
+  const raw = JSON.parse(json);
+  return {
+    ...raw,
+    requestedAt: new Date(raw.requestedAt),
+    approvedAt: raw.approvedAt ? new Date(raw.approvedAt) : undefined,
+  };
+}
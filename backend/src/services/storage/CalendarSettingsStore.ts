@@ -0,0 +1,17 @@
+/**
+ * Per-calendar user preferences
+ */
+export interface CalendarSettings {
+  calendarId: string;
+  timeZone?: string;          // IANA zone overriding the calendar's own, e.g. "Europe/Berlin"
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for calendar settings
+ * Synchronous because EventParser reads the time zone override while parsing
+ */
+export interface CalendarSettingsStore {
+  get(calendarId: string): CalendarSettings | null;
+  upsert(settings: CalendarSettings): void;
+}
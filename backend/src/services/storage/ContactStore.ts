@@ -0,0 +1,22 @@
+/**
+ * Named recipient in a calendar's address book
+ */
+export interface Contact {
+  calendarId: string;
+  name: string;               // Lowercase, referenced as @name in event titles
+  address: string;            // Checksummed EVM address
+  label?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for address books, one per calendar
+ * Synchronous because EventParser resolves @names while parsing
+ */
+export interface ContactStore {
+  list(calendarId: string): Contact[];
+  get(calendarId: string, name: string): Contact | null;
+  upsert(contact: Contact): void;
+  remove(calendarId: string, name: string): boolean;
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import type { ParsedTransaction } from '../calendar/EventParser';
+
+/**
+ * Identity of a scheduled intent
+ * originalStartTime is Google's originalStartTime for recurring instances (empty otherwise),
+ * so dragging an event to a new time does not create a new identity.
+ */
+export interface LedgerKeyParts {
+  calendarId: string;
+  eventId: string;
+  originalStartTime: string;
+  intentHash: string;
+}
+
+/**
+ * unconfirmed: broadcast but never seen mined; like executed it is never claimed again without an
+ * override, until its receipt (or the wallet's nonce moving past it) settles it as executed or failed
+ */
+export type LedgerStatus = 'in-progress' | 'executed' | 'failed' | 'unconfirmed';
+
+/**
+ * Outcome of a claimed intent
+ */
+export interface LedgerCompletion {
+  success: boolean;
+  unconfirmed?: boolean;      // Sent, outcome unknown: recorded as unconfirmed whatever success says
+  txHash?: string;
+  txNonce?: number;
+  error?: string;
+}
+
+export interface LedgerEntry extends LedgerKeyParts {
+  key: string;
+  status: LedgerStatus;
+  executions: number;         // Successful executions (> 1 only via explicit override)
+  txHash?: string;
+  txNonce?: number;           // Nonce of txHash, set while unconfirmed
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClaimResult {
+  claimed: boolean;
+  entry: LedgerEntry;
+}
+
+/**
+ * Durable at-most-once ledger for scheduled intents
+ * claim() must be atomic: only one caller can move an entry to in-progress
+ */
+export interface ExecutionLedger {
+  get(key: string): Promise<LedgerEntry | null>;
+  claim(parts: LedgerKeyParts, options?: { override?: boolean }): Promise<ClaimResult>;
+  complete(key: string, result: LedgerCompletion): Promise<void>;
+  release(key: string): Promise<void>;
+  getUnconfirmed(calendarId: string): Promise<LedgerEntry[]>;
+}
+
+/**
+ * Hash the parts of a parsed transaction that define what will be executed
+ */
+export function hashIntent(parsed: ParsedTransaction): string {
+  // Block-only fields are added when set so title-based hashes stay stable
+  const canonical = JSON.stringify({
+    type: parsed.type,
+    fromToken: parsed.fromToken,
+    toToken: parsed.toToken,
+    amount: parsed.amount,
+    maxSlippageBps: parsed.maxSlippageBps ?? null,
+    ...(parsed.amountExpression?.reserve !== undefined && { reserve: parsed.amountExpression.reserve }),
+    ...(parsed.memo !== undefined && { memo: parsed.memo }),
+    ...(parsed.recipients && { recipients: parsed.recipients.map((leg) => [leg.address, leg.share]) }),
+    ...(parsed.gasCapGwei !== undefined && { gasCapGwei: parsed.gasCapGwei }),
+    ...(parsed.conditions?.length && { conditions: parsed.conditions }),
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Build ledger key parts for a parsed transaction
+ */
+export function ledgerKeyParts(parsed: ParsedTransaction, calendarId: string): LedgerKeyParts {
+  return {
+    calendarId,
+    eventId: parsed.eventId,
+    originalStartTime: parsed.originalStartTime ?? '',
+    intentHash: hashIntent(parsed),
+  };
+}
+
+/**
+ * Stable ledger key for a set of key parts
+ */
+export function createLedgerKey(parts: LedgerKeyParts): string {
+  return crypto
+    .createHash('sha256')
+    .update([parts.calendarId, parts.eventId, parts.originalStartTime, parts.intentHash].join('|'))
+    .digest('hex');
+}
+
+/**
+ * Status a completed claim is recorded with
+ */
+export function completionStatus(result: LedgerCompletion): LedgerStatus {
+  if (result.unconfirmed) return 'unconfirmed';
+  return result.success ? 'executed' : 'failed';
+}
+
+/**
+ * Whether a claim may proceed given the current entry
+ * Failed intents may be retried; executed, unconfirmed or in-progress ones only with an override
+ */
+export function canClaim(entry: LedgerEntry | null, override: boolean): boolean {
+  if (!entry || entry.status === 'failed') return true;
+  return override;
+}
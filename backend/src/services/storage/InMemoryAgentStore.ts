@@ -0,0 +1,117 @@
+import type { CalendarSyncState } from '../calendar/CalendarService';
+import type { QueuedTransaction } from '../monitoring/CalendarAgent';
+import type {
+  AgentStore,
+  AttemptTransaction,
+  ExecutionAttempt,
+  ProcessedOutcome,
+  SeriesOccurrence,
+} from './AgentStore';
+
+/**
+ * Non-persistent AgentStore for tests and throwaway runs
+ */
+export class InMemoryAgentStore implements AgentStore {
+  private queue: Map<string, QueuedTransaction> = new Map();
+  private processed: Map<string, ProcessedOutcome> = new Map();
+  private attempts: ExecutionAttempt[] = [];
+  private occurrences: Map<string, SeriesOccurrence> = new Map();
+  private syncStates: Map<string, CalendarSyncState> = new Map();
+
+  async loadQueue(): Promise<QueuedTransaction[]> {
+    return Array.from(this.queue.values()).map((item) => ({
+      ...item,
+      approval: item.approval && { ...item.approval },
+    }));
+  }
+
+  async saveQueued(item: QueuedTransaction): Promise<void> {
+    this.queue.set(item.parsed.eventId, { ...item, approval: item.approval && { ...item.approval } });
+  }
+
+  async removeQueued(eventId: string): Promise<void> {
+    this.queue.delete(eventId);
+  }
+
+  async markProcessed(eventId: string, outcome: ProcessedOutcome): Promise<void> {
+    this.processed.set(eventId, outcome);
+  }
+
+  async loadProcessed(): Promise<string[]> {
+    return Array.from(this.processed.keys());
+  }
+
+  async clearProcessed(): Promise<void> {
+    this.processed.clear();
+  }
+
+  async beginAttempt(attempt: ExecutionAttempt): Promise<void> {
+    this.attempts.push({ ...attempt, transactions: attempt.transactions.map((tx) => ({ ...tx })) });
+  }
+
+  async recordAttemptTransaction(eventId: string, attempt: number, transaction: AttemptTransaction): Promise<void> {
+    const record = this.attempts.find((a) => a.eventId === eventId && a.attempt === attempt);
+    if (!record) return;
+
+    const existing = record.transactions.find((tx) => tx.nonce === transaction.nonce);
+    if (existing) {
+      existing.hash = transaction.hash ?? existing.hash;
+    } else {
+      record.transactions.push({ ...transaction });
+    }
+  }
+
+  async finishAttempt(
+    eventId: string,
+    attempt: number,
+    result: { success: boolean; txHash?: string; error?: string }
+  ): Promise<void> {
+    const record = this.attempts.find((a) => a.eventId === eventId && a.attempt === attempt);
+    if (record) {
+      Object.assign(record, result, { finishedAt: new Date() });
+    }
+  }
+
+  async getAttempts(eventId: string): Promise<ExecutionAttempt[]> {
+    return this.attempts.filter((a) => a.eventId === eventId).map(copyAttempt);
+  }
+
+  async getInterruptedAttempts(): Promise<ExecutionAttempt[]> {
+    return this.attempts.filter((a) => !a.finishedAt).map(copyAttempt);
+  }
+
+  async recordOccurrence(occurrence: SeriesOccurrence): Promise<void> {
+    this.occurrences.set(`${occurrence.seriesId}|${occurrence.occurrenceTime}`, { ...occurrence });
+  }
+
+  async getOccurrence(seriesId: string, occurrenceTime: string): Promise<SeriesOccurrence | null> {
+    const occurrence = this.occurrences.get(`${seriesId}|${occurrenceTime}`);
+    return occurrence ? { ...occurrence } : null;
+  }
+
+  async getOccurrences(seriesId: string): Promise<SeriesOccurrence[]> {
+    return Array.from(this.occurrences.values())
+      .filter((o) => o.seriesId === seriesId)
+      .sort((a, b) => Date.parse(a.occurrenceTime) - Date.parse(b.occurrenceTime))
+      .map((o) => ({ ...o }));
+  }
+
+  async loadSyncState(calendarId: string): Promise<CalendarSyncState | null> {
+    const state = this.syncStates.get(calendarId);
+    return state ? { ...state } : null;
+  }
+
+  async saveSyncState(calendarId: string, state: CalendarSyncState | null): Promise<void> {
+    if (state) {
+      this.syncStates.set(calendarId, { ...state });
+    } else {
+      this.syncStates.delete(calendarId);
+    }
+  }
+}
+
+function copyAttempt(attempt: ExecutionAttempt): ExecutionAttempt {
+  return { ...attempt, transactions: attempt.transactions.map((tx) => ({ ...tx })) };
+}
+
+export default InMemoryAgentStore;
@@ -0,0 +1,19 @@
+import type { CalendarSettings, CalendarSettingsStore } from './CalendarSettingsStore';
+
+/**
+ * Non-persistent CalendarSettingsStore for tests and throwaway runs
+ */
+export class InMemoryCalendarSettingsStore implements CalendarSettingsStore {
+  private settings: Map<string, CalendarSettings> = new Map();
+
+  get(calendarId: string): CalendarSettings | null {
+    const settings = this.settings.get(calendarId);
+    return settings ? { ...settings } : null;
+  }
+
+  upsert(settings: CalendarSettings): void {
+    this.settings.set(settings.calendarId, { ...settings });
+  }
+}
+
+export default InMemoryCalendarSettingsStore;
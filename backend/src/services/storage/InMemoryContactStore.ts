@@ -0,0 +1,34 @@
+import type { Contact, ContactStore } from './ContactStore';
+
+/**
+ * Non-persistent ContactStore for tests and throwaway runs
+ */
+export class InMemoryContactStore implements ContactStore {
+  private contacts: Map<string, Contact> = new Map();
+
+  list(calendarId: string): Contact[] {
+    return Array.from(this.contacts.values())
+      .filter((contact) => contact.calendarId === calendarId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((contact) => ({ ...contact }));
+  }
+
+  get(calendarId: string, name: string): Contact | null {
+    const contact = this.contacts.get(key(calendarId, name));
+    return contact ? { ...contact } : null;
+  }
+
+  upsert(contact: Contact): void {
+    this.contacts.set(key(contact.calendarId, contact.name), { ...contact });
+  }
+
+  remove(calendarId: string, name: string): boolean {
+    return this.contacts.delete(key(calendarId, name));
+  }
+}
+
+function key(calendarId: string, name: string): string {
+  return `${calendarId}|${name}`;
+}
+
+export default InMemoryContactStore;
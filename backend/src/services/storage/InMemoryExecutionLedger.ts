@@ -0,0 +1,72 @@
+import {
+  canClaim,
+  completionStatus,
+  createLedgerKey,
+  type ClaimResult,
+  type ExecutionLedger,
+  type LedgerCompletion,
+  type LedgerEntry,
+  type LedgerKeyParts,
+} from './ExecutionLedger';
+
+/**
+ * Non-persistent ExecutionLedger for tests and throwaway runs
+ */
+export class InMemoryExecutionLedger implements ExecutionLedger {
+  private entries: Map<string, LedgerEntry> = new Map();
+
+  async get(key: string): Promise<LedgerEntry | null> {
+    const entry = this.entries.get(key);
+    return entry ? { ...entry } : null;
+  }
+
+  async claim(parts: LedgerKeyParts, options: { override?: boolean } = {}): Promise<ClaimResult> {
+    const key = createLedgerKey(parts);
+    const existing = this.entries.get(key) ?? null;
+
+    if (!canClaim(existing, options.override ?? false)) {
+      return { claimed: false, entry: { ...existing! } };
+    }
+
+    const now = new Date();
+    const entry: LedgerEntry = {
+      ...parts,
+      key,
+      status: 'in-progress',
+      executions: existing?.executions ?? 0,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.entries.set(key, entry);
+
+    return { claimed: true, entry: { ...entry } };
+  }
+
+  async complete(key: string, result: LedgerCompletion): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    entry.status = completionStatus(result);
+    entry.executions += entry.status === 'executed' ? 1 : 0;
+    entry.txHash = result.txHash ?? entry.txHash;
+    entry.txNonce = entry.status === 'unconfirmed' ? result.txNonce : undefined;
+    entry.error = result.error;
+    entry.updatedAt = new Date();
+  }
+
+  async release(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry?.status === 'in-progress') {
+      entry.status = 'failed';
+      entry.updatedAt = new Date();
+    }
+  }
+
+  async getUnconfirmed(calendarId: string): Promise<LedgerEntry[]> {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.calendarId === calendarId && entry.status === 'unconfirmed')
+      .map((entry) => ({ ...entry }));
+  }
+}
+
+export default InMemoryExecutionLedger;
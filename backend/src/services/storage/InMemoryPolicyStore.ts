@@ -0,0 +1,34 @@
+import type { PolicyStore, SpendingPolicy, SpendRecord } from './PolicyStore';
+
+/**
+ * Non-persistent PolicyStore for tests and throwaway runs
+ */
+export class InMemoryPolicyStore implements PolicyStore {
+  private policies: Map<string, SpendingPolicy> = new Map();
+  private spends: SpendRecord[] = [];
+
+  getPolicy(calendarId: string): SpendingPolicy | null {
+    const policy = this.policies.get(calendarId);
+    return policy ? { ...policy } : null;
+  }
+
+  savePolicy(policy: SpendingPolicy): void {
+    this.policies.set(policy.calendarId, { ...policy });
+  }
+
+  removePolicy(calendarId: string): boolean {
+    return this.policies.delete(calendarId);
+  }
+
+  recordSpend(spend: SpendRecord): void {
+    this.spends.push({ ...spend });
+  }
+
+  getSpends(calendarId: string, since: Date): SpendRecord[] {
+    return this.spends
+      .filter((spend) => spend.calendarId === calendarId && spend.executedAt >= since)
+      .map((spend) => ({ ...spend }));
+  }
+}
+
+export default InMemoryPolicyStore;
@@ -0,0 +1,44 @@
+import type { RetiredWalletKey, WalletKeyRecord, WalletKeyStore } from './WalletKeyStore';
+
+/**
+ * Non-persistent WalletKeyStore for tests and throwaway runs
+ * Keys are lost on restart, and with them any funds sent to their wallets
+ */
+export class InMemoryWalletKeyStore implements WalletKeyStore {
+  private records: Map<string, WalletKeyRecord> = new Map();
+  private retired: RetiredWalletKey[] = [];
+
+  get(calendarId: string): WalletKeyRecord | null {
+    const record = this.records.get(calendarId);
+    return record ? { ...record } : null;
+  }
+
+  save(record: WalletKeyRecord): void {
+    this.records.set(record.calendarId, { ...record });
+  }
+
+  replace(record: WalletKeyRecord): RetiredWalletKey | null {
+    const current = this.records.get(record.calendarId);
+    const retired: RetiredWalletKey | null = current
+      ? {
+          calendarId: current.calendarId,
+          address: current.address,
+          keystore: current.keystore,
+          retiredAt: new Date(),
+          replacedBy: record.address,
+        }
+      : null;
+
+    if (retired) this.retired.push(retired);
+    this.save(record);
+    return retired && { ...retired };
+  }
+
+  getRetired(calendarId: string): RetiredWalletKey[] {
+    return this.retired
+      .filter((key) => key.calendarId === calendarId)
+      .map((key) => ({ ...key }));
+  }
+}
+
+export default InMemoryWalletKeyStore;
@@ -0,0 +1,47 @@
+/**
+ * Spending policy of a calendar wallet; every rule is optional
+ * Amount limits are keyed by token symbol and given in token units ("USDC": "500")
+ */
+export interface SpendingPolicy {
+  calendarId: string;
+  maxPerTransaction?: Record<string, string>;
+  dailyLimit?: Record<string, string>;      // Rolling 24 hours
+  weeklyLimit?: Record<string, string>;     // Rolling 7 days
+  allowlist?: string[];                     // Recipients (addresses or @contacts); others are refused
+  denylist?: string[];
+  quietHours?: QuietHours;
+  maxExecutionsPerDay?: number;             // Rolling 24 hours
+  updatedAt: Date;
+}
+
+/**
+ * Daily window in which nothing is executed; may wrap midnight ("22:00"-"07:00")
+ */
+export interface QuietHours {
+  start: string;              // HH:MM
+  end: string;                // HH:MM
+  timeZone?: string;          // Defaults to the calendar's zone
+}
+
+/**
+ * Funds that left a calendar wallet, counted against rolling limits
+ */
+export interface SpendRecord {
+  calendarId: string;
+  eventId: string;
+  token: string;              // Symbol as in the token registry
+  rawAmount: bigint;          // Smallest units
+  executedAt: Date;
+}
+
+/**
+ * Storage abstraction for spending policies and the spend history they are checked against
+ */
+export interface PolicyStore {
+  getPolicy(calendarId: string): SpendingPolicy | null;
+  savePolicy(policy: SpendingPolicy): void;
+  removePolicy(calendarId: string): boolean;
+
+  recordSpend(spend: SpendRecord): void;
+  getSpends(calendarId: string, since: Date): SpendRecord[];
+}
@@ -0,0 +1,330 @@
+import type Database from 'better-sqlite3';
+import type { CalendarSyncState } from '../calendar/CalendarService';
+import type { QueuedTransaction } from '../monitoring/CalendarAgent';
+import {
+  deserializeApproval,
+  deserializeParsed,
+  serializeParsed,
+  type AgentStore,
+  type AttemptTransaction,
+  type ExecutionAttempt,
+  type OccurrenceStatus,
+  type ProcessedOutcome,
+  type SeriesOccurrence,
+} from './AgentStore';
+import { openDatabase } from './database';
+
+interface QueueRow {
+  event_id: string;
+  calendar_id: string;
+  parsed_json: string;
+  added_at: string;
+  attempts: number;
+  approval_json: string | null;
+}
+
+interface AttemptRow {
+  event_id: string;
+  attempt: number;
+  started_at: string;
+  finished_at: string | null;
+  nonce_before: number;
+  success: number | null;
+  tx_hash: string | null;
+  error: string | null;
+}
+
+interface AttemptTransactionRow {
+  event_id: string;
+  attempt: number;
+  nonce: number;
+  hash: string | null;
+}
+
+interface OccurrenceRow {
+  series_id: string;
+  occurrence_time: string;
+  event_id: string;
+  calendar_id: string;
+  status: string;
+  tx_hash: string | null;
+  error: string | null;
+  updated_at: string;
+}
+
+/**
+ * SQLite-backed AgentStore; survives restarts
+ */
+export class SqliteAgentStore implements AgentStore {
+  private db: Database.Database;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? openDatabase();
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_queue (
+        event_id TEXT PRIMARY KEY,
+        calendar_id TEXT NOT NULL,
+        parsed_json TEXT NOT NULL,
+        added_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        approval_json TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS agent_processed_events (
+        event_id TEXT PRIMARY KEY,
+        outcome TEXT NOT NULL,
+        processed_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS agent_attempts (
+        event_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        nonce_before INTEGER NOT NULL,
+        success INTEGER,
+        tx_hash TEXT,
+        error TEXT,
+        PRIMARY KEY (event_id, attempt)
+      );
+
+      CREATE TABLE IF NOT EXISTS agent_attempt_transactions (
+        event_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        nonce INTEGER NOT NULL,
+        hash TEXT,
+        PRIMARY KEY (event_id, attempt, nonce)
+      );
+
+      CREATE TABLE IF NOT EXISTS agent_occurrences (
+        series_id TEXT NOT NULL,
+        occurrence_time TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        calendar_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        tx_hash TEXT,
+        error TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (series_id, occurrence_time)
+      );
+
+      CREATE TABLE IF NOT EXISTS agent_sync_state (
+        calendar_id TEXT PRIMARY KEY,
+        sync_token TEXT,
+        last_synced_at TEXT
+      );
+    `);
+
+    // Queues created before approvals existed lack the column
+    const queueColumns = this.db.prepare('PRAGMA table_info(agent_queue)').all() as { name: string }[];
+    if (!queueColumns.some((column) => column.name === 'approval_json')) {
+      this.db.exec('ALTER TABLE agent_queue ADD COLUMN approval_json TEXT');
+    }
+  }
+
+  async loadQueue(): Promise<QueuedTransaction[]> {
+    const rows = this.db.prepare('SELECT * FROM agent_queue ORDER BY added_at').all() as QueueRow[];
+    return rows.map((row) => ({
+      parsed: deserializeParsed(row.parsed_json),
+      calendarId: row.calendar_id,
+      addedAt: new Date(row.added_at),
+      attempts: row.attempts,
+      approval: row.approval_json ? deserializeApproval(row.approval_json) : undefined,
+    }));
+  }
+
+  async saveQueued(item: QueuedTransaction): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO agent_queue (event_id, calendar_id, parsed_json, added_at, attempts, approval_json)
+      VALUES (@eventId, @calendarId, @parsedJson, @addedAt, @attempts, @approvalJson)
+      ON CONFLICT(event_id) DO UPDATE SET
+        calendar_id = excluded.calendar_id,
+        parsed_json = excluded.parsed_json,
+        attempts = excluded.attempts,
+        approval_json = excluded.approval_json
+    `).run({
+      eventId: item.parsed.eventId,
+      calendarId: item.calendarId,
+      parsedJson: serializeParsed(item.parsed),
+      addedAt: item.addedAt.toISOString(),
+      attempts: item.attempts,
+      approvalJson: item.approval ? JSON.stringify(item.approval) : null,
+    });
+  }
+
+  async removeQueued(eventId: string): Promise<void> {
+    this.db.prepare('DELETE FROM agent_queue WHERE event_id = ?').run(eventId);
+  }
+
+  async markProcessed(eventId: string, outcome: ProcessedOutcome): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO agent_processed_events (event_id, outcome, processed_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(event_id) DO UPDATE SET outcome = excluded.outcome, processed_at = excluded.processed_at
+    `).run(eventId, outcome, new Date().toISOString());
+  }
+
+  async loadProcessed(): Promise<string[]> {
+    const rows = this.db.prepare('SELECT event_id FROM agent_processed_events').all() as { event_id: string }[];
+    return rows.map((row) => row.event_id);
+  }
+
+  async clearProcessed(): Promise<void> {
+    this.db.prepare('DELETE FROM agent_processed_events').run();
+  }
+
+  async beginAttempt(attempt: ExecutionAttempt): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO agent_attempts (event_id, attempt, started_at, nonce_before)
+      VALUES (?, ?, ?, ?)
+    `).run(attempt.eventId, attempt.attempt, attempt.startedAt.toISOString(), attempt.nonceBefore);
+    for (const transaction of attempt.transactions) {
+      await this.recordAttemptTransaction(attempt.eventId, attempt.attempt, transaction);
+    }
+  }
+
+  async recordAttemptTransaction(eventId: string, attempt: number, transaction: AttemptTransaction): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO agent_attempt_transactions (event_id, attempt, nonce, hash)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(event_id, attempt, nonce) DO UPDATE SET hash = COALESCE(excluded.hash, hash)
+    `).run(eventId, attempt, transaction.nonce, transaction.hash ?? null);
+  }
+
+  async finishAttempt(
+    eventId: string,
+    attempt: number,
+    result: { success: boolean; txHash?: string; error?: string }
+  ): Promise<void> {
+    this.db.prepare(`
+      UPDATE agent_attempts
+      SET finished_at = ?, success = ?, tx_hash = ?, error = ?
+      WHERE event_id = ? AND attempt = ?
+    `).run(
+      new Date().toISOString(),
+      result.success ? 1 : 0,
+      result.txHash ?? null,
+      result.error ?? null,
+      eventId,
+      attempt
+    );
+  }
+
+  async getAttempts(eventId: string): Promise<ExecutionAttempt[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM agent_attempts WHERE event_id = ? ORDER BY attempt')
+      .all(eventId) as AttemptRow[];
+    return rows.map((row) => toAttempt(row, this.getAttemptTransactions(row)));
+  }
+
+  async getInterruptedAttempts(): Promise<ExecutionAttempt[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM agent_attempts WHERE finished_at IS NULL ORDER BY started_at')
+      .all() as AttemptRow[];
+    return rows.map((row) => toAttempt(row, this.getAttemptTransactions(row)));
+  }
+
+  private getAttemptTransactions(row: AttemptRow): AttemptTransaction[] {
+    const rows = this.db
+      .prepare('SELECT * FROM agent_attempt_transactions WHERE event_id = ? AND attempt = ? ORDER BY nonce')
+      .all(row.event_id, row.attempt) as AttemptTransactionRow[];
+    return rows.map((tx) => ({ nonce: tx.nonce, hash: tx.hash ?? undefined }));
+  }
+
+  async recordOccurrence(occurrence: SeriesOccurrence): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO agent_occurrences
+        (series_id, occurrence_time, event_id, calendar_id, status, tx_hash, error, updated_at)
+      VALUES (@seriesId, @occurrenceTime, @eventId, @calendarId, @status, @txHash, @error, @updatedAt)
+      ON CONFLICT(series_id, occurrence_time) DO UPDATE SET
+        event_id = excluded.event_id,
+        status = excluded.status,
+        tx_hash = excluded.tx_hash,
+        error = excluded.error,
+        updated_at = excluded.updated_at
+    `).run({
+      seriesId: occurrence.seriesId,
+      occurrenceTime: occurrence.occurrenceTime,
+      eventId: occurrence.eventId,
+      calendarId: occurrence.calendarId,
+      status: occurrence.status,
+      txHash: occurrence.txHash ?? null,
+      error: occurrence.error ?? null,
+      updatedAt: occurrence.updatedAt.toISOString(),
+    });
+  }
+
+  async getOccurrence(seriesId: string, occurrenceTime: string): Promise<SeriesOccurrence | null> {
+    const row = this.db
+      .prepare('SELECT * FROM agent_occurrences WHERE series_id = ? AND occurrence_time = ?')
+      .get(seriesId, occurrenceTime) as OccurrenceRow | undefined;
+    return row ? toOccurrence(row) : null;
+  }
+
+  async getOccurrences(seriesId: string): Promise<SeriesOccurrence[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM agent_occurrences WHERE series_id = ? ORDER BY occurrence_time')
+      .all(seriesId) as OccurrenceRow[];
+    return rows.map(toOccurrence);
+  }
+
+  async loadSyncState(calendarId: string): Promise<CalendarSyncState | null> {
+    const row = this.db
+      .prepare('SELECT sync_token, last_synced_at FROM agent_sync_state WHERE calendar_id = ?')
+      .get(calendarId) as { sync_token: string | null; last_synced_at: string | null } | undefined;
+    if (!row) return null;
+
+    return {
+      syncToken: row.sync_token,
+      lastSyncedAt: row.last_synced_at ? new Date(row.last_synced_at) : null,
+    };
+  }
+
+  async saveSyncState(calendarId: string, state: CalendarSyncState | null): Promise<void> {
+    if (!state) {
+      this.db.prepare('DELETE FROM agent_sync_state WHERE calendar_id = ?').run(calendarId);
+      return;
+    }
+
+    this.db.prepare(`
+      INSERT INTO agent_sync_state (calendar_id, sync_token, last_synced_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(calendar_id) DO UPDATE SET
+        sync_token = excluded.sync_token,
+        last_synced_at = excluded.last_synced_at
+    `).run(calendarId, state.syncToken, state.lastSyncedAt?.toISOString() ?? null);
+  }
+}
+
+function toAttempt(row: AttemptRow, transactions: AttemptTransaction[]): ExecutionAttempt {
+  return {
+    eventId: row.event_id,
+    attempt: row.attempt,
+    startedAt: new Date(row.started_at),
+    finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+    nonceBefore: row.nonce_before,
+    transactions,
+    success: row.success === null ? undefined : row.success === 1,
+    txHash: row.tx_hash ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+function toOccurrence(row: OccurrenceRow): SeriesOccurrence {
+  return {
+    seriesId: row.series_id,
+    occurrenceTime: row.occurrence_time,
+    eventId: row.event_id,
+    calendarId: row.calendar_id,
+    status: row.status as OccurrenceStatus,
+    txHash: row.tx_hash ?? undefined,
+    error: row.error ?? undefined,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export default SqliteAgentStore;
@@ -0,0 +1,56 @@
+import type Database from 'better-sqlite3';
+import type { CalendarSettings, CalendarSettingsStore } from './CalendarSettingsStore';
+import { openDatabase } from './database';
+
+interface CalendarSettingsRow {
+  calendar_id: string;
+  time_zone: string | null;
+  updated_at: string;
+}
+
+/**
+ * SQLite-backed CalendarSettingsStore; survives restarts
+ */
+export class SqliteCalendarSettingsStore implements CalendarSettingsStore {
+  private db: Database.Database;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? openDatabase();
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS calendar_settings (
+        calendar_id TEXT PRIMARY KEY,
+        time_zone TEXT,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  get(calendarId: string): CalendarSettings | null {
+    const row = this.db
+      .prepare('SELECT * FROM calendar_settings WHERE calendar_id = ?')
+      .get(calendarId) as CalendarSettingsRow | undefined;
+    return row
+      ? { calendarId: row.calendar_id, timeZone: row.time_zone ?? undefined, updatedAt: new Date(row.updated_at) }
+      : null;
+  }
+
+  upsert(settings: CalendarSettings): void {
+    this.db.prepare(`
+      INSERT INTO calendar_settings (calendar_id, time_zone, updated_at)
+      VALUES (@calendarId, @timeZone, @updatedAt)
+      ON CONFLICT(calendar_id) DO UPDATE SET
+        time_zone = excluded.time_zone,
+        updated_at = excluded.updated_at
+    `).run({
+      calendarId: settings.calendarId,
+      timeZone: settings.timeZone ?? null,
+      updatedAt: settings.updatedAt.toISOString(),
+    });
+  }
+}
+
+export default SqliteCalendarSettingsStore;
@@ -0,0 +1,90 @@
+import type Database from 'better-sqlite3';
+import type { Contact, ContactStore } from './ContactStore';
+import { openDatabase } from './database';
+
+interface ContactRow {
+  calendar_id: string;
+  name: string;
+  address: string;
+  label: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SQLite-backed ContactStore; survives restarts
+ */
+export class SqliteContactStore implements ContactStore {
+  private db: Database.Database;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? openDatabase();
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS contacts (
+        calendar_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        address TEXT NOT NULL,
+        label TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (calendar_id, name)
+      );
+    `);
+  }
+
+  list(calendarId: string): Contact[] {
+    const rows = this.db
+      .prepare('SELECT * FROM contacts WHERE calendar_id = ? ORDER BY name')
+      .all(calendarId) as ContactRow[];
+    return rows.map(toContact);
+  }
+
+  get(calendarId: string, name: string): Contact | null {
+    const row = this.db
+      .prepare('SELECT * FROM contacts WHERE calendar_id = ? AND name = ?')
+      .get(calendarId, name) as ContactRow | undefined;
+    return row ? toContact(row) : null;
+  }
+
+  upsert(contact: Contact): void {
+    this.db.prepare(`
+      INSERT INTO contacts (calendar_id, name, address, label, created_at, updated_at)
+      VALUES (@calendarId, @name, @address, @label, @createdAt, @updatedAt)
+      ON CONFLICT(calendar_id, name) DO UPDATE SET
+        address = excluded.address,
+        label = excluded.label,
+        updated_at = excluded.updated_at
+    `).run({
+      calendarId: contact.calendarId,
+      name: contact.name,
+      address: contact.address,
+      label: contact.label ?? null,
+      createdAt: contact.createdAt.toISOString(),
+      updatedAt: contact.updatedAt.toISOString(),
+    });
+  }
+
+  remove(calendarId: string, name: string): boolean {
+    const result = this.db
+      .prepare('DELETE FROM contacts WHERE calendar_id = ? AND name = ?')
+      .run(calendarId, name);
+    return result.changes > 0;
+  }
+}
+
+function toContact(row: ContactRow): Contact {
+  return {
+    calendarId: row.calendar_id,
+    name: row.name,
+    address: row.address,
+    label: row.label ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export default SqliteContactStore;
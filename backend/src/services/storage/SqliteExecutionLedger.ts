@@ -0,0 +1,147 @@
+import type Database from 'better-sqlite3';
+import {
+  canClaim,
+  completionStatus,
+  createLedgerKey,
+  type ClaimResult,
+  type ExecutionLedger,
+  type LedgerCompletion,
+  type LedgerEntry,
+  type LedgerKeyParts,
+  type LedgerStatus,
+} from './ExecutionLedger';
+import { openDatabase } from './database';
+
+interface LedgerRow {
+  key: string;
+  calendar_id: string;
+  event_id: string;
+  original_start_time: string;
+  intent_hash: string;
+  status: LedgerStatus;
+  executions: number;
+  tx_hash: string | null;
+  tx_nonce: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SQLite-backed ExecutionLedger; claims run inside an immediate transaction
+ */
+export class SqliteExecutionLedger implements ExecutionLedger {
+  private db: Database.Database;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? openDatabase();
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS execution_ledger (
+        key TEXT PRIMARY KEY,
+        calendar_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        original_start_time TEXT NOT NULL,
+        intent_hash TEXT NOT NULL,
+        status TEXT NOT NULL,
+        executions INTEGER NOT NULL DEFAULT 0,
+        tx_hash TEXT,
+        tx_nonce INTEGER,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    // Ledgers created before unconfirmed sends were tracked lack the column
+    const columns = this.db.prepare('PRAGMA table_info(execution_ledger)').all() as { name: string }[];
+    if (!columns.some((column) => column.name === 'tx_nonce')) {
+      this.db.exec('ALTER TABLE execution_ledger ADD COLUMN tx_nonce INTEGER');
+    }
+  }
+
+  async get(key: string): Promise<LedgerEntry | null> {
+    const row = this.db.prepare('SELECT * FROM execution_ledger WHERE key = ?').get(key) as LedgerRow | undefined;
+    return row ? toEntry(row) : null;
+  }
+
+  async claim(parts: LedgerKeyParts, options: { override?: boolean } = {}): Promise<ClaimResult> {
+    const key = createLedgerKey(parts);
+
+    const claim = this.db.transaction((): ClaimResult => {
+      const row = this.db.prepare('SELECT * FROM execution_ledger WHERE key = ?').get(key) as LedgerRow | undefined;
+      const existing = row ? toEntry(row) : null;
+
+      if (!canClaim(existing, options.override ?? false)) {
+        return { claimed: false, entry: existing! };
+      }
+
+      const now = new Date().toISOString();
+      this.db.prepare(`
+        INSERT INTO execution_ledger
+          (key, calendar_id, event_id, original_start_time, intent_hash, status, executions, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, 'in-progress', 0, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET status = 'in-progress', error = NULL, updated_at = excluded.updated_at
+      `).run(key, parts.calendarId, parts.eventId, parts.originalStartTime, parts.intentHash, now, now);
+
+      const updated = this.db.prepare('SELECT * FROM execution_ledger WHERE key = ?').get(key) as LedgerRow;
+      return { claimed: true, entry: toEntry(updated) };
+    });
+
+    return claim.immediate();
+  }
+
+  async complete(key: string, result: LedgerCompletion): Promise<void> {
+    const status = completionStatus(result);
+    this.db.prepare(`
+      UPDATE execution_ledger
+      SET status = ?,
+          executions = executions + ?,
+          tx_hash = COALESCE(?, tx_hash),
+          tx_nonce = ?,
+          error = ?,
+          updated_at = ?
+      WHERE key = ?
+    `).run(
+      status,
+      status === 'executed' ? 1 : 0,
+      result.txHash ?? null,
+      status === 'unconfirmed' ? result.txNonce ?? null : null,
+      result.error ?? null,
+      new Date().toISOString(),
+      key
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    this.db.prepare(`
+      UPDATE execution_ledger SET status = 'failed', updated_at = ?
+      WHERE key = ? AND status = 'in-progress'
+    `).run(new Date().toISOString(), key);
+  }
+
+  async getUnconfirmed(calendarId: string): Promise<LedgerEntry[]> {
+    const rows = this.db
+      .prepare(`SELECT * FROM execution_ledger WHERE calendar_id = ? AND status = 'unconfirmed' ORDER BY updated_at`)
+      .all(calendarId) as LedgerRow[];
+    return rows.map(toEntry);
+  }
+}
+
+function toEntry(row: LedgerRow): LedgerEntry {
+  return {
+    key: row.key,
+    calendarId: row.calendar_id,
+    eventId: row.event_id,
+    originalStartTime: row.original_start_time,
+    intentHash: row.intent_hash,
+    status: row.status,
+    executions: row.executions,
+    txHash: row.tx_hash ?? undefined,
+    txNonce: row.tx_nonce ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+export default SqliteExecutionLedger;
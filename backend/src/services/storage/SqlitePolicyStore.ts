@@ -0,0 +1,107 @@
+import type Database from 'better-sqlite3';
+import type { PolicyStore, SpendingPolicy, SpendRecord } from './PolicyStore';
+import { openDatabase } from './database';
+
+interface PolicyRow {
+  calendar_id: string;
+  policy_json: string;
+  updated_at: string;
+}
+
+interface SpendRow {
+  calendar_id: string;
+  event_id: string;
+  token: string;
+  raw_amount: string;
+  executed_at: string;
+}
+
+/**
+ * SQLite-backed PolicyStore; survives restarts
+ */
+export class SqlitePolicyStore implements PolicyStore {
+  private db: Database.Database;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? openDatabase();
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS spending_policies (
+        calendar_id TEXT PRIMARY KEY,
+        policy_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS policy_spends (
+        calendar_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        token TEXT NOT NULL,
+        raw_amount TEXT NOT NULL,
+        executed_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  getPolicy(calendarId: string): SpendingPolicy | null {
+    const row = this.db
+      .prepare('SELECT * FROM spending_policies WHERE calendar_id = ?')
+      .get(calendarId) as PolicyRow | undefined;
+    if (!row) return null;
+
+    return {
+      ...JSON.parse(row.policy_json),
+      calendarId: row.calendar_id,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  savePolicy(policy: SpendingPolicy): void {
+    const { calendarId, updatedAt, ...rules } = policy;
+    this.db.prepare(`
+      INSERT INTO spending_policies (calendar_id, policy_json, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(calendar_id) DO UPDATE SET
+        policy_json = excluded.policy_json,
+        updated_at = excluded.updated_at
+    `).run(calendarId, JSON.stringify(rules), updatedAt.toISOString());
+  }
+
+  removePolicy(calendarId: string): boolean {
+    const result = this.db
+      .prepare('DELETE FROM spending_policies WHERE calendar_id = ?')
+      .run(calendarId);
+    return result.changes > 0;
+  }
+
+  recordSpend(spend: SpendRecord): void {
+    this.db.prepare(`
+      INSERT INTO policy_spends (calendar_id, event_id, token, raw_amount, executed_at)
+      VALUES (@calendarId, @eventId, @token, @rawAmount, @executedAt)
+    `).run({
+      calendarId: spend.calendarId,
+      eventId: spend.eventId,
+      token: spend.token,
+      rawAmount: spend.rawAmount.toString(),
+      executedAt: spend.executedAt.toISOString(),
+    });
+  }
+
+  getSpends(calendarId: string, since: Date): SpendRecord[] {
+    const rows = this.db
+      .prepare('SELECT * FROM policy_spends WHERE calendar_id = ? AND executed_at >= ? ORDER BY executed_at')
+      .all(calendarId, since.toISOString()) as SpendRow[];
+
+    return rows.map((row) => ({
+      calendarId: row.calendar_id,
+      eventId: row.event_id,
+      token: row.token,
+      rawAmount: BigInt(row.raw_amount),
+      executedAt: new Date(row.executed_at),
+    }));
+  }
+}
+
+export default SqlitePolicyStore;
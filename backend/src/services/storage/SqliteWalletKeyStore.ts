@@ -0,0 +1,126 @@
+import type Database from 'better-sqlite3';
+import type { RetiredWalletKey, WalletKeyRecord, WalletKeyStore } from './WalletKeyStore';
+import { openDatabase } from './database';
+
+interface WalletKeyRow {
+  calendar_id: string;
+  address: string;
+  keystore_json: string;
+  source: string;
+  created_at: string;
+}
+
+interface RetiredWalletKeyRow {
+  calendar_id: string;
+  address: string;
+  keystore_json: string;
+  retired_at: string;
+  replaced_by: string;
+}
+
+/**
+ * SQLite-backed WalletKeyStore; survives restarts
+ */
+export class SqliteWalletKeyStore implements WalletKeyStore {
+  private db: Database.Database;
+
+  constructor(db?: Database.Database) {
+    this.db = db ?? openDatabase();
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS wallet_keys (
+        calendar_id TEXT PRIMARY KEY,
+        address TEXT NOT NULL,
+        keystore_json TEXT NOT NULL,
+        source TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS retired_wallet_keys (
+        calendar_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        keystore_json TEXT NOT NULL,
+        retired_at TEXT NOT NULL,
+        replaced_by TEXT NOT NULL
+      );
+    `);
+  }
+
+  get(calendarId: string): WalletKeyRecord | null {
+    const row = this.db
+      .prepare('SELECT * FROM wallet_keys WHERE calendar_id = ?')
+      .get(calendarId) as WalletKeyRow | undefined;
+    if (!row) return null;
+
+    return {
+      calendarId: row.calendar_id,
+      address: row.address,
+      keystore: row.keystore_json,
+      source: row.source as WalletKeyRecord['source'],
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  save(record: WalletKeyRecord): void {
+    this.db.prepare(`
+      INSERT INTO wallet_keys (calendar_id, address, keystore_json, source, created_at)
+      VALUES (@calendarId, @address, @keystore, @source, @createdAt)
+      ON CONFLICT(calendar_id) DO UPDATE SET
+        address = excluded.address,
+        keystore_json = excluded.keystore_json,
+        source = excluded.source,
+        created_at = excluded.created_at
+    `).run({
+      calendarId: record.calendarId,
+      address: record.address,
+      keystore: record.keystore,
+      source: record.source,
+      createdAt: record.createdAt.toISOString(),
+    });
+  }
+
+  replace(record: WalletKeyRecord): RetiredWalletKey | null {
+    const replace = this.db.transaction((): RetiredWalletKey | null => {
+      const current = this.get(record.calendarId);
+      let retired: RetiredWalletKey | null = null;
+
+      if (current) {
+        retired = {
+          calendarId: current.calendarId,
+          address: current.address,
+          keystore: current.keystore,
+          retiredAt: new Date(),
+          replacedBy: record.address,
+        };
+        this.db.prepare(`
+          INSERT INTO retired_wallet_keys (calendar_id, address, keystore_json, retired_at, replaced_by)
+          VALUES (?, ?, ?, ?, ?)
+        `).run(retired.calendarId, retired.address, retired.keystore, retired.retiredAt.toISOString(), retired.replacedBy);
+      }
+
+      this.save(record);
+      return retired;
+    });
+
+    return replace();
+  }
+
+  getRetired(calendarId: string): RetiredWalletKey[] {
+    const rows = this.db
+      .prepare('SELECT * FROM retired_wallet_keys WHERE calendar_id = ? ORDER BY retired_at')
+      .all(calendarId) as RetiredWalletKeyRow[];
+
+    return rows.map((row) => ({
+      calendarId: row.calendar_id,
+      address: row.address,
+      keystore: row.keystore_json,
+      retiredAt: new Date(row.retired_at),
+      replacedBy: row.replaced_by,
+    }));
+  }
+}
+
+export default SqliteWalletKeyStore;
@@ -0,0 +1,83 @@
+import type { AgentStore } from './AgentStore';
+import type { CalendarSettingsStore } from './CalendarSettingsStore';
+import type { ContactStore } from './ContactStore';
+import type { ExecutionLedger } from './ExecutionLedger';
+import type { PolicyStore } from './PolicyStore';
+import type { WalletKeyStore } from './WalletKeyStore';
+import InMemoryAgentStore from './InMemoryAgentStore';
+import InMemoryCalendarSettingsStore from './InMemoryCalendarSettingsStore';
+import InMemoryContactStore from './InMemoryContactStore';
+import InMemoryExecutionLedger from './InMemoryExecutionLedger';
+import InMemoryPolicyStore from './InMemoryPolicyStore';
+import InMemoryWalletKeyStore from './InMemoryWalletKeyStore';
+import SqliteAgentStore from './SqliteAgentStore';
+import SqliteCalendarSettingsStore from './SqliteCalendarSettingsStore';
+import SqliteContactStore from './SqliteContactStore';
+import SqliteExecutionLedger from './SqliteExecutionLedger';
+import SqlitePolicyStore from './SqlitePolicyStore';
+import SqliteWalletKeyStore from './SqliteWalletKeyStore';
+
+/**
+ * Backend selected by AGENT_STORE=sqlite (default) | memory
+ */
+function storeType(): 'sqlite' | 'memory' {
+  const type = process.env.AGENT_STORE || 'sqlite';
+  if (type !== 'sqlite' && type !== 'memory') {
+    throw new Error(`Unsupported AGENT_STORE: ${type}`);
+  }
+  return type;
+}
+
+/**
+ * Create the configured agent store
+ */
+export function createAgentStore(): AgentStore {
+  return storeType() === 'memory'
+    ? new InMemoryAgentStore()
+    : new SqliteAgentStore();
+}
+
+/**
+ * Create the configured execution ledger
+ */
+export function createExecutionLedger(): ExecutionLedger {
+  return storeType() === 'memory'
+    ? new InMemoryExecutionLedger()
+    : new SqliteExecutionLedger();
+}
+
+/**
+ * Create the configured address book store
+ */
+export function createContactStore(): ContactStore {
+  return storeType() === 'memory'
+    ? new InMemoryContactStore()
+    : new SqliteContactStore();
+}
+
+/**
+ * Create the configured calendar settings store
+ */
+export function createCalendarSettingsStore(): CalendarSettingsStore {
+  return storeType() === 'memory'
+    ? new InMemoryCalendarSettingsStore()
+    : new SqliteCalendarSettingsStore();
+}
+
+/**
+ * Create the configured spending policy store
+ */
+export function createPolicyStore(): PolicyStore {
+  return storeType() === 'memory'
+    ? new InMemoryPolicyStore()
+    : new SqlitePolicyStore();
+}
+
+/**
+ * Create the configured wallet key store
+ */
+export function createWalletKeyStore(): WalletKeyStore {
+  return storeType() === 'memory'
+    ? new InMemoryWalletKeyStore()
+    : new SqliteWalletKeyStore();
+}
@@ -0,0 +1,41 @@
+/**
+ * Encrypted private key of a calendar wallet
+ */
+export interface WalletKeyRecord {
+  calendarId: string;
+  address: string;            // Checksummed address of the key
+  keystore: string;           // Web3 Secret Storage v3 JSON, encrypted with KEYSTORE_PASSWORD
+  source: 'generated' | 'imported' | 'rotated';
+  createdAt: Date;
+}
+
+/**
+ * Key that was replaced; kept so funds still on its address can be swept later
+ */
+export interface RetiredWalletKey {
+  calendarId: string;
+  address: string;
+  keystore: string;
+  retiredAt: Date;
+  replacedBy: string;         // Address of the key that replaced it
+}
+
+/**
+ * Storage abstraction for calendar wallet keys, one per calendar
+ * Synchronous because wallet addresses are looked up synchronously
+ */
+export interface WalletKeyStore {
+  get(calendarId: string): WalletKeyRecord | null;
+  save(record: WalletKeyRecord): void;
+
+  /**
+   * Retire the calendar's current key and save its replacement in one step
+   * Returns the retired key (null if the calendar had none).
+   */
+  replace(record: WalletKeyRecord): RetiredWalletKey | null;
+
+  /**
+   * Retired keys of a calendar, oldest first
+   */
+  getRetired(calendarId: string): RetiredWalletKey[];
+}
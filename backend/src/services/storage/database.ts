@@ -0,0 +1,34 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+const connections: Map<string, Database.Database> = new Map();
+
+/**
+ * Open (or reuse) the SQLite database used by the agent's persistent stores
+ * Defaults to AGENT_DB_PATH or ./data/epochi.db
+ */
+export function openDatabase(filePath?: string): Database.Database {
+  const dbPath =
+    filePath ??
+    process.env.AGENT_DB_PATH ??
+    path.join(process.cwd(), 'data', 'epochi.db');
+
+  const existing = connections.get(dbPath);
+  if (existing) {
+    return existing;
+  }
+
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  connections.set(dbPath, db);
+  console.log(`🗄️ SQLite database opened: ${dbPath}`);
+
+  return db;
+}
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+/**
+ * Admin authentication middleware
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`; admin routes are disabled when the key is unset
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin API is disabled (ADMIN_API_KEY not set)'
+    });
+  }
+
+  const header = req.get('authorization') || '';
+  const provided = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  const expected = Buffer.from(adminKey);
+  const actual = Buffer.from(provided);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin credentials'
+    });
+  }
+
+  return next();
+}
@@ -22,6 +22,21 @@ export function validateEnvironment(): void {
     throw new Error('ENCRYPTION_KEY must be at least 32 characters');
   }
 
+  // Validate keystore password length
+  if (process.env.KEYSTORE_PASSWORD && process.env.KEYSTORE_PASSWORD.length < 32) {
+    throw new Error('KEYSTORE_PASSWORD must be at least 32 characters');
+  }
+
+  // The keystore signer generates keys that exist nowhere else
+  if ((process.env.SIGNER || 'keystore') === 'keystore') {
+    if (!process.env.KEYSTORE_PASSWORD) {
+      throw new Error('KEYSTORE_PASSWORD is required with SIGNER=keystore');
+    }
+    if (process.env.AGENT_STORE === 'memory') {
+      throw new Error('AGENT_STORE=memory would lose generated wallet keys on restart; use it with SIGNER=local or SIGNER=remote');
+    }
+  }
+
   // Validate port is a number
   if (process.env.PORT && isNaN(parseInt(process.env.PORT, 10))) {
     throw new Error('PORT must be a valid number');
@@ -0,0 +1,195 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import CalendarService from '../src/services/calendar/CalendarService';
+
+/**
+ * A request the fake Calendar API received
+ */
+interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+}
+
+let respond: (request: FakeRequest) => { status?: number; body: unknown } = () => ({ body: {} });
+let requests: FakeRequest[] = [];
+let server: http.Server;
+let service: CalendarService;
+let tmpDir: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url!, 'http://localhost');
+      const request = { method: req.method!, path: url.pathname, query: url.searchParams, body: raw ? JSON.parse(raw) : null };
+      requests.push(request);
+
+      const { status = 200, body } = respond(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  Object.assign(process.env, {
+    GOOGLE_CLIENT_ID: 'test-client',
+    GOOGLE_CLIENT_SECRET: 'test-secret',
+    GOOGLE_REDIRECT_URI: 'http://localhost/callback',
+    AGENT_STORE: 'memory',
+  });
+
+  // Stored tokens that won't need a refresh
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'epochi-calendar-'));
+  const tokensFilePath = path.join(tmpDir, 'calendar.tokens.json');
+  fs.writeFileSync(tokensFilePath, JSON.stringify({ access_token: 'test-token', expiry_date: Date.now() + 3600_000 }));
+
+  service = new CalendarService({
+    tokensFilePath,
+    apiRootUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+  });
+  while (!service.isAuth()) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+});
+
+after(async () => {
+  await service.unwatchCalendar('cal-1');
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const event = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  summary: `Send 1 STT to 0x${'1'.repeat(40)}`,
+  status: 'confirmed',
+  created: '2026-10-01T10:00:00.000Z',
+  updated: '2026-10-01T10:00:00.000Z',
+  start: { dateTime: '2026-11-01T10:00:00Z' },
+  end: { dateTime: '2026-11-01T10:30:00Z' },
+  ...fields,
+});
+
+test('a first sync lists upcoming events as created and keeps the sync token', async () => {
+  respond = () => ({ body: { items: [event('a'), event('b')], nextSyncToken: 'token-1', timeZone: 'Europe/Berlin' } });
+
+  const result = await service.syncEvents(null, 'cal-1');
+
+  assert.equal(result.fullSync, true);
+  assert.deepEqual(result.deltas.map((delta) => [delta.type, delta.event.id]), [['created', 'a'], ['created', 'b']]);
+  assert.equal(result.state.syncToken, 'token-1');
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].path, '/calendar/v3/calendars/cal-1/events');
+  assert.ok(requests[0].query.get('timeMin'));
+  assert.equal(requests[0].query.get('singleEvents'), 'true');
+});
+
+test('a sync follows every page and takes the sync token from the last one', async () => {
+  respond = ({ query }) => query.get('pageToken') === 'page-2'
+    ? { body: { items: [event('c')], nextSyncToken: 'token-2' } }
+    : { body: { items: [event('a'), event('b')], nextPageToken: 'page-2' } };
+
+  const result = await service.syncEvents(null, 'cal-1');
+
+  assert.deepEqual(result.deltas.map((delta) => delta.event.id), ['a', 'b', 'c']);
+  assert.equal(result.state.syncToken, 'token-2');
+  assert.equal(requests.length, 2);
+});
+
+test('an incremental sync reports created, updated and cancelled events', async () => {
+  respond = () => ({
+    body: {
+      items: [
+        event('new'),
+        event('edited', { updated: '2026-10-02T08:00:00.000Z' }),
+        { id: 'gone', status: 'cancelled' },
+      ],
+      nextSyncToken: 'token-3',
+    },
+  });
+
+  const result = await service.syncEvents({ syncToken: 'token-2', lastSyncedAt: new Date() }, 'cal-1');
+
+  assert.equal(result.fullSync, false);
+  assert.deepEqual(
+    result.deltas.map((delta) => [delta.type, delta.event.id]),
+    [['created', 'new'], ['updated', 'edited'], ['cancelled', 'gone']]
+  );
+  assert.equal(result.state.syncToken, 'token-3');
+  assert.equal(requests[0].query.get('syncToken'), 'token-2');
+  assert.equal(requests[0].query.get('timeMin'), null);
+});
+
+test('an expired sync token (410 Gone) falls back to a full resync', async () => {
+  respond = ({ query }) => query.get('syncToken')
+    ? { status: 410, body: { error: { code: 410, message: 'Sync token is no longer valid, a full sync is required.' } } }
+    : { body: { items: [event('a')], nextSyncToken: 'token-fresh' } };
+
+  const result = await service.syncEvents({ syncToken: 'stale', lastSyncedAt: new Date() }, 'cal-1');
+
+  assert.equal(result.fullSync, true);
+  assert.deepEqual(result.deltas.map((delta) => [delta.type, delta.event.id]), [['created', 'a']]);
+  assert.equal(result.state.syncToken, 'token-fresh');
+  assert.equal(requests.length, 2);
+  assert.ok(requests[1].query.get('timeMin'));
+});
+
+test('without a sync token, changes since the last sync are listed with updatedMin', async () => {
+  respond = () => ({ body: { items: [event('edited', { updated: '2026-10-02T08:00:00.000Z' })] } });
+  const lastSyncedAt = new Date('2026-10-02T07:00:00.000Z');
+
+  const result = await service.syncEvents({ syncToken: null, lastSyncedAt }, 'cal-1');
+
+  assert.equal(result.fullSync, false);
+  assert.deepEqual(result.deltas.map((delta) => delta.type), ['updated']);
+  assert.equal(requests[0].query.get('updatedMin'), lastSyncedAt.toISOString());
+  assert.equal(requests[0].query.get('showDeleted'), 'true');
+});
+
+test('other API errors are not mistaken for an expired position', async () => {
+  respond = () => ({ status: 403, body: { error: { code: 403, message: 'Rate Limit Exceeded' } } });
+
+  await assert.rejects(
+    service.syncEvents({ syncToken: 'token-3', lastSyncedAt: new Date() }, 'cal-1'),
+    /Failed to sync calendar events/
+  );
+  assert.equal(requests.length, 1);
+});
+
+test('push notifications reach the listener only with the channel token', async () => {
+  process.env.CALENDAR_WEBHOOK_URL = 'https://example.com/api/calendar/webhook';
+  respond = ({ path: requestPath, body }) => requestPath.endsWith('/events/watch')
+    ? { body: { ...body, resourceId: 'resource-1', expiration: String(Date.now() + 3600_000) } }
+    : { body: {} };
+
+  const changed: string[] = [];
+  const channel = await service.watchCalendar('cal-1', (calendarId) => changed.push(calendarId));
+  assert.ok(channel);
+  assert.equal(requests[0].body.address, process.env.CALENDAR_WEBHOOK_URL);
+  assert.equal(requests[0].body.type, 'web_hook');
+
+  const headers = { channelId: channel.id, resourceId: channel.resourceId };
+  assert.equal(service.handleNotification({ ...headers, channelToken: channel.token, resourceState: 'sync' }), 'sync');
+  assert.equal(service.handleNotification({ ...headers, channelToken: 'forged', resourceState: 'exists' }), 'invalid-token');
+  assert.equal(service.handleNotification({ channelId: 'other', channelToken: channel.token, resourceState: 'exists' }), 'unknown-channel');
+  assert.deepEqual(changed, []);
+
+  assert.equal(service.handleNotification({ ...headers, channelToken: channel.token, resourceState: 'exists' }), 'accepted');
+  assert.deepEqual(changed, ['cal-1']);
+
+  await service.unwatchCalendar('cal-1');
+  assert.equal(requests.at(-1)!.path, '/calendar/v3/channels/stop');
+  assert.deepEqual(requests.at(-1)!.body, { id: channel.id, resourceId: channel.resourceId });
+  assert.equal(service.handleNotification({ ...headers, channelToken: channel.token, resourceState: 'exists' }), 'unknown-channel');
+});
@@ -0,0 +1,173 @@
+import { after, before, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { hexToBigInt, hexToNumber, parseTransaction, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import Keystore from '../src/services/blockchain/Keystore';
+import { RemoteSigner, SignerError, createSigner, type UnsignedTransaction } from '../src/services/blockchain/Signer';
+
+const calendarAccount = privateKeyToAccount(generatePrivateKey());
+const defaultAccount = privateKeyToAccount(generatePrivateKey());
+const strangerAccount = privateKeyToAccount(generatePrivateKey());
+
+/**
+ * How the fake signer answers: honestly, or by misbehaving in one way
+ */
+let behaviour: 'raw' | 'geth' | 'refuse' | 'wrong-key' | 'change-value' | 'change-to' | 'garbage' = 'raw';
+let received: { params: Record<string, string>; authorization?: string }[] = [];
+let server: http.Server;
+let url: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', async () => {
+      const { id, method, params: [tx] } = JSON.parse(raw);
+      received.push({ params: tx, authorization: req.headers.authorization });
+      const reply = (body: object) => res.end(JSON.stringify({ jsonrpc: '2.0', id, ...body }));
+
+      if (method !== 'eth_signTransaction' || behaviour === 'refuse') {
+        return reply({ error: { code: -32000, message: 'account locked' } });
+      }
+      if (behaviour === 'garbage') {
+        return reply({ result: '0xdeadbeef' });
+      }
+
+      const signer = [calendarAccount, defaultAccount].find((account) => account.address === tx.from)!;
+      const signed = await (behaviour === 'wrong-key' ? strangerAccount : signer).signTransaction({
+        type: 'legacy',
+        to: behaviour === 'change-to' ? strangerAccount.address : tx.to,
+        value: hexToBigInt(tx.value) + (behaviour === 'change-value' ? BigInt(1) : BigInt(0)),
+        data: tx.data,
+        nonce: hexToNumber(tx.nonce),
+        gas: hexToBigInt(tx.gas),
+        gasPrice: hexToBigInt(tx.gasPrice),
+        chainId: hexToNumber(tx.chainId),
+      });
+      reply({ result: behaviour === 'geth' ? { raw: signed, tx } : signed });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  behaviour = 'raw';
+  received = [];
+});
+
+const transaction: UnsignedTransaction = {
+  type: 'legacy',
+  chainId: 50312,
+  nonce: 7,
+  to: '0x1111111111111111111111111111111111111111',
+  value: BigInt(1000),
+  data: '0xabcdef',
+  gas: BigInt(50000),
+  gasPrice: BigInt(6_000_000_000),
+};
+
+const newSigner = () => new RemoteSigner(url, { 'cal-1': calendarAccount.address }, defaultAccount.address, 'secret-token');
+
+test('signs with the calendar account and returns the signed transaction unchanged', async () => {
+  const signed = await newSigner().signTransaction('cal-1', transaction);
+
+  const parsed = parseTransaction(signed as Hex);
+  assert.equal(parsed.to, transaction.to);
+  assert.equal(parsed.value, transaction.value);
+  assert.equal(parsed.nonce, transaction.nonce);
+  assert.equal(parsed.chainId, transaction.chainId);
+
+  assert.equal(received.length, 1);
+  assert.equal(received[0].authorization, 'Bearer secret-token');
+  assert.deepEqual(received[0].params, {
+    from: calendarAccount.address,
+    to: transaction.to,
+    gas: '0xc350',
+    gasPrice: '0x165a0bc00',
+    value: '0x3e8',
+    data: '0xabcdef',
+    nonce: '0x7',
+    chainId: '0xc488',
+  });
+});
+
+test('accepts geth-style { raw, tx } answers', async () => {
+  behaviour = 'geth';
+  const signed = await newSigner().signTransaction('cal-1', transaction);
+  assert.equal(parseTransaction(signed as Hex).nonce, transaction.nonce);
+});
+
+test('calendars without their own account use the default one, or have none', async () => {
+  const signer = newSigner();
+  assert.equal(signer.getAddress('cal-1'), calendarAccount.address);
+  assert.equal(signer.getAddress('cal-2'), defaultAccount.address);
+
+  await signer.signTransaction('cal-2', transaction);
+  assert.equal(received[0].params.from, defaultAccount.address);
+
+  const withoutDefault = new RemoteSigner(url, { 'cal-1': calendarAccount.address });
+  assert.throws(
+    () => withoutDefault.getAddress('cal-2'),
+    (error: SignerError) => error instanceof SignerError && error.statusCode === 404
+  );
+});
+
+/**
+ * The signer answers 502 with a message matching pattern
+ */
+const rejectsWith = (pattern: RegExp) => (error: SignerError) =>
+  error instanceof SignerError && error.statusCode === 502 && pattern.test(error.message);
+
+test('a refusal from the signer is a 502', async () => {
+  behaviour = 'refuse';
+  await assert.rejects(newSigner().signTransaction('cal-1', transaction), rejectsWith(/refused/));
+});
+
+test('a signature from another key is rejected', async () => {
+  behaviour = 'wrong-key';
+  await assert.rejects(newSigner().signTransaction('cal-1', transaction), rejectsWith(/signed with 0x[0-9a-fA-F]{40} instead of/));
+});
+
+test('a signed transaction that differs from the request is rejected', async () => {
+  behaviour = 'change-value';
+  await assert.rejects(newSigner().signTransaction('cal-1', transaction), rejectsWith(/changed the transaction \(value\)/));
+
+  behaviour = 'change-to';
+  await assert.rejects(newSigner().signTransaction('cal-1', transaction), rejectsWith(/changed the transaction \(to\)/));
+});
+
+test('an answer that is not a signed transaction is rejected', async () => {
+  behaviour = 'garbage';
+  await assert.rejects(newSigner().signTransaction('cal-1', transaction), rejectsWith(/does not parse/));
+});
+
+test('SIGNER=remote is configured from the environment', () => {
+  const saved = { ...process.env };
+  try {
+    Object.assign(process.env, {
+      SIGNER: 'remote',
+      REMOTE_SIGNER_URL: url,
+      REMOTE_SIGNER_ACCOUNTS: JSON.stringify({ 'cal-1': calendarAccount.address }),
+      REMOTE_SIGNER_ACCOUNT: defaultAccount.address,
+    });
+    const signer = createSigner(new Keystore());
+    assert.equal(signer.kind, 'remote');
+    assert.equal(signer.getAddress('cal-1'), calendarAccount.address);
+    assert.equal(signer.getAddress('cal-9'), defaultAccount.address);
+
+    process.env.REMOTE_SIGNER_ACCOUNTS = 'not json';
+    assert.throws(() => createSigner(new Keystore()), /REMOTE_SIGNER_ACCOUNTS must be a JSON object/);
+
+    delete process.env.REMOTE_SIGNER_URL;
+    assert.throws(() => createSigner(new Keystore()), /SIGNER=remote requires REMOTE_SIGNER_URL/);
+  } finally {
+    process.env = saved;
+  }
+});
@@ -0,0 +1,123 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createPublicClient, createTestClient, http, parseEther, type Address, type Hex } from 'viem';
+import type { ParsedTransaction } from '../src/services/calendar/EventParser';
+
+/**
+ * Swap through a real router on a local Anvil fork of Somnia testnet (skipped unless configured)
+ *
+ * ANVIL_FORK_URL           Somnia testnet RPC to fork (the wallet signs for its chain ID)
+ * DEX_ROUTER_ADDRESS       Uniswap-V2/V3 style router on that chain (DEX_ROUTER_TYPE etc. as for the server)
+ * SWAP_TEST_TOKEN_ADDRESS  ERC-20 with native liquidity on that router
+ * SWAP_TEST_TOKEN_DECIMALS defaults to 18
+ */
+const ANVIL_PORT = 18550;
+const RPC_URL = `http://127.0.0.1:${ANVIL_PORT}`;
+const TOKEN_ADDRESS = process.env.SWAP_TEST_TOKEN_ADDRESS as Address | undefined;
+
+// Anvil's first dev account (0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266)
+const PRIVATE_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const skip = spawnSync('anvil', ['--version']).status !== 0
+  ? 'anvil is not installed'
+  : !process.env.ANVIL_FORK_URL || !process.env.DEX_ROUTER_ADDRESS || !TOKEN_ADDRESS
+    ? 'ANVIL_FORK_URL, DEX_ROUTER_ADDRESS and SWAP_TEST_TOKEN_ADDRESS are not set'
+    : false;
+
+let anvil: ChildProcess | null = null;
+let tmpDir = '';
+
+before(async () => {
+  if (skip) return;
+
+  anvil = spawn('anvil', ['--fork-url', process.env.ANVIL_FORK_URL!, '--port', String(ANVIL_PORT)], { stdio: 'ignore' });
+  const client = createPublicClient({ transport: http(RPC_URL, { retryCount: 0 }) });
+  for (let waited = 0; ; waited += 250) {
+    if (await client.getChainId().catch(() => null)) break;
+    if (waited > 30_000) throw new Error('anvil did not start within 30s');
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+
+  // The swap runs against the fork with a registry holding only the test token
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'epochi-swap-'));
+  const chainId = await client.getChainId();
+  fs.writeFileSync(path.join(tmpDir, 'tokens.json'), JSON.stringify({
+    tokens: [
+      { chainId, symbol: 'STT', name: 'Native', address: '0x0000000000000000000000000000000000000000', decimals: 18, verified: true },
+      {
+        chainId,
+        symbol: 'OUT',
+        name: 'Swap test token',
+        address: TOKEN_ADDRESS,
+        decimals: parseInt(process.env.SWAP_TEST_TOKEN_DECIMALS || '18', 10),
+        verified: true,
+      },
+    ],
+  }));
+
+  Object.assign(process.env, {
+    SOMNIA_RPC_URL: RPC_URL,
+    SOMNIA_CHAIN_ID: String(chainId),
+    TOKEN_REGISTRY_PATH: path.join(tmpDir, 'tokens.json'),
+    AGENT_STORE: 'memory',
+    RECEIPT_POLL_INTERVAL_MS: '100',
+    SWAP_MAX_PRICE_IMPACT_BPS: '10000',
+  });
+});
+
+after(() => {
+  anvil?.kill();
+  if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('swaps STT for a token through the router and reads the output from the receipt', { skip }, async () => {
+  // Loaded after the environment points at the fork
+  const { default: SomniaWalletService } = await import('../src/services/blockchain/SomniaWalletService');
+  const { default: TransactionExecutor } = await import('../src/services/blockchain/TransactionExecutor');
+  const { LocalSigner } = await import('../src/services/blockchain/Signer');
+  type DataStreamsService = import('../src/services/blockchain/DataStreamsService').default;
+
+  const signer = new LocalSigner(PRIVATE_KEY);
+  const walletService = new SomniaWalletService(undefined, signer);
+  await createTestClient({ mode: 'anvil', transport: http(RPC_URL) })
+    .setBalance({ address: signer.getAddress(), value: parseEther('100') });
+
+  const recorded: unknown[] = [];
+  const dataStreams = {
+    createTransactionRecord: (...args: unknown[]) => ({ args }),
+    encodeTransaction: () => '0x',
+    writeTransaction: async (record: unknown) => {
+      recorded.push(record);
+      return '0x' + '00'.repeat(32);
+    },
+  } as unknown as DataStreamsService;
+  const executor = new TransactionExecutor(walletService, dataStreams);
+
+  const now = Date.now();
+  const parsed: ParsedTransaction = {
+    valid: true,
+    type: 'swap',
+    fromToken: 'STT',
+    toToken: 'OUT',
+    amount: '0.1',
+    executionTime: new Date(now - 1000),
+    endTime: new Date(now + 60 * 60 * 1000),
+    eventId: 'anvil-swap',
+    eventTitle: 'Swap 0.1 STT to OUT',
+  };
+
+  const result = await executor.executeTransaction(parsed, 'anvil-calendar');
+
+  assert.equal(result.success, true, result.error);
+  assert.ok(result.txHash);
+  assert.ok(result.rawAmountReceived! > BigInt(0), 'received nothing');
+  assert.equal(recorded.length, 1);
+
+  const receipt = await walletService.getPublicClient().getTransactionReceipt({ hash: result.txHash as Hex });
+  assert.equal(receipt.status, 'success');
+  assert.equal(receipt.to?.toLowerCase(), process.env.DEX_ROUTER_ADDRESS!.toLowerCase());
+});
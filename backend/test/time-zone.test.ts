@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatLocalTime, zonedTimeToUtc } from '../src/services/calendar/TimeZoneResolver';
+import { resolveExecutionWindow } from '../src/services/calendar/EventWindow';
+
+/**
+ * In 2026 New York clocks jump 02:00 → 03:00 on 8 March and fall back 02:00 → 01:00 on 1 November
+ */
+const NEW_YORK = 'America/New_York';
+
+test('wall-clock times around the spring-forward gap', () => {
+  assert.equal(zonedTimeToUtc(NEW_YORK, 2026, 3, 8, 1, 30).toISOString(), '2026-03-08T06:30:00.000Z');
+  assert.equal(zonedTimeToUtc(NEW_YORK, 2026, 3, 8, 3, 30).toISOString(), '2026-03-08T07:30:00.000Z');
+
+  // 02:30 never happens that night: it moves forward by the hour skipped, to 03:30 EDT
+  assert.equal(zonedTimeToUtc(NEW_YORK, 2026, 3, 8, 2, 30).toISOString(), '2026-03-08T07:30:00.000Z');
+});
+
+test('wall-clock times around the fall-back overlap', () => {
+  assert.equal(zonedTimeToUtc(NEW_YORK, 2026, 11, 1, 0, 30).toISOString(), '2026-11-01T04:30:00.000Z');
+  assert.equal(zonedTimeToUtc(NEW_YORK, 2026, 11, 1, 2, 30).toISOString(), '2026-11-01T07:30:00.000Z');
+
+  // 01:30 happens twice (EDT, then EST an hour later): the first one is taken
+  assert.equal(zonedTimeToUtc(NEW_YORK, 2026, 11, 1, 1, 30).toISOString(), '2026-11-01T05:30:00.000Z');
+});
+
+test('local times carry the offset in force at that instant', () => {
+  assert.equal(formatLocalTime(new Date('2026-03-08T06:30:00Z'), NEW_YORK), '2026-03-08T01:30:00-05:00');
+  assert.equal(formatLocalTime(new Date('2026-03-08T07:30:00Z'), NEW_YORK), '2026-03-08T03:30:00-04:00');
+  assert.equal(formatLocalTime(new Date('2026-11-01T05:30:00Z'), NEW_YORK), '2026-11-01T01:30:00-04:00');
+  assert.equal(formatLocalTime(new Date('2026-11-01T06:30:00Z'), NEW_YORK), '2026-11-01T01:30:00-05:00');
+  assert.equal(formatLocalTime(new Date('2026-06-01T12:00:00Z'), 'UTC'), '2026-06-01T12:00:00+00:00');
+});
+
+test('timed events: floating times are read in the zone, offsets are kept', () => {
+  const floating = resolveExecutionWindow({
+    start: { dateTime: '2026-03-08T01:00:00' },
+    end: { dateTime: '2026-03-08T04:00:00' },
+  }, NEW_YORK);
+  assert.deepEqual(floating, {
+    start: new Date('2026-03-08T06:00:00Z'),
+    end: new Date('2026-03-08T08:00:00Z'),
+    allDay: false,
+  });
+
+  const withOffset = resolveExecutionWindow({
+    start: { dateTime: '2026-11-01T01:30:00-05:00' },
+    end: { dateTime: '2026-11-01T02:00:00-05:00' },
+  }, NEW_YORK);
+  assert.equal(withOffset?.start.toISOString(), '2026-11-01T06:30:00.000Z');
+  assert.equal(withOffset?.end.toISOString(), '2026-11-01T07:00:00.000Z');
+});
+
+test('a timed event that collapses in the gap still gets a window', () => {
+  // 02:30 and 03:30 are the same instant on the spring-forward night
+  const window = resolveExecutionWindow({
+    start: { dateTime: '2026-03-08T02:30:00' },
+    end: { dateTime: '2026-03-08T03:30:00' },
+  }, NEW_YORK);
+  assert.equal(window?.start.toISOString(), '2026-03-08T07:30:00.000Z');
+  assert.equal(window?.end.toISOString(), '2026-03-08T07:45:00.000Z');
+});
+
+test('all-day events run at 09:00 local and last until local midnight', () => {
+  const springForward = resolveExecutionWindow({ start: { date: '2026-03-08' }, end: { date: '2026-03-09' } }, NEW_YORK);
+  assert.deepEqual(springForward, {
+    start: new Date('2026-03-08T13:00:00Z'),
+    end: new Date('2026-03-09T04:00:00Z'),
+    allDay: true,
+  });
+
+  // The fall-back day is 25 hours long
+  const fallBack = resolveExecutionWindow({ start: { date: '2026-11-01' } }, NEW_YORK);
+  assert.deepEqual(fallBack, {
+    start: new Date('2026-11-01T14:00:00Z'),
+    end: new Date('2026-11-02T05:00:00Z'),
+    allDay: true,
+  });
+
+  const utcDay = resolveExecutionWindow({ start: { date: '2026-03-08' }, end: { date: '2026-03-09' } }, 'UTC');
+  assert.equal(utcDay?.start.toISOString(), '2026-03-08T09:00:00.000Z');
+  assert.equal(utcDay?.end.toISOString(), '2026-03-09T00:00:00.000Z');
+});
+
+test('events without a start have no window', () => {
+  assert.equal(resolveExecutionWindow({ summary: 'No times' }, NEW_YORK), null);
+});